@@ -1,13 +1,28 @@
+import type { AgoraTokenResponse, AgoraTokenRole } from '@/lib/types/agora';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
 import { NextRequest, NextResponse } from 'next/server';
 
 import { RtcTokenBuilder } from 'agora-token';
 
+import { BREAKOUT_CHANNEL_PREFIX, CALL_CHANNEL_PREFIX, WHISPER_CHANNEL_PREFIX } from '@/lib/constants';
 import { logger } from '@/lib/logger';
+import { getRequestAuth } from '@/lib/server/auth';
+import { getMemberBreakout, parseBreakoutChannelName } from '@/lib/utils/breakout';
 
 // For server-side code, we use the non-public env vars
 const appId = process.env.NEXT_PUBLIC_AGORA_APP_ID;
 const appCertificate = process.env.AGORA_APP_CERTIFICATE;
-// const tokenExpirationInSeconds = 3600; // 1 hour
+
+// Token lifetime, overridable via AGORA_TOKEN_EXPIRY_SECONDS; clients renew before expiry
+const DEFAULT_TOKEN_EXPIRY_SECONDS = 600;
+const MIN_TOKEN_EXPIRY_SECONDS = 60;
+const MAX_TOKEN_EXPIRY_SECONDS = 24 * 3600;
+
+// Assigned uids stay below 2^30 so derived uids can use the upper range
+const MAX_ASSIGNED_UID = 2 ** 30;
+const MAX_UID_ASSIGNMENT_ATTEMPTS = 3;
+const UNIQUE_VIOLATION = '23505';
 
 // Role values from agora-token package
 const ROLE = {
@@ -15,11 +30,299 @@ const ROLE = {
   SUBSCRIBER: 2,
 };
 
+const ROLE_VALUES: Record<AgoraTokenRole, number> = {
+  publisher: ROLE.PUBLISHER,
+  subscriber: ROLE.SUBSCRIBER,
+};
+
+const LOG_CONTEXT = { component: 'api/agora/token', action: 'generateToken' };
+
+const getTokenExpirySeconds = (): number => {
+  const configured = Number(process.env.AGORA_TOKEN_EXPIRY_SECONDS);
+  if (!Number.isFinite(configured) || configured <= 0) {
+    return DEFAULT_TOKEN_EXPIRY_SECONDS;
+  }
+  return Math.min(Math.max(Math.floor(configured), MIN_TOKEN_EXPIRY_SECONDS), MAX_TOKEN_EXPIRY_SECONDS);
+};
+
+// Reuse the caller's assigned uid, or assign a fresh one that no active member holds
+const resolveAssignedUid = async (
+  client: SupabaseClient,
+  memberId: string,
+  existingUid: number | null
+): Promise<number | null> => {
+  if (existingUid) {
+    return existingUid;
+  }
+
+  for (let attempt = 0; attempt < MAX_UID_ASSIGNMENT_ATTEMPTS; attempt++) {
+    const candidate = 1 + Math.floor(Math.random() * (MAX_ASSIGNED_UID - 1));
+    const { error } = await client
+      .from('party_members')
+      .update({ agora_uid: candidate })
+      .eq('id', memberId);
+
+    if (!error) {
+      return candidate;
+    }
+
+    if (error.code !== UNIQUE_VIOLATION) {
+      logger.error('Failed to assign Agora uid', {
+        ...LOG_CONTEXT,
+        metadata: { error, memberId },
+      });
+      return null;
+    }
+  }
+
+  return null;
+};
+
+const isServerMuted = async (client: SupabaseClient, partyId: string, userId: string): Promise<boolean> => {
+  const { data: mute } = await client
+    .from('party_sanctions')
+    .select('kind')
+    .eq('party_id', partyId)
+    .eq('member_id', userId)
+    .eq('kind', 'mute')
+    .maybeSingle();
+
+  return !!mute;
+};
+
+// Voice channels are named after the party id; only active members who are not banned or kicked get a token
+const resolvePartyUid = async (
+  client: SupabaseClient,
+  userId: string,
+  channelName: string
+): Promise<number | NextResponse> => {
+  const { data: membership, error: membershipError } = await client
+    .from('party_members')
+    .select('id, agora_uid')
+    .eq('id', userId)
+    .eq('party_id', channelName)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (membershipError) {
+    logger.error('Failed to verify party membership', {
+      ...LOG_CONTEXT,
+      metadata: { error: membershipError, channelName, userId },
+    });
+    return NextResponse.json({ error: 'Failed to verify party membership' }, { status: 500 });
+  }
+
+  if (!membership) {
+    logger.warn('Token requested by non-member', {
+      ...LOG_CONTEXT,
+      metadata: { channelName, userId },
+    });
+    return NextResponse.json({ error: 'Not a member of this party' }, { status: 403 });
+  }
+
+  const { data: sanctions } = await client
+    .from('party_sanctions')
+    .select('kind, expires_at')
+    .eq('party_id', channelName)
+    .eq('member_id', userId)
+    .in('kind', ['ban', 'kick']);
+
+  if (sanctions?.some((sanction) => sanction.kind === 'ban')) {
+    logger.warn('Token requested by banned member', {
+      ...LOG_CONTEXT,
+      metadata: { channelName, userId },
+    });
+    return NextResponse.json({ error: 'You are banned from this party' }, { status: 403 });
+  }
+
+  // Kicks lapse on their own; until then the member stays out
+  const isKicked = sanctions?.some(
+    (sanction) => sanction.kind === 'kick' && !!sanction.expires_at && new Date(sanction.expires_at).getTime() > Date.now()
+  );
+  if (isKicked) {
+    logger.warn('Token requested by kicked member', {
+      ...LOG_CONTEXT,
+      metadata: { channelName, userId },
+    });
+    return NextResponse.json({ error: 'You were kicked from this party' }, { status: 403 });
+  }
+
+  const uid = await resolveAssignedUid(client, userId, membership.agora_uid);
+  if (!uid) {
+    return NextResponse.json({ error: 'Failed to assign voice uid' }, { status: 500 });
+  }
+
+  return uid;
+};
+
+// Direct call channels are named after the call; the caller joins as uid 1 and the callee as 2
+const resolveCallUid = async (
+  client: SupabaseClient,
+  userId: string,
+  callId: string
+): Promise<number | NextResponse> => {
+  const { data: call, error } = await client
+    .from('direct_calls')
+    .select('caller_id, status')
+    .eq('id', callId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to verify direct call', {
+      ...LOG_CONTEXT,
+      metadata: { error, callId, userId },
+    });
+    return NextResponse.json({ error: 'Failed to verify call' }, { status: 500 });
+  }
+
+  // Row-level security hides calls the user is not part of
+  if (!call || call.status === 'ended') {
+    logger.warn('Token requested for unavailable call', {
+      ...LOG_CONTEXT,
+      metadata: { callId, userId },
+    });
+    return NextResponse.json({ error: 'This call has ended' }, { status: 403 });
+  }
+
+  return call.caller_id === userId ? 1 : 2;
+};
+
+// Whisper channels join two members of the same party; only the whisperer may publish
+const resolveWhisperUid = async (
+  client: SupabaseClient,
+  userId: string,
+  whisperPair: string,
+  role: AgoraTokenRole
+): Promise<number | NextResponse> => {
+  const [fromUid, toUid] = whisperPair.split('-').map(Number);
+  if (!fromUid || !toUid || fromUid === toUid) {
+    return NextResponse.json({ error: 'Invalid whisper channel' }, { status: 400 });
+  }
+
+  const { data: pair, error } = await client
+    .from('party_members')
+    .select('id, party_id, agora_uid')
+    .in('agora_uid', [fromUid, toUid])
+    .eq('is_active', true);
+
+  if (error) {
+    logger.error('Failed to verify whisper members', {
+      ...LOG_CONTEXT,
+      metadata: { error, whisperPair, userId },
+    });
+    return NextResponse.json({ error: 'Failed to verify whisper' }, { status: 500 });
+  }
+
+  const from = pair?.find((member) => Number(member.agora_uid) === fromUid);
+  const to = pair?.find((member) => Number(member.agora_uid) === toUid);
+  const isParticipant = from?.id === userId || to?.id === userId;
+  if (!from || !to || from.party_id !== to.party_id || !isParticipant) {
+    logger.warn('Token requested for unavailable whisper', {
+      ...LOG_CONTEXT,
+      metadata: { whisperPair, userId },
+    });
+    return NextResponse.json({ error: 'Not part of this whisper' }, { status: 403 });
+  }
+
+  if (role === 'publisher' && from.id !== userId) {
+    return NextResponse.json({ error: 'Only the whisperer can speak' }, { status: 403 });
+  }
+
+  // A member muted by the host cannot get around it by whispering
+  if (role === 'publisher' && (await isServerMuted(client, from.party_id, userId))) {
+    return NextResponse.json({ error: 'You are muted in this party' }, { status: 403 });
+  }
+
+  return from.id === userId ? fromUid : toUid;
+};
+
+// Breakout rooms admit only the members the host assigned to them, with the uid they hold in the party
+const resolveBreakoutUid = async (
+  client: SupabaseClient,
+  userId: string,
+  channelName: string
+): Promise<number | NextResponse> => {
+  const breakout = parseBreakoutChannelName(channelName);
+  if (!breakout) {
+    return NextResponse.json({ error: 'Invalid breakout channel' }, { status: 400 });
+  }
+
+  const { data: party, error } = await client
+    .from('parties')
+    .select('breakout_count, breakout_assignments')
+    .eq('id', breakout.partyId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to verify breakout assignment', {
+      ...LOG_CONTEXT,
+      metadata: { error, channelName, userId },
+    });
+    return NextResponse.json({ error: 'Failed to verify breakout' }, { status: 500 });
+  }
+
+  const assignments = (party?.breakout_assignments ?? {}) as Record<string, number>;
+  if (!party || getMemberBreakout(assignments, party.breakout_count, userId) !== breakout.breakout) {
+    logger.warn('Token requested for unassigned breakout', {
+      ...LOG_CONTEXT,
+      metadata: { channelName, userId },
+    });
+    return NextResponse.json({ error: 'Not assigned to this breakout' }, { status: 403 });
+  }
+
+  // Kicked and banned members are turned away here, as they are from the main channel
+  return resolvePartyUid(client, userId, breakout.partyId);
+};
+
+// Direct calls, whispers and breakouts are named by prefix; anything else is a party's voice channel
+const resolveChannelUid = (
+  client: SupabaseClient,
+  userId: string,
+  channelName: string,
+  role: AgoraTokenRole
+): Promise<number | NextResponse> => {
+  if (channelName.startsWith(CALL_CHANNEL_PREFIX)) {
+    return resolveCallUid(client, userId, channelName.slice(CALL_CHANNEL_PREFIX.length));
+  }
+  if (channelName.startsWith(WHISPER_CHANNEL_PREFIX)) {
+    return resolveWhisperUid(client, userId, channelName.slice(WHISPER_CHANNEL_PREFIX.length), role);
+  }
+  if (channelName.startsWith(BREAKOUT_CHANNEL_PREFIX)) {
+    return resolveBreakoutUid(client, userId, channelName);
+  }
+  return resolvePartyUid(client, userId, channelName);
+};
+
+// Party and breakout voice belong to a party; calls and whispers settle their own roles
+const getVoicePartyId = (channelName: string): string | null => {
+  if (channelName.startsWith(CALL_CHANNEL_PREFIX) || channelName.startsWith(WHISPER_CHANNEL_PREFIX)) {
+    return null;
+  }
+  if (channelName.startsWith(BREAKOUT_CHANNEL_PREFIX)) {
+    return parseBreakoutChannelName(channelName)?.partyId ?? null;
+  }
+  return channelName;
+};
+
+// A member muted by the host listens only, however often they rejoin and whichever room they are in;
+// the publish kicking rule is bound to a uid and would not follow them
+const resolveTokenRole = async (
+  client: SupabaseClient,
+  userId: string,
+  channelName: string,
+  role: AgoraTokenRole
+): Promise<AgoraTokenRole> => {
+  const partyId = getVoicePartyId(channelName);
+  if (role !== 'publisher' || !partyId) {
+    return role;
+  }
+  return (await isServerMuted(client, partyId, userId)) ? 'subscriber' : role;
+};
+
 export async function POST(req: NextRequest) {
   try {
     logger.debug('Token generation request received', {
-      component: 'api/agora/token',
-      action: 'generateToken',
+      ...LOG_CONTEXT,
       metadata: {
         timestamp: Date.now(),
       },
@@ -27,8 +330,7 @@ export async function POST(req: NextRequest) {
 
     if (!appId || !appCertificate) {
       logger.error('Agora credentials not configured', {
-        component: 'api/agora/token',
-        action: 'generateToken',
+        ...LOG_CONTEXT,
         metadata: {
           hasAppId: !!appId,
           hasCertificate: !!appCertificate,
@@ -40,39 +342,37 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const auth = await getRequestAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
     const body = await req.json();
-    const { channelName, uid } = body;
+    const { channelName, role = 'publisher' } = body;
 
     logger.debug('Parsed token request', {
-      component: 'api/agora/token',
-      action: 'generateToken',
+      ...LOG_CONTEXT,
       metadata: {
         channelName,
-        uid,
+        role,
+        userId: auth.user.id,
         timestamp: Date.now(),
       },
     });
 
     if (!channelName) {
-      logger.error('Channel name is required', {
-        component: 'api/agora/token',
-        action: 'generateToken',
-      });
+      logger.error('Channel name is required', LOG_CONTEXT);
       return NextResponse.json({ error: 'channelName is required' }, { status: 400 });
     }
 
-    if (channelName.trim() === '') {
-      logger.error('Channel name cannot be empty', {
-        component: 'api/agora/token',
-        action: 'generateToken',
-      });
+    if (typeof channelName !== 'string' || channelName.trim() === '') {
+      logger.error('Channel name cannot be empty', LOG_CONTEXT);
       return NextResponse.json({ error: 'Channel name cannot be empty' }, { status: 400 });
     }
 
     if (channelName.length > 64) {
       logger.error('Channel name too long', {
-        component: 'api/agora/token',
-        action: 'generateToken',
+        ...LOG_CONTEXT,
         metadata: { length: channelName.length },
       });
       return NextResponse.json({ error: 'Channel name too long' }, { status: 400 });
@@ -80,46 +380,36 @@ export async function POST(req: NextRequest) {
 
     if (!/^[a-zA-Z0-9_-]+$/.test(channelName)) {
       logger.error('Invalid channel name format', {
-        component: 'api/agora/token',
-        action: 'generateToken',
+        ...LOG_CONTEXT,
         metadata: { channelName },
       });
       return NextResponse.json({ error: 'Invalid channel name format' }, { status: 400 });
     }
 
-    if (uid !== undefined) {
-      if (typeof uid !== 'number') {
-        logger.error('Invalid UID format', {
-          component: 'api/agora/token',
-          action: 'generateToken',
-          metadata: { uid, type: typeof uid },
-        });
-        return NextResponse.json({ error: 'Invalid UID format' }, { status: 400 });
-      }
-
-      if (uid < 0) {
-        logger.error('UID must be non-negative', {
-          component: 'api/agora/token',
-          action: 'generateToken',
-          metadata: { uid },
-        });
-        return NextResponse.json({ error: 'UID must be a non-negative number' }, { status: 400 });
-      }
+    if (typeof role !== 'string' || !Object.hasOwn(ROLE_VALUES, role)) {
+      logger.error('Invalid token role', {
+        ...LOG_CONTEXT,
+        metadata: { role },
+      });
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+
+    const uid = await resolveChannelUid(auth.client, auth.user.id, channelName, role as AgoraTokenRole);
+    if (uid instanceof NextResponse) {
+      return uid;
     }
 
-    // Set token expiration time - 24 hours from now
-    const expirationTimeInSeconds = 24 * 3600;
+    const expirationTimeInSeconds = getTokenExpirySeconds();
     const currentTimestamp = Math.floor(Date.now() / 1000);
     const privilegeExpiredTs = currentTimestamp + expirationTimeInSeconds;
-
-    const finalUid = uid || 0;
+    const tokenRole = await resolveTokenRole(auth.client, auth.user.id, channelName, role as AgoraTokenRole);
 
     logger.debug('Building token', {
-      component: 'api/agora/token',
-      action: 'generateToken',
+      ...LOG_CONTEXT,
       metadata: {
         channelName,
-        uid: finalUid,
+        uid,
+        role: tokenRole,
         timestamps: {
           current: currentTimestamp,
           privilegeExpire: privilegeExpiredTs,
@@ -132,44 +422,43 @@ export async function POST(req: NextRequest) {
       appId,
       appCertificate,
       channelName,
-      finalUid,
-      ROLE.PUBLISHER,
+      uid,
+      ROLE_VALUES[tokenRole],
       privilegeExpiredTs,
       privilegeExpiredTs
     );
 
     logger.debug('Token generated successfully', {
-      component: 'api/agora/token',
-      action: 'generateToken',
+      ...LOG_CONTEXT,
       metadata: {
         channelName,
-        uid: finalUid,
+        uid,
         tokenLength: token.length,
         timestamp: Date.now(),
       },
     });
 
-    return NextResponse.json({
+    const response: AgoraTokenResponse = {
       token,
       channelName,
-      uid: finalUid,
-      role: ROLE.PUBLISHER,
+      uid,
+      role: tokenRole,
       privileges: {
         expireTimestamp: privilegeExpiredTs,
       },
-    });
+    };
+
+    return NextResponse.json(response);
   } catch (error) {
     if (error instanceof SyntaxError) {
       logger.error('Invalid JSON format', {
-        component: 'api/agora/token',
-        action: 'generateToken',
+        ...LOG_CONTEXT,
         metadata: { error },
       });
       return NextResponse.json({ error: 'Invalid JSON format' }, { status: 400 });
     }
     logger.error('Failed to generate token', {
-      component: 'api/agora/token',
-      action: 'generateToken',
+      ...LOG_CONTEXT,
       metadata: {
         error,
         errorMessage: error instanceof Error ? error.message : String(error),
@@ -0,0 +1,109 @@
+import type { InviteStatus } from '@/lib/server/invites';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { logger } from '@/lib/logger';
+import { getRequestAuth } from '@/lib/server/auth';
+import { getInviteStatus, loadInvite, toInvitePreview } from '@/lib/server/invites';
+import { getAdminClient } from '@/lib/server/supabaseAdmin';
+
+const LOG_CONTEXT = { component: 'api/party/invites/[code]' };
+
+interface RouteContext {
+  params: Promise<{ code: string }>;
+}
+
+const INVALID_INVITE_ERRORS: Record<Exclude<InviteStatus, 'valid'>, string> = {
+  expired: 'This invite has expired',
+  used_up: 'This invite has been used up',
+};
+
+const serviceRoleMissing = (action: string) => {
+  logger.error('Service role not configured', { ...LOG_CONTEXT, action });
+  return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY must be defined' }, { status: 500 });
+};
+
+// Anyone with the link may preview it, which is all the landing page needs
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = getAdminClient();
+    if (!admin) return serviceRoleMissing('previewInvite');
+
+    const { code } = await params;
+    const invite = await loadInvite(admin, code);
+    if (!invite) {
+      return NextResponse.json({ error: 'This invite does not exist' }, { status: 404 });
+    }
+
+    const status = getInviteStatus(invite);
+    if (status !== 'valid') {
+      return NextResponse.json({ error: INVALID_INVITE_ERRORS[status] }, { status: 410 });
+    }
+
+    return NextResponse.json({ invite: toInvitePreview(invite) });
+  } catch (error) {
+    logger.error('Failed to load invite', {
+      ...LOG_CONTEXT,
+      action: 'previewInvite',
+      metadata: { error },
+    });
+    return NextResponse.json({ error: 'Failed to load invite' }, { status: 500 });
+  }
+}
+
+// Redeeming counts a use and hands back the party to join
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = getAdminClient();
+    if (!admin) return serviceRoleMissing('redeemInvite');
+
+    const auth = await getRequestAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { code } = await params;
+    const invite = await loadInvite(admin, code);
+    if (!invite) {
+      return NextResponse.json({ error: 'This invite does not exist' }, { status: 404 });
+    }
+
+    if (invite.members_only && auth.user.is_anonymous) {
+      return NextResponse.json({ error: 'Sign in with an account to use this invite' }, { status: 403 });
+    }
+
+    const status = getInviteStatus(invite);
+    if (status === 'expired') {
+      return NextResponse.json({ error: INVALID_INVITE_ERRORS.expired }, { status: 410 });
+    }
+
+    // The function re-checks under a row lock, so a use is never counted past max_uses
+    const { data: partyId, error } = await admin.rpc('redeem_party_invite', {
+      invite_code: code,
+      redeemer: auth.user.id,
+    });
+    if (error) throw error;
+
+    if (!partyId) {
+      return NextResponse.json({ error: INVALID_INVITE_ERRORS.used_up }, { status: 410 });
+    }
+
+    logger.info('Invite redeemed', {
+      ...LOG_CONTEXT,
+      action: 'redeemInvite',
+      metadata: { partyId, memberId: auth.user.id },
+    });
+
+    return NextResponse.json({ partyId });
+  } catch (error) {
+    logger.error('Failed to redeem invite', {
+      ...LOG_CONTEXT,
+      action: 'redeemInvite',
+      metadata: {
+        error,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      },
+    });
+    return NextResponse.json({ error: 'Failed to redeem invite' }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import type { InviteOptions } from '@/lib/types/party/party';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { randomBytes } from 'crypto';
+
+import { INVITE_EXPIRY_HOURS, INVITE_MAX_USES } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+import { getRequestAuth } from '@/lib/server/auth';
+import { loadInvite, toInvitePreview } from '@/lib/server/invites';
+import { getAdminClient } from '@/lib/server/supabaseAdmin';
+
+const LOG_CONTEXT = { component: 'api/party/invites', action: 'createInvite' };
+
+// 9 random bytes make a 12 character code that is short to paste and infeasible to guess
+const INVITE_CODE_BYTES = 9;
+
+const isInviteOptions = (value: Partial<InviteOptions>): value is InviteOptions =>
+  (INVITE_EXPIRY_HOURS as readonly (number | null)[]).includes(value.expiresInHours ?? null) &&
+  (INVITE_MAX_USES as readonly (number | null)[]).includes(value.maxUses ?? null) &&
+  typeof value.membersOnly === 'boolean';
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = getAdminClient();
+    if (!admin) {
+      logger.error('Service role not configured', LOG_CONTEXT);
+      return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY must be defined' }, { status: 500 });
+    }
+
+    const auth = await getRequestAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { partyId, ...options } = await req.json();
+
+    if (typeof partyId !== 'string' || !isInviteOptions(options)) {
+      return NextResponse.json({ error: 'partyId and valid invite options are required' }, { status: 400 });
+    }
+
+    const { data: role, error: roleError } = await admin
+      .from('party_roles')
+      .select('role')
+      .eq('party_id', partyId)
+      .eq('member_id', auth.user.id)
+      .maybeSingle();
+
+    if (roleError) {
+      logger.error('Failed to load party role', {
+        ...LOG_CONTEXT,
+        metadata: { error: roleError, partyId },
+      });
+      return NextResponse.json({ error: 'Failed to verify permissions' }, { status: 500 });
+    }
+
+    if (role?.role !== 'host') {
+      return NextResponse.json({ error: 'Only the host can create invites' }, { status: 403 });
+    }
+
+    const code = randomBytes(INVITE_CODE_BYTES).toString('base64url');
+    const { error } = await admin.from('party_invites').insert({
+      code,
+      party_id: partyId,
+      created_by: auth.user.id,
+      expires_at: options.expiresInHours
+        ? new Date(Date.now() + options.expiresInHours * 3600 * 1000).toISOString()
+        : null,
+      max_uses: options.maxUses,
+      members_only: options.membersOnly,
+    });
+    if (error) throw error;
+
+    const invite = await loadInvite(admin, code);
+    if (!invite) throw new Error('Invite missing after insert');
+
+    logger.info('Invite created', {
+      ...LOG_CONTEXT,
+      metadata: { partyId, ...options },
+    });
+
+    return NextResponse.json({ invite: toInvitePreview(invite) });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON format' }, { status: 400 });
+    }
+    logger.error('Failed to create invite', {
+      ...LOG_CONTEXT,
+      metadata: {
+        error,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      },
+    });
+    return NextResponse.json({ error: 'Failed to create invite' }, { status: 500 });
+  }
+}
@@ -0,0 +1,259 @@
+import type { AgoraRulePrivilege } from '@/lib/server/agoraRest';
+import type { ModerationAction, ModerationEvent, PartyRole } from '@/lib/types/party/party';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { PARTY_CHANNEL_PREFIX } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+import { createKickingRule, deleteKickingRule } from '@/lib/server/agoraRest';
+import { getRequestAuth } from '@/lib/server/auth';
+import { getAdminClient } from '@/lib/server/supabaseAdmin';
+import { getMemberBreakout, getVoiceChannelName } from '@/lib/utils/breakout';
+
+const LOG_CONTEXT = { component: 'api/party/moderation', action: 'moderate' };
+
+const ACTIONS: ModerationAction[] = ['ban', 'kick', 'mute', 'stop_share', 'unmute'];
+
+// Kicked members are kept out of the party and its voice channels for this long
+const KICK_MINUTES = 10;
+// A stopped share is held off briefly in case the sharer's client ignores the broadcast
+const STOP_SHARE_RULE_MINUTES = 1;
+// Longest duration Agora allows for a kicking rule
+const MAX_RULE_MINUTES = 1440;
+
+const getRole = (roles: { member_id: string; role: string }[], memberId: string): PartyRole =>
+  (roles.find((r) => r.member_id === memberId)?.role as PartyRole | undefined) ?? 'member';
+
+// Hosts can do everything; moderators can kick and mute plain members only
+const canModerate = (actorRole: PartyRole, targetRole: PartyRole, action: ModerationAction) => {
+  if (actorRole === 'host') return targetRole !== 'host';
+  if (actorRole === 'moderator') return targetRole === 'member' && action !== 'ban';
+  return false;
+};
+
+const deactivateMember = async (admin: SupabaseClient, partyId: string, memberId: string) => {
+  const { error } = await admin
+    .from('party_members')
+    .update({ is_active: false })
+    .eq('id', memberId)
+    .eq('party_id', partyId);
+
+  if (error) throw error;
+};
+
+// The member's Agora channels, the one they are talking in last; a breakout member is also kept out of the main one
+const getMemberVoiceChannels = async (
+  admin: SupabaseClient,
+  partyId: string,
+  memberId: string
+): Promise<string[]> => {
+  const { data: party } = await admin
+    .from('parties')
+    .select('breakout_count, breakout_assignments')
+    .eq('id', partyId)
+    .maybeSingle();
+
+  const breakout = party
+    ? getMemberBreakout((party.breakout_assignments ?? {}) as Record<string, number>, party.breakout_count, memberId)
+    : null;
+  return breakout ? [partyId, getVoiceChannelName(partyId, breakout)] : [partyId];
+};
+
+const createKickingRules = (channelNames: string[], uid: number, minutes: number, privileges: AgoraRulePrivilege[]) =>
+  Promise.all(channelNames.map((channelName) => createKickingRule({ channelName, uid, minutes, privileges })));
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = getAdminClient();
+    if (!admin) {
+      logger.error('Service role not configured', LOG_CONTEXT);
+      return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY must be defined' }, { status: 500 });
+    }
+
+    const auth = await getRequestAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { partyId, memberId, action } = body;
+
+    if (typeof partyId !== 'string' || typeof memberId !== 'string' || !ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'partyId, memberId and a valid action are required' }, { status: 400 });
+    }
+
+    if (memberId === auth.user.id) {
+      return NextResponse.json({ error: 'You cannot moderate yourself' }, { status: 400 });
+    }
+
+    const { data: roles, error: rolesError } = await admin
+      .from('party_roles')
+      .select('member_id, role')
+      .eq('party_id', partyId)
+      .in('member_id', [auth.user.id, memberId]);
+
+    if (rolesError) {
+      logger.error('Failed to load party roles', {
+        ...LOG_CONTEXT,
+        metadata: { error: rolesError, partyId },
+      });
+      return NextResponse.json({ error: 'Failed to verify permissions' }, { status: 500 });
+    }
+
+    const actorRole = getRole(roles ?? [], auth.user.id);
+    const targetRole = getRole(roles ?? [], memberId);
+
+    if (!canModerate(actorRole, targetRole, action)) {
+      logger.warn('Moderation denied', {
+        ...LOG_CONTEXT,
+        metadata: { partyId, memberId, action, actorId: auth.user.id, actorRole, targetRole },
+      });
+      return NextResponse.json({ error: 'You do not have permission to do that' }, { status: 403 });
+    }
+
+    // Read the uid before deactivating, which clears agora_uid
+    const { data: target } = await admin
+      .from('party_members')
+      .select('agora_uid')
+      .eq('id', memberId)
+      .eq('party_id', partyId)
+      .maybeSingle();
+    const agoraUid: number | null = target?.agora_uid ?? null;
+    const voiceChannels = await getMemberVoiceChannels(admin, partyId, memberId);
+    const currentVoiceChannel = voiceChannels[voiceChannels.length - 1]!;
+
+    switch (action as ModerationAction) {
+      case 'kick': {
+        // The record keeps them from reactivating their membership until it lapses
+        const { error } = await admin.from('party_sanctions').upsert({
+          party_id: partyId,
+          member_id: memberId,
+          kind: 'kick',
+          created_by: auth.user.id,
+          created_at: new Date().toISOString(),
+          expires_at: new Date(Date.now() + KICK_MINUTES * 60 * 1000).toISOString(),
+        });
+        if (error) throw error;
+
+        await deactivateMember(admin, partyId, memberId);
+        if (agoraUid) {
+          await createKickingRules(voiceChannels, agoraUid, KICK_MINUTES, ['join_channel']);
+        }
+        break;
+      }
+      case 'ban': {
+        const { error } = await admin.from('party_sanctions').upsert({
+          party_id: partyId,
+          member_id: memberId,
+          kind: 'ban',
+          created_by: auth.user.id,
+        });
+        if (error) throw error;
+
+        await deactivateMember(admin, partyId, memberId);
+        if (agoraUid) {
+          await createKickingRules(voiceChannels, agoraUid, MAX_RULE_MINUTES, ['join_channel']);
+        }
+        break;
+      }
+      case 'mute': {
+        // Only the room they are in needs the rule; any other room hands them a listen-only token
+        const ruleId = agoraUid
+          ? await createKickingRule({
+              channelName: currentVoiceChannel,
+              uid: agoraUid,
+              minutes: MAX_RULE_MINUTES,
+              privileges: ['publish_audio'],
+            })
+          : null;
+
+        const { error } = await admin.from('party_sanctions').upsert({
+          party_id: partyId,
+          member_id: memberId,
+          kind: 'mute',
+          created_by: auth.user.id,
+          agora_rule_id: ruleId,
+        });
+        if (error) throw error;
+        break;
+      }
+      case 'stop_share': {
+        // Clients check the broadcast against this row, since anyone can broadcast on the party channel
+        const { error } = await admin.from('party_share_stops').upsert({
+          party_id: partyId,
+          member_id: memberId,
+          stopped_by: auth.user.id,
+          stopped_at: new Date().toISOString(),
+        });
+        if (error) throw error;
+
+        // The client stops on the broadcast; the rule covers one that ignores it
+        if (agoraUid) {
+          await createKickingRule({
+            channelName: currentVoiceChannel,
+            uid: agoraUid,
+            minutes: STOP_SHARE_RULE_MINUTES,
+            privileges: ['publish_video'],
+          });
+        }
+        break;
+      }
+      case 'unmute': {
+        const { data: sanction } = await admin
+          .from('party_sanctions')
+          .select('agora_rule_id')
+          .eq('party_id', partyId)
+          .eq('member_id', memberId)
+          .eq('kind', 'mute')
+          .maybeSingle();
+
+        if (sanction?.agora_rule_id) {
+          await deleteKickingRule(sanction.agora_rule_id);
+        }
+
+        const { error } = await admin
+          .from('party_sanctions')
+          .delete()
+          .eq('party_id', partyId)
+          .eq('member_id', memberId)
+          .eq('kind', 'mute');
+        if (error) throw error;
+        break;
+      }
+    }
+
+    // Tell the party; clients verify against the database before acting
+    const event: ModerationEvent = { action, actorId: auth.user.id, memberId, partyId };
+    const partyChannel = admin.channel(`${PARTY_CHANNEL_PREFIX}${partyId}`);
+    try {
+      await partyChannel.send({
+        type: 'broadcast',
+        event: 'moderation',
+        payload: event,
+      });
+    } finally {
+      // The admin client is shared across requests, so drop the channel instead of keeping one per party
+      await admin.removeChannel(partyChannel);
+    }
+
+    logger.info('Moderation action applied', {
+      ...LOG_CONTEXT,
+      metadata: { ...event, actorRole },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON format' }, { status: 400 });
+    }
+    logger.error('Failed to apply moderation action', {
+      ...LOG_CONTEXT,
+      metadata: {
+        error,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      },
+    });
+    return NextResponse.json({ error: 'Failed to apply moderation action' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+import { useParams } from 'next/navigation';
+
+const InviteLanding = dynamic(
+  () => import('@/components/features/party/InviteLanding').then((mod) => mod.InviteLanding),
+  {
+    ssr: false,
+    loading: () => <div className="fixed inset-0 min-h-screen overflow-hidden bg-black" />,
+  }
+);
+
+export default function JoinPage() {
+  const params = useParams<{ code: string }>();
+
+  return <InviteLanding code={params.code} />;
+}
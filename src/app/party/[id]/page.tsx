@@ -0,0 +1,21 @@
+'use client';
+
+import { Suspense } from 'react';
+
+import dynamic from 'next/dynamic';
+import { useParams } from 'next/navigation';
+
+const MainContent = dynamic(() => import('@/components/features/MainContent'), {
+  ssr: false,
+  loading: () => <div className="fixed inset-0 min-h-screen overflow-hidden" />,
+});
+
+export default function PartyPage() {
+  const params = useParams<{ id: string }>();
+
+  return (
+    <Suspense fallback={<div className="fixed inset-0 min-h-screen overflow-hidden bg-white" />}>
+      <MainContent partyId={params.id} />
+    </Suspense>
+  );
+}
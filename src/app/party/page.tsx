@@ -0,0 +1,15 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+
+const PartyBrowser = dynamic(
+  () => import('@/components/features/party/PartyBrowser').then((mod) => mod.PartyBrowser),
+  {
+    ssr: false,
+    loading: () => <div className="fixed inset-0 min-h-screen overflow-hidden bg-black" />,
+  }
+);
+
+export default function PartiesPage() {
+  return <PartyBrowser />;
+}
@@ -4,9 +4,10 @@ import { useEffect, useState } from 'react';
 
 import dynamic from 'next/dynamic';
 
-import { BACKGROUND_VIDEO_URL, INTRO_VIDEO_URL } from '@/lib/constants';
+import { BACKGROUND_VIDEO_URL, INTRO_VIDEO_URL, MAIN_PARTY_ID } from '@/lib/constants';
 import { useIsMobile } from '@/lib/hooks/useIsMobile';
 import { logger } from '@/lib/logger';
+import { usePartyStore } from '@/lib/stores/partyStore';
 
 const PartyChat = dynamic(() => import('@/components/features/party/PartyChat'), {
   ssr: false,
@@ -23,13 +24,24 @@ const XboxIntro = dynamic(
   }
 );
 
-export default function MainContent() {
+interface MainContentProps {
+  partyId?: string;
+}
+
+export default function MainContent({ partyId = MAIN_PARTY_ID }: MainContentProps) {
   const isMobile = useIsMobile();
-  const [showIntro, setShowIntro] = useState(!isMobile);
+  // Arriving already in the party, e.g. from an invite link, skips the intro
+  const [hasJoined] = useState(() => usePartyStore.getState().presence.currentMember !== null);
+  const [showIntro, setShowIntro] = useState(!isMobile && !hasJoined);
   const [videoLoaded, setVideoLoaded] = useState(isMobile);
-  const [showPartyChat, setShowPartyChat] = useState(isMobile);
+  const [showPartyChat, setShowPartyChat] = useState(isMobile || hasJoined);
   const [introVideoLoaded, setIntroVideoLoaded] = useState(false);
 
+  // Point presence and voice at the requested party
+  useEffect(() => {
+    usePartyStore.getState().setPartyId(partyId);
+  }, [partyId]);
+
   // Preload videos sequentially to reduce resource contention
   useEffect(() => {
     // Skip video preloading on mobile
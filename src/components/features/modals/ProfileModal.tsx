@@ -1,5 +1,19 @@
 'use client';
 
+import type { VoiceService } from '@/lib/services/voiceService';
+import type { OAuthProvider } from '@/lib/types/auth';
+import type { CameraPreset, InstantReplaySettings } from '@/lib/types/party/media';
+import type {
+  AudioDeviceKind,
+  AudioDeviceLists,
+  AudioProcessingSettings,
+  DenoiserLevel,
+  DenoiserMode,
+  SpatialAudioSettings,
+  SpatialLayoutMode,
+  VoiceInputMode,
+} from '@/lib/types/party/voice';
+
 import React, { memo, useMemo } from 'react';
 
 import Image from 'next/image';
@@ -25,9 +39,24 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 
+import { SpatialStage } from '@/components/features/party/SpatialStage';
+
+import { useAgoraContext } from '@/components/providers/AgoraProvider';
+
 import { AVATARS, STATUSES } from '@/lib/constants';
+import {
+  DEFAULT_AUDIO_PROCESSING,
+  DEFAULT_CAMERA_PRESET,
+  DEFAULT_INSTANT_REPLAY,
+  DEFAULT_SPATIAL_AUDIO,
+  REPLAY_CLIP_LENGTHS,
+  VOICE_CONSTANTS,
+} from '@/lib/constants/voice';
 import { logger } from '@/lib/logger';
+import { usePartyStore } from '@/lib/stores/partyStore';
+import { formatKeyCode } from '@/lib/utils/keyboard';
 import { isRateLimited } from '@/lib/utils/rateLimiter';
+import { getMemberPans } from '@/lib/utils/spatialAudio';
 
 import { BaseModal } from './BaseModal';
 
@@ -239,6 +268,760 @@ const FormFields = React.memo(
 
 FormFields.displayName = 'FormFields';
 
+const OAUTH_PROVIDERS: { label: string; provider: OAuthProvider }[] = [
+  { provider: 'google', label: 'Google' },
+  { provider: 'discord', label: 'Discord' },
+  { provider: 'github', label: 'GitHub' },
+];
+
+// Account controls: guest sessions can be upgraded without losing their member id
+const AccountSection = memo(() => {
+  const user = usePartyStore((state) => state.auth.user);
+  const [email, setEmail] = React.useState('');
+  const [status, setStatus] = React.useState<string | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  const runAction = React.useCallback(async (action: () => Promise<void>, successMessage?: string) => {
+    if (isRateLimited('account-action', 2000)) {
+      setStatus('Please wait before trying again');
+      return;
+    }
+
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      await action();
+      if (successMessage) setStatus(successMessage);
+    } catch (err) {
+      logger.error('Account action failed', {
+        component: 'ProfileModal',
+        action: 'accountAction',
+        metadata: { error: err },
+      });
+      setStatus(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const handleMagicLink = React.useCallback(
+    (e: React.FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const { signInWithMagicLink } = usePartyStore.getState();
+      void runAction(() => signInWithMagicLink(email.trim()), 'Check your email for a sign-in link');
+    },
+    [email, runAction]
+  );
+
+  const handleOAuth = React.useCallback(
+    (provider: OAuthProvider) => {
+      const { signInWithOAuth } = usePartyStore.getState();
+      void runAction(() => signInWithOAuth(provider));
+    },
+    [runAction]
+  );
+
+  const handleSignOut = React.useCallback(() => {
+    const { signOut } = usePartyStore.getState();
+    void runAction(signOut);
+  }, [runAction]);
+
+  const isGuest = !user || user.isAnonymous;
+
+  return (
+    <div className="mb-4 rounded-lg border border-[#ACD43B]/20 bg-white p-3 shadow-sm sm:p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-[#282828]">
+          {isGuest ? 'Playing as guest' : `Signed in as ${user.email ?? 'account'}`}
+        </span>
+        {!isGuest && (
+          <button
+            onClick={handleSignOut}
+
+            className="rounded px-3 py-1 text-sm font-semibold text-[#282828] border border-red-500/20 hover:border-red-500/40 hover:bg-red-50/50 transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+            disabled={isBusy}
+            type="button"
+          >
+            Sign out
+          </button>
+        )}
+      </div>
+
+      {isGuest && (
+        <div className="mt-3 flex flex-col gap-3">
+          <form
+            onSubmit={handleMagicLink}
+
+            className="flex flex-col gap-2 sm:flex-row"
+          >
+            <Input
+              onChange={(e) => setEmail(e.target.value)}
+
+              autoComplete="email"
+              className="flex-1 rounded-md border border-[#ACD43B]/50 bg-white px-3 py-2 text-[#282828] focus:border-[#ACD43B] focus:outline-none"
+              disabled={isBusy}
+              placeholder="you@example.com"
+              type="email"
+              value={email}
+            />
+            <button
+              className="rounded px-3 py-2 text-sm font-semibold text-[#282828] border border-[#ACD43B]/20 hover:border-[#ACD43B]/40 hover:bg-[#ACD43B]/5 transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+              disabled={isBusy || !email.includes('@')}
+              type="submit"
+            >
+              Email me a link
+            </button>
+          </form>
+
+          <div className="flex flex-wrap gap-2">
+            {OAUTH_PROVIDERS.map(({ provider, label }) => (
+              <button
+                onClick={() => handleOAuth(provider)}
+
+                className="rounded px-3 py-1.5 text-sm font-semibold text-[#282828] border border-gray-300 hover:bg-gray-50 transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+                disabled={isBusy}
+                key={provider}
+                type="button"
+              >
+                Continue with {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {status && <p className="mt-2 text-sm text-[#6B717D]">{status}</p>}
+    </div>
+  );
+});
+AccountSection.displayName = 'AccountSection';
+
+const INPUT_MODES: { label: string; mode: VoiceInputMode }[] = [
+  { mode: 'open_mic', label: 'Open mic' },
+  { mode: 'push_to_talk', label: 'Push to talk' },
+  { mode: 'voice_activated', label: 'Voice activated' },
+];
+
+// Radix Select cannot hold an empty value, so the system default gets a sentinel
+const DEFAULT_DEVICE_VALUE = 'default-device';
+
+const AudioDeviceSelect = memo(
+  ({
+    devices,
+    kind,
+    onChange,
+    value,
+  }: {
+    devices: MediaDeviceInfo[];
+    kind: AudioDeviceKind;
+    onChange: (deviceId: string | null) => void;
+    value: string | null;
+  }) => {
+    const label = kind === 'input' ? 'Microphone' : 'Speaker';
+    // A saved device that is currently unplugged falls back to the default entry
+    const isAvailable = value !== null && devices.some((device) => device.deviceId === value);
+
+    return (
+      <div className="flex flex-col gap-1 text-sm text-[#282828]">
+        <span>{label}</span>
+        <Select
+          onValueChange={(next) => onChange(next === DEFAULT_DEVICE_VALUE ? null : next)}
+
+          disabled={devices.length === 0}
+          value={isAvailable ? value : DEFAULT_DEVICE_VALUE}
+        >
+          <SelectTrigger
+            aria-label={label}
+            className="h-9 w-full rounded-md border border-[#ACD43B]/50 bg-white px-3 text-[#282828] hover:bg-gray-50 focus:border-[#ACD43B]"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="border border-[#ACD43B]/50 bg-white">
+            <SelectItem
+              className="cursor-pointer text-[#282828] data-[highlighted]:bg-[#ACD43B]/10"
+              value={DEFAULT_DEVICE_VALUE}
+            >
+              System default
+            </SelectItem>
+            {devices
+              .filter((device) => device.deviceId && device.deviceId !== 'default')
+              .map((device, index) => (
+                <SelectItem
+                  className="cursor-pointer text-[#282828] data-[highlighted]:bg-[#ACD43B]/10"
+                  key={device.deviceId}
+                  value={device.deviceId}
+                >
+                  {/* Labels stay empty until the browser has granted mic permission */}
+                  {device.label || `${label} ${index + 1}`}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  }
+);
+AudioDeviceSelect.displayName = 'AudioDeviceSelect';
+
+// Microphone input mode, push-to-talk key binding and audio devices
+const VoiceSettingsSection = memo(() => {
+  const { inputMode, pushToTalkKey, inputDeviceId, outputDeviceId } = usePartyStore(
+    (state) => state.voiceSettings
+  );
+  const [isBinding, setIsBinding] = React.useState(false);
+  const [devices, setDevices] = React.useState<AudioDeviceLists>({ inputs: [], outputs: [] });
+
+  // Keep the device lists current as headsets are plugged in or removed
+  React.useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices) return;
+
+    let isMounted = true;
+    const refreshDevices = async () => {
+      try {
+        const { VoiceService } = await import('@/lib/services/voiceService');
+        const lists = await VoiceService.listAudioDevices();
+        if (isMounted) setDevices(lists);
+      } catch (error) {
+        logger.warn('Failed to list audio devices', {
+          component: 'ProfileModal',
+          action: 'refreshDevices',
+          metadata: { error },
+        });
+      }
+    };
+
+    void refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => {
+      isMounted = false;
+      navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+    };
+  }, []);
+
+  // Capture the next key press as the new binding; Escape cancels
+  React.useEffect(() => {
+    if (!isBinding) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code !== 'Escape') {
+        usePartyStore.getState().setPushToTalkKey(e.code);
+      }
+      setIsBinding(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [isBinding]);
+
+  return (
+    <div className="mb-4 rounded-lg border border-[#ACD43B]/20 bg-white p-3 shadow-sm sm:p-4">
+      <span className="text-sm font-semibold text-[#282828]">Voice input</span>
+
+      <div
+        aria-label="Voice input mode"
+        className="mt-3 flex flex-wrap gap-2"
+        role="radiogroup"
+      >
+        {INPUT_MODES.map(({ mode, label }) => (
+          <button
+            className={`rounded px-3 py-1.5 text-sm font-semibold text-[#282828] border transition-colors ${
+              inputMode === mode
+                ? 'border-[#ACD43B] bg-[#ACD43B]/10'
+                : 'border-gray-300 hover:bg-gray-50'
+            }`}
+
+            onClick={() => usePartyStore.getState().setVoiceInputMode(mode)}
+
+            aria-checked={inputMode === mode}
+            key={mode}
+            role="radio"
+            type="button"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {inputMode === 'push_to_talk' && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-[#282828]">
+          <span>Talk key</span>
+          <button
+            onClick={() => setIsBinding(true)}
+
+            className="min-w-[80px] rounded border border-[#ACD43B]/50 px-3 py-1 font-semibold hover:bg-[#ACD43B]/5 transition-colors"
+            type="button"
+          >
+            {isBinding ? 'Press a key…' : formatKeyCode(pushToTalkKey)}
+          </button>
+          {isBinding && <span className="text-[#6B717D]">Esc to cancel</span>}
+        </div>
+      )}
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-2">
+        <AudioDeviceSelect
+          onChange={(deviceId) => usePartyStore.getState().setInputDeviceId(deviceId)}
+
+          devices={devices.inputs}
+          kind="input"
+          value={inputDeviceId ?? null}
+        />
+        {/* Browsers without output selection report no playback devices */}
+        {devices.outputs.length > 0 && (
+          <AudioDeviceSelect
+            onChange={(deviceId) => usePartyStore.getState().setOutputDeviceId(deviceId)}
+
+            devices={devices.outputs}
+            kind="output"
+            value={outputDeviceId ?? null}
+          />
+        )}
+      </div>
+    </div>
+  );
+});
+VoiceSettingsSection.displayName = 'VoiceSettingsSection';
+
+const DENOISER_MODES: { label: string; mode: DenoiserMode }[] = [
+  { mode: 'nsng', label: 'All background noise' },
+  { mode: 'stationary', label: 'Steady noise only' },
+];
+
+const DENOISER_LEVELS: { label: string; level: DenoiserLevel }[] = [
+  { level: 'aggressive', label: 'Aggressive' },
+  { level: 'soft', label: 'Soft' },
+];
+
+const BROWSER_PROCESSING: { key: 'aec' | 'agc' | 'ans'; label: string }[] = [
+  { key: 'aec', label: 'Echo cancellation' },
+  { key: 'agc', label: 'Automatic gain control' },
+  { key: 'ans', label: 'Browser noise suppression' },
+];
+
+const optionClass = (isSelected: boolean) =>
+  `rounded px-3 py-1.5 text-sm font-semibold text-[#282828] border transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+    isSelected ? 'border-[#ACD43B] bg-[#ACD43B]/10' : 'border-gray-300 hover:bg-gray-50'
+  }`;
+
+// AI denoiser and browser audio processing; music and singing sound better with these off
+const NoiseSuppressionSection = memo(() => {
+  const savedProcessing = usePartyStore((state) => state.voiceSettings.audioProcessing);
+  const processing: AudioProcessingSettings = { ...DEFAULT_AUDIO_PROCESSING, ...savedProcessing };
+  const update = (settings: Partial<AudioProcessingSettings>) =>
+    usePartyStore.getState().setAudioProcessing(settings);
+
+  return (
+    <div className="mb-4 rounded-lg border border-[#ACD43B]/20 bg-white p-3 shadow-sm sm:p-4">
+      <label className="flex items-center justify-between gap-2 text-sm font-semibold text-[#282828]">
+        AI noise suppression
+        <input
+          onChange={(e) => update({ denoiserEnabled: e.target.checked })}
+
+          checked={processing.denoiserEnabled}
+          className="h-4 w-4 accent-[#55b611]"
+          type="checkbox"
+        />
+      </label>
+
+      <div
+        aria-label="Noise suppression mode"
+        className="mt-3 flex flex-wrap gap-2"
+        role="radiogroup"
+      >
+        {DENOISER_MODES.map(({ mode, label }) => (
+          <button
+            onClick={() => update({ denoiserMode: mode })}
+
+            aria-checked={processing.denoiserMode === mode}
+            className={optionClass(processing.denoiserMode === mode)}
+            disabled={!processing.denoiserEnabled}
+            key={mode}
+            role="radio"
+            type="button"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div
+        aria-label="Noise suppression level"
+        className="mt-2 flex flex-wrap gap-2"
+        role="radiogroup"
+      >
+        {DENOISER_LEVELS.map(({ level, label }) => (
+          <button
+            onClick={() => update({ denoiserLevel: level })}
+
+            aria-checked={processing.denoiserLevel === level}
+            className={optionClass(processing.denoiserLevel === level)}
+            disabled={!processing.denoiserEnabled}
+            key={level}
+            role="radio"
+            type="button"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-4 flex flex-col gap-2">
+        {BROWSER_PROCESSING.map(({ key, label }) => (
+          <label
+            className="flex items-center gap-2 text-sm text-[#282828]"
+            key={key}
+          >
+            <input
+              onChange={(e) => update({ [key]: e.target.checked })}
+
+              checked={processing[key]}
+              className="h-4 w-4 accent-[#55b611]"
+              type="checkbox"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+});
+NoiseSuppressionSection.displayName = 'NoiseSuppressionSection';
+
+const SPATIAL_LAYOUTS: { label: string; layout: SpatialLayoutMode }[] = [
+  { layout: 'row_order', label: 'Spread by join order' },
+  { layout: 'custom', label: 'Arrange myself' },
+];
+
+// Gives each voice its own place between the speakers so big parties stay intelligible
+const SpatialAudioSection = memo(() => {
+  const savedSpatial = usePartyStore((state) => state.voiceSettings.spatialAudio);
+  const members = usePartyStore((state) => state.presence.members);
+  const currentMemberId = usePartyStore((state) => state.presence.currentMember?.id);
+  const spatial: SpatialAudioSettings = { ...DEFAULT_SPATIAL_AUDIO, ...savedSpatial };
+  const update = (settings: Partial<SpatialAudioSettings>) =>
+    usePartyStore.getState().setSpatialAudio(settings);
+
+  const remoteMembers = useMemo(
+    () => Array.from(members.values()).filter((member) => member.is_active && member.id !== currentMemberId),
+    [members, currentMemberId]
+  );
+  const pans = getMemberPans(remoteMembers.map((member) => member.id), spatial);
+
+  return (
+    <div className="mb-4 rounded-lg border border-[#ACD43B]/20 bg-white p-3 shadow-sm sm:p-4">
+      <label className="flex items-center justify-between gap-2 text-sm font-semibold text-[#282828]">
+        Spatial audio
+        <input
+          onChange={(e) => update({ enabled: e.target.checked })}
+
+          checked={spatial.enabled}
+          className="h-4 w-4 accent-[#55b611]"
+          type="checkbox"
+        />
+      </label>
+
+      <div
+        aria-label="Spatial layout"
+        className="mt-3 flex flex-wrap gap-2"
+        role="radiogroup"
+      >
+        {SPATIAL_LAYOUTS.map(({ layout, label }) => (
+          <button
+            onClick={() => update({ layout })}
+
+            aria-checked={spatial.layout === layout}
+            className={optionClass(spatial.layout === layout)}
+            disabled={!spatial.enabled}
+            key={layout}
+            role="radio"
+            type="button"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {spatial.enabled && spatial.layout === 'custom' && (
+        <div className="mt-3">
+          <SpatialStage
+            onPanChange={(memberId, pan) => update({ positions: { ...spatial.positions, [memberId]: pan } })}
+
+            members={remoteMembers}
+            pans={pans}
+          />
+        </div>
+      )}
+    </div>
+  );
+});
+SpatialAudioSection.displayName = 'SpatialAudioSection';
+
+const CAMERA_QUALITY_OPTIONS: { label: string; preset: CameraPreset }[] = [
+  { preset: '180p', label: 'Low (180p)' },
+  { preset: '360p', label: 'Standard (360p)' },
+  { preset: '720p', label: 'High (720p)' },
+];
+
+// Upper bound for the camera; a poor uplink still steps it down automatically
+const CameraQualitySection = memo(() => {
+  const cameraPreset = usePartyStore((state) => state.voiceSettings.cameraPreset ?? DEFAULT_CAMERA_PRESET);
+
+  return (
+    <div className="mb-4 rounded-lg border border-[#ACD43B]/20 bg-white p-3 shadow-sm sm:p-4">
+      <span className="text-sm font-semibold text-[#282828]">Camera quality</span>
+      <div
+        aria-label="Camera quality"
+        className="mt-3 flex flex-wrap gap-2"
+        role="radiogroup"
+      >
+        {CAMERA_QUALITY_OPTIONS.map(({ preset, label }) => (
+          <button
+            onClick={() => usePartyStore.getState().setCameraPreset(preset)}
+
+            aria-checked={cameraPreset === preset}
+            className={optionClass(cameraPreset === preset)}
+            key={preset}
+            role="radio"
+            type="button"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+});
+CameraQualitySection.displayName = 'CameraQualitySection';
+
+// Rolling buffer of the party audio; the hotkey saves the last stretch as a clip
+const InstantReplaySection = memo(() => {
+  const savedReplay = usePartyStore((state) => state.voiceSettings.instantReplay);
+  const replay: InstantReplaySettings = { ...DEFAULT_INSTANT_REPLAY, ...savedReplay };
+  const [isBinding, setIsBinding] = React.useState(false);
+  const update = (settings: Partial<InstantReplaySettings>) =>
+    usePartyStore.getState().setInstantReplay(settings);
+
+  // Capture the next key press as the new binding; Escape cancels
+  React.useEffect(() => {
+    if (!isBinding) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code !== 'Escape') {
+        usePartyStore.getState().setInstantReplay({ hotkey: e.code });
+      }
+      setIsBinding(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [isBinding]);
+
+  return (
+    <div className="mb-4 rounded-lg border border-[#ACD43B]/20 bg-white p-3 shadow-sm sm:p-4">
+      <label className="flex items-center justify-between gap-2 text-sm font-semibold text-[#282828]">
+        Instant replay
+        <input
+          onChange={(e) => update({ enabled: e.target.checked })}
+
+          checked={replay.enabled}
+          className="h-4 w-4 accent-[#55b611]"
+          type="checkbox"
+        />
+      </label>
+      <p className="mt-1 text-xs text-gray-500">
+        While on, the party sees you as recording. Audio stays on this device until you save a clip.
+      </p>
+
+      <div
+        aria-label="Clip length"
+        className="mt-3 flex flex-wrap gap-2"
+        role="radiogroup"
+      >
+        {REPLAY_CLIP_LENGTHS.map((seconds) => (
+          <button
+            onClick={() => update({ clipSeconds: seconds })}
+
+            aria-checked={replay.clipSeconds === seconds}
+            className={optionClass(replay.clipSeconds === seconds)}
+            disabled={!replay.enabled}
+            key={seconds}
+            role="radio"
+            type="button"
+          >
+            Last {seconds}s
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-[#282828]">
+        <span>Save clip key</span>
+        <button
+          onClick={() => setIsBinding(true)}
+
+          className="min-w-[80px] rounded border border-[#ACD43B]/50 px-3 py-1 font-semibold hover:bg-[#ACD43B]/5 transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+          disabled={!replay.enabled}
+          type="button"
+        >
+          {isBinding ? 'Press a key…' : formatKeyCode(replay.hotkey)}
+        </button>
+        {isBinding && <span className="text-[#6B717D]">Esc to cancel</span>}
+      </div>
+    </div>
+  );
+});
+InstantReplaySection.displayName = 'InstantReplaySection';
+
+// Listener-side switch; the host can also turn the soundboard off for the whole party
+const SoundboardSection = memo(() => {
+  const soundboardMuted = usePartyStore((state) => state.voiceSettings.soundboardMuted ?? false);
+
+  return (
+    <div className="mb-4 rounded-lg border border-[#ACD43B]/20 bg-white p-3 shadow-sm sm:p-4">
+      <label className="flex items-center justify-between gap-2 text-sm font-semibold text-[#282828]">
+        Mute soundboard sounds
+        <input
+          onChange={(e) => usePartyStore.getState().setSoundboardMuted(e.target.checked)}
+
+          checked={soundboardMuted}
+          className="h-4 w-4 accent-[#55b611]"
+          type="checkbox"
+        />
+      </label>
+      <p className="mt-1 text-xs text-gray-500">
+        Sounds play through the member&apos;s mic, so they are silenced for the length of each sound.
+      </p>
+    </div>
+  );
+});
+SoundboardSection.displayName = 'SoundboardSection';
+
+// Pre-join check that the chosen microphone actually picks up sound
+const MicTestSection = memo(() => {
+  const { getClient } = useAgoraContext();
+  const inputDeviceId = usePartyStore((state) => state.voiceSettings.inputDeviceId ?? null);
+  const [isTesting, setIsTesting] = React.useState(false);
+  const [isStarting, setIsStarting] = React.useState(false);
+  const [isLoopback, setIsLoopback] = React.useState(false);
+  const [level, setLevel] = React.useState(0);
+  const [isDenoiserActive, setIsDenoiserActive] = React.useState<boolean | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const voiceServiceRef = React.useRef<VoiceService | null>(null);
+
+  const stopTest = React.useCallback(() => {
+    voiceServiceRef.current?.stopMicTest();
+    setIsTesting(false);
+    setIsLoopback(false);
+    setLevel(0);
+  }, []);
+
+  const startTest = React.useCallback(async () => {
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const client = await getClient();
+      const { VoiceService } = await import('@/lib/services/voiceService');
+      const voiceService = VoiceService.getInstance(client);
+      voiceServiceRef.current = voiceService;
+
+      await voiceService.setInputDevice(inputDeviceId);
+      const result = await voiceService.startMicTest(setLevel);
+      setIsDenoiserActive(result.isDenoiserActive);
+      setIsTesting(true);
+    } catch (err) {
+      logger.error('Failed to start mic test', {
+        component: 'ProfileModal',
+        action: 'startMicTest',
+        metadata: { error: err, inputDeviceId },
+      });
+      setError(err instanceof Error ? err.message : 'Could not open the microphone');
+    } finally {
+      setIsStarting(false);
+    }
+  }, [getClient, inputDeviceId]);
+
+  const toggleLoopback = React.useCallback(async () => {
+    const next = !isLoopback;
+    try {
+      await voiceServiceRef.current?.setMicTestLoopback(next);
+      setIsLoopback(next);
+    } catch (err) {
+      logger.warn('Failed to toggle mic test loopback', {
+        component: 'ProfileModal',
+        action: 'toggleLoopback',
+        metadata: { error: err },
+      });
+    }
+  }, [isLoopback]);
+
+  // Release the microphone when the modal closes; joining also stops the test
+  React.useEffect(() => () => voiceServiceRef.current?.stopMicTest(), []);
+
+  return (
+    <div className="mb-4 rounded-lg border border-[#ACD43B]/20 bg-white p-3 shadow-sm sm:p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-[#282828]">Check your mic</span>
+        <div className="flex gap-2">
+          {isTesting && (
+            <button
+              className={`rounded border px-3 py-1 text-sm font-semibold text-[#282828] transition-colors ${
+                isLoopback ? 'border-[#ACD43B] bg-[#ACD43B]/10' : 'border-gray-300 hover:bg-gray-50'
+              }`}
+
+              onClick={() => void toggleLoopback()}
+
+              aria-pressed={isLoopback}
+              title="Hear yourself through the selected speaker"
+              type="button"
+            >
+              {isLoopback ? 'Stop listening' : 'Listen back'}
+            </button>
+          )}
+          <button
+            onClick={() => (isTesting ? stopTest() : void startTest())}
+
+            className="rounded border border-[#ACD43B]/50 px-3 py-1 text-sm font-semibold text-[#282828] transition-colors hover:bg-[#ACD43B]/5 disabled:cursor-not-allowed disabled:opacity-50"
+            disabled={isStarting}
+            type="button"
+          >
+            {isTesting ? 'Stop test' : isStarting ? 'Starting…' : 'Test mic'}
+          </button>
+        </div>
+      </div>
+
+      <div
+        aria-label="Microphone level"
+        aria-valuemax={100}
+        aria-valuemin={0}
+        aria-valuenow={Math.round(level * 100)}
+        className="mt-3 h-2 w-full overflow-hidden rounded-full bg-gray-200"
+        role="meter"
+      >
+        <div
+          className={`h-full transition-[width] duration-200 ${
+            level > VOICE_CONSTANTS.SPEAKING_THRESHOLD ? 'bg-[#55b611]' : 'bg-[#ACD43B]/60'
+          }`}
+
+          style={{ width: `${Math.round(level * 100)}%` }}
+        />
+      </div>
+
+      {isTesting && (
+        <p className="mt-2 text-xs text-[#6B717D]">
+          {isDenoiserActive ? 'AI noise suppression is on' : 'Using built-in noise suppression'}
+          {level <= VOICE_CONSTANTS.NOISE_FLOOR && ' · Say something to test your mic'}
+        </p>
+      )}
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+});
+MicTestSection.displayName = 'MicTestSection';
+
 interface ProfileModalProps {
   initialData?: FormData;
   onCloseAction: () => void;
@@ -345,6 +1128,22 @@ export function ProfileModal({ onSubmitAction, onCloseAction, initialData }: Pro
           <div className="absolute -bottom-2 left-1/2 h-[2px] w-16 -translate-x-1/2 bg-[#ACD43B]/30" />
         </div>
 
+        <AccountSection />
+
+        <VoiceSettingsSection />
+
+        <NoiseSuppressionSection />
+
+        <SpatialAudioSection />
+
+        <CameraQualitySection />
+
+        <InstantReplaySection />
+
+        <SoundboardSection />
+
+        {!initialData && <MicTestSection />}
+
         <Form {...form}>
           <form
             onSubmit={form.handleSubmit(onSubmitForm)}
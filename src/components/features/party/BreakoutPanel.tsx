@@ -0,0 +1,149 @@
+'use client';
+
+import { memo, useCallback, useState } from 'react';
+
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+import { MAX_BREAKOUTS } from '@/lib/constants';
+import { useParty } from '@/lib/contexts/partyContext';
+import { useToast } from '@/lib/hooks/use-toast';
+import { logger } from '@/lib/logger';
+import { ModerationService } from '@/lib/services/moderationService';
+import { usePartyStore } from '@/lib/stores/partyStore';
+
+const ROOM_COUNTS = Array.from({ length: MAX_BREAKOUTS }, (_, index) => index + 1);
+
+const optionClass = (isSelected: boolean) =>
+  `border px-3 py-1 text-sm font-semibold text-[#282b2f] transition-colors ${
+    isSelected ? 'border-[#55b611] bg-[#55b611]/10' : 'border-[#c5cdd3] bg-white hover:bg-gray-50'
+  }`;
+
+// Host-only: open breakout rooms and bring everyone back; members are placed by dragging them in the member list
+export const BreakoutPanel = memo(function BreakoutPanel() {
+  const { currentMember } = useParty();
+  const partyId = usePartyStore((state) => state.party.id);
+  const breakoutCount = usePartyStore((state) => state.moderation.breakoutCount);
+  const breakoutAssignments = usePartyStore((state) => state.moderation.breakoutAssignments);
+  const isHost = usePartyStore(
+    (state) => !!currentMember && state.moderation.roles[currentMember.id] === 'host'
+  );
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateBreakouts = useCallback(
+    async (count: number, assignments: Record<string, number>) => {
+      setIsSaving(true);
+      try {
+        await ModerationService.getInstance().setBreakouts(partyId, count, assignments);
+        // Realtime confirms it too; update now so the rooms do not lag
+        usePartyStore.getState().applyPartySettings({
+          breakoutAssignments: assignments,
+          breakoutCount: count,
+          partyId,
+        });
+      } catch (error) {
+        logger.error('Failed to update breakouts', {
+          component: 'BreakoutPanel',
+          action: 'updateBreakouts',
+          metadata: { count, error, partyId },
+        });
+        toast({
+          description: error instanceof Error ? error.message : 'Could not change the breakout rooms',
+          duration: 2000,
+        });
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [partyId, toast]
+  );
+
+  // Members in rooms that no longer exist go back to the main channel
+  const handleCountChange = useCallback(
+    (count: number) => {
+      const assignments = Object.fromEntries(
+        Object.entries(breakoutAssignments).filter(([, breakout]) => breakout <= count)
+      );
+      void updateBreakouts(count, assignments);
+    },
+    [breakoutAssignments, updateBreakouts]
+  );
+
+  if (!isHost) return null;
+
+  const hasAssignments = Object.keys(breakoutAssignments).length > 0;
+
+  return (
+    <section
+      aria-label="Breakout rooms"
+      className="flex flex-col border-t border-gray-400 bg-[#eff3f6]"
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+
+        aria-expanded={isOpen}
+        className="flex h-[35px] w-full items-center justify-between px-[30px] text-left transition-colors hover:bg-black/5"
+      >
+        <span className="text-base font-semibold text-[#282b2f] sm:text-lg">Breakout Rooms</span>
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4 text-[#282b2f]" />
+        ) : (
+          <ChevronUp className="h-4 w-4 text-[#282b2f]" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="flex flex-col gap-2 bg-white/60 px-3 py-2">
+          <div
+            aria-label="Number of breakout rooms"
+            className="flex flex-wrap items-center gap-2"
+            role="radiogroup"
+          >
+            <span className="w-20 text-sm text-[#6B717D]">Rooms</span>
+            <button
+              onClick={() => void updateBreakouts(0, {})}
+
+              aria-checked={breakoutCount === 0}
+              className={optionClass(breakoutCount === 0)}
+              disabled={isSaving}
+              role="radio"
+              type="button"
+            >
+              Off
+            </button>
+            {ROOM_COUNTS.map((count) => (
+              <button
+                onClick={() => handleCountChange(count)}
+
+                aria-checked={breakoutCount === count}
+                className={optionClass(breakoutCount === count)}
+                disabled={isSaving}
+                key={count}
+                role="radio"
+                type="button"
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+
+          {breakoutCount > 0 && (
+            <>
+              <span className="text-sm text-[#6B717D]">Drag members in the list onto a breakout to move them.</span>
+              <button
+                onClick={() => void updateBreakouts(breakoutCount, {})}
+
+                className="self-start bg-gradient-to-b from-[#70cc00] to-[#409202] px-3 py-1 text-sm font-semibold text-white transition-all hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-50"
+                disabled={isSaving || !hasAssignments}
+                type="button"
+              >
+                Recall everyone
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+});
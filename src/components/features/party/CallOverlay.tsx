@@ -0,0 +1,212 @@
+'use client';
+
+import type { CallService } from '@/lib/services/callService';
+import type { CallEndReason, DirectCall } from '@/lib/types/call';
+
+import { memo, useCallback, useEffect, useState } from 'react';
+
+import Image from 'next/image';
+
+import { Mic, MicOff, Phone, PhoneOff } from 'lucide-react';
+
+import { AVATARS } from '@/lib/constants';
+import { useToast } from '@/lib/hooks/use-toast';
+import { logger } from '@/lib/logger';
+import { usePartyStore } from '@/lib/stores/partyStore';
+
+const endMessage = (reason: CallEndReason, call: DirectCall): string => {
+  const { name } = call.peer;
+  switch (reason) {
+    case 'declined':
+      return `${name} declined the call`;
+    case 'missed':
+      return call.direction === 'incoming' ? `Missed call from ${name}` : `${name} did not answer`;
+    case 'failed':
+      return `Could not connect the call with ${name}`;
+    default:
+      return `Call with ${name} ended`;
+  }
+};
+
+const statusText = (call: DirectCall): string => {
+  if (call.status === 'ringing') {
+    return call.direction === 'incoming' ? 'is calling you' : 'Calling…';
+  }
+  return call.status === 'connecting' ? 'Connecting…' : 'On a call · party turned down';
+};
+
+const buttonClass =
+  'flex h-8 items-center gap-1 px-3 text-sm font-semibold text-white transition-all hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-50';
+
+// Rings for incoming direct calls and controls the current one; the party keeps going underneath
+export const CallOverlay = memo(function CallOverlay() {
+  const userId = usePartyStore((state) => state.auth.user?.id ?? null);
+  const profile = usePartyStore((state) => state.auth.profile);
+  const inputDeviceId = usePartyStore((state) => state.voiceSettings.inputDeviceId ?? null);
+  const audioProcessing = usePartyStore((state) => state.voiceSettings.audioProcessing);
+  const { toast } = useToast();
+  const [call, setCall] = useState<DirectCall | null>(null);
+
+  // Listen for calls for as long as someone is signed in
+  useEffect(() => {
+    if (!userId) return;
+
+    let service: CallService | null = null;
+    let isMounted = true;
+
+    const bindCalls = async () => {
+      const callModule = await import('@/lib/services/callService');
+      if (!isMounted) return;
+      service = callModule.CallService.getInstance();
+      service.onCallChange((next) => {
+        setCall(next);
+        // Ringing leaves the party alone; it ducks once the call connects
+        usePartyStore.getState().setVoiceInCall(!!next && next.status !== 'ringing');
+      });
+      service.onCallEnd((reason, ended) => {
+        toast({ description: endMessage(reason, ended), duration: 3000 });
+      });
+    };
+
+    void bindCalls();
+    return () => {
+      isMounted = false;
+      service?.onCallChange(null);
+      service?.onCallEnd(null);
+      void service?.stop();
+      setCall(null);
+      usePartyStore.getState().setVoiceInCall(false);
+    };
+  }, [userId, toast]);
+
+  // Signals carry the caller's name and avatar, so keep them current
+  useEffect(() => {
+    if (!userId) return;
+
+    const startCalls = async () => {
+      try {
+        const { CallService } = await import('@/lib/services/callService');
+        await CallService.getInstance().start({
+          avatar: profile?.avatar ?? AVATARS[0]!,
+          id: userId,
+          name: profile?.name ?? 'Someone',
+        });
+      } catch (error) {
+        logger.warn('Failed to listen for calls', {
+          component: 'CallOverlay',
+          action: 'startCalls',
+          metadata: { error },
+        });
+      }
+    };
+
+    void startCalls();
+  }, [userId, profile?.avatar, profile?.name]);
+
+  // Calls open their own mic track, so hand them the same microphone and processing as the party
+  useEffect(() => {
+    const applyMicrophone = async () => {
+      const { CallService } = await import('@/lib/services/callService');
+      CallService.getInstance().setMicrophoneSettings({ audioProcessing, inputDeviceId });
+    };
+
+    void applyMicrophone();
+  }, [audioProcessing, inputDeviceId]);
+
+  const runCallAction = useCallback(
+    async (action: (service: CallService) => Promise<void>) => {
+      try {
+        const { CallService } = await import('@/lib/services/callService');
+        await action(CallService.getInstance());
+      } catch (error) {
+        logger.error('Call action failed', {
+          component: 'CallOverlay',
+          action: 'runCallAction',
+          metadata: { error },
+        });
+        toast({
+          description: error instanceof Error ? error.message : 'Something went wrong with the call',
+          duration: 2000,
+        });
+      }
+    },
+    [toast]
+  );
+
+  if (!call) return null;
+
+  const isIncomingRing = call.direction === 'incoming' && call.status === 'ringing';
+
+  return (
+    <div
+      aria-label={`Call with ${call.peer.name}`}
+      aria-live="polite"
+      className="fixed bottom-4 right-4 z-50 flex w-[300px] flex-col gap-3 bg-[#282b2f] p-4 text-white shadow-lg"
+      role={isIncomingRing ? 'alertdialog' : 'status'}
+    >
+      <div className="flex items-center gap-3">
+        <div className={`h-10 w-10 shrink-0 overflow-hidden rounded-full ${isIncomingRing ? 'animate-pulse' : ''}`}>
+          <Image
+            alt={call.peer.name}
+            height={40}
+            src={call.peer.avatar || AVATARS[0]!}
+            width={40}
+          />
+        </div>
+        <div className="flex min-w-0 flex-col">
+          <span className="truncate font-semibold">{call.peer.name}</span>
+          <span className="truncate text-sm text-white/60">{statusText(call)}</span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        {isIncomingRing ? (
+          <>
+            <button
+              onClick={() => void runCallAction((service) => service.decline())}
+
+              className={`${buttonClass} bg-[#ae1228]`}
+              type="button"
+            >
+              <PhoneOff className="h-4 w-4" />
+              Decline
+            </button>
+            <button
+              onClick={() => void runCallAction((service) => service.accept())}
+
+              className={`${buttonClass} bg-gradient-to-b from-[#70cc00] to-[#409202]`}
+              type="button"
+            >
+              <Phone className="h-4 w-4" />
+              Accept
+            </button>
+          </>
+        ) : (
+          <>
+            {call.status === 'active' && (
+              <button
+                onClick={() => void runCallAction((service) => service.setMuted(!call.isMuted))}
+
+                aria-label={call.isMuted ? 'Unmute call' : 'Mute call'}
+                aria-pressed={call.isMuted}
+                className={`${buttonClass} border border-white/30`}
+                type="button"
+              >
+                {call.isMuted ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
+              </button>
+            )}
+            <button
+              onClick={() => void runCallAction((service) => service.hangUp())}
+
+              className={`${buttonClass} bg-[#ae1228]`}
+              type="button"
+            >
+              <PhoneOff className="h-4 w-4" />
+              {call.status === 'ringing' ? 'Cancel' : 'Hang up'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,220 @@
+'use client';
+
+import type { ReplayClip } from '@/lib/types/party/media';
+
+import { memo, useCallback, useEffect, useState } from 'react';
+
+import { ChevronDown, ChevronUp, Download, Trash2 } from 'lucide-react';
+
+import { useToast } from '@/lib/hooks/use-toast';
+import { logger } from '@/lib/logger';
+import { usePartyStore } from '@/lib/stores/partyStore';
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const ClipRow = memo(
+  ({
+    clip,
+    onDelete,
+    onRename,
+  }: {
+    clip: ReplayClip;
+    onDelete: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+  }) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [name, setName] = useState(clip.name);
+
+    // Object URLs pin the blob in memory until revoked
+    useEffect(() => {
+      const objectUrl = URL.createObjectURL(clip.blob);
+      setUrl(objectUrl);
+      return () => URL.revokeObjectURL(objectUrl);
+    }, [clip.blob]);
+
+    useEffect(() => {
+      setName(clip.name);
+    }, [clip.name]);
+
+    const commitRename = () => {
+      if (name.trim() && name.trim() !== clip.name) {
+        onRename(clip.id, name);
+      } else {
+        setName(clip.name);
+      }
+    };
+
+    return (
+      <li className="flex flex-col gap-1 px-3 py-2">
+        <div className="flex items-center gap-2">
+          <input
+            onBlur={commitRename}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+              if (e.key === 'Escape') {
+                setName(clip.name);
+                e.currentTarget.blur();
+              }
+            }}
+
+            aria-label="Clip name"
+            className="h-7 min-w-0 flex-1 rounded-none border border-transparent bg-transparent px-1 text-sm font-semibold text-[#282b2f] outline-none hover:border-[#c5cdd3] focus:border-[#70cc00] focus:bg-white"
+            maxLength={80}
+            value={name}
+          />
+          <span className="shrink-0 text-xs text-[#6B717D]">{formatDuration(clip.durationSeconds)}</span>
+          {url && (
+            <a
+              aria-label={`Download ${clip.name}`}
+              className="shrink-0 text-[#282b2f] hover:text-[#409202]"
+              download={`${clip.name}.wav`}
+              href={url}
+            >
+              <Download className="h-4 w-4" />
+            </a>
+          )}
+          <button
+            onClick={() => onDelete(clip.id)}
+
+            aria-label={`Delete ${clip.name}`}
+            className="shrink-0 text-[#282b2f] hover:text-[#ae1228]"
+            type="button"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+        {url && (
+          <audio
+            controls
+
+            className="h-8 w-full"
+            preload="metadata"
+            src={url}
+          />
+        )}
+      </li>
+    );
+  }
+);
+ClipRow.displayName = 'ClipRow';
+
+// Instant replay clips saved on this device; shown once replay is on or a clip exists
+export const ClipLibrary = memo(function ClipLibrary() {
+  const isReplayBuffering = usePartyStore((state) => state.voice.isReplayBuffering);
+  const { toast } = useToast();
+  const [clips, setClips] = useState<ReplayClip[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    if (typeof indexedDB === 'undefined') return;
+
+    let isMounted = true;
+    let unsubscribe: (() => void) | undefined;
+
+    const loadClips = async () => {
+      try {
+        const { ClipLibraryService } = await import('@/lib/services/clipLibraryService');
+        const library = ClipLibraryService.getInstance();
+        if (!isMounted) return;
+
+        library.onClipsChange(setClips);
+        unsubscribe = () => library.onClipsChange(null);
+        const saved = await library.list();
+        if (isMounted) setClips(saved);
+      } catch (error) {
+        logger.warn('Failed to load clips', {
+          component: 'ClipLibrary',
+          action: 'loadClips',
+          metadata: { error },
+        });
+      }
+    };
+
+    void loadClips();
+    return () => {
+      isMounted = false;
+      unsubscribe?.();
+    };
+  }, []);
+
+  const runLibraryAction = useCallback(
+    async (action: 'remove' | 'rename', id: string, name?: string) => {
+      try {
+        const { ClipLibraryService } = await import('@/lib/services/clipLibraryService');
+        const library = ClipLibraryService.getInstance();
+        if (action === 'rename') {
+          await library.rename(id, name ?? '');
+        } else {
+          await library.remove(id);
+        }
+      } catch (error) {
+        logger.error('Clip library action failed', {
+          component: 'ClipLibrary',
+          action,
+          metadata: { error, id },
+        });
+        toast({
+          description: action === 'rename' ? 'Could not rename the clip' : 'Could not delete the clip',
+          duration: 2000,
+        });
+      }
+    },
+    [toast]
+  );
+
+  const handleRename = useCallback(
+    (id: string, name: string) => void runLibraryAction('rename', id, name),
+    [runLibraryAction]
+  );
+  const handleDelete = useCallback((id: string) => void runLibraryAction('remove', id), [runLibraryAction]);
+
+  if (!clips.length && !isReplayBuffering) return null;
+
+  return (
+    <section
+      aria-label="Saved clips"
+      className="flex flex-col border-t border-gray-400 bg-[#eff3f6]"
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+
+        aria-expanded={isOpen}
+        className="flex h-[35px] w-full items-center justify-between px-[30px] text-left transition-colors hover:bg-black/5"
+      >
+        <span className="flex items-center gap-2 text-base font-semibold text-[#282b2f] sm:text-lg">
+          Clips
+          {clips.length > 0 && (
+            <span className="rounded-full bg-[#3d3d3d] px-2 text-xs font-bold leading-5 text-white">
+              {clips.length}
+            </span>
+          )}
+        </span>
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4 text-[#282b2f]" />
+        ) : (
+          <ChevronUp className="h-4 w-4 text-[#282b2f]" />
+        )}
+      </button>
+
+      {isOpen && (
+        <ul className="bubble-scrollbar max-h-[240px] divide-y divide-[#e5e5e5] overflow-y-auto bg-white/60">
+          {clips.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-[#6B717D]">No clips yet. Use the hotkey to save the last moments.</li>
+          ) : (
+            clips.map((clip) => (
+              <ClipRow
+                onDelete={handleDelete}
+                onRename={handleRename}
+
+                clip={clip}
+                key={clip.id}
+              />
+            ))
+          )}
+        </ul>
+      )}
+    </section>
+  );
+});
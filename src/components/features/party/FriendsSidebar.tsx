@@ -0,0 +1,558 @@
+'use client';
+
+import type { FriendsService } from '@/lib/services/friendsService';
+import type { CallPeer } from '@/lib/types/call';
+import type { BlockedUser, Friend, FriendPartyInvite, OnlineStatus } from '@/lib/types/friends';
+
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
+
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+import { ToastAction } from '@/components/ui/toast';
+
+import { AVATARS, STATUSES } from '@/lib/constants';
+import { useParty } from '@/lib/contexts/partyContext';
+import { useToast } from '@/lib/hooks/use-toast';
+import { logger } from '@/lib/logger';
+import { usePartyStore } from '@/lib/stores/partyStore';
+import { useModalStore } from '@/lib/stores/useModalStore';
+
+const actionClass =
+  'shrink-0 px-2 py-0.5 text-xs font-semibold transition-colors disabled:cursor-not-allowed disabled:opacity-50';
+const primaryActionClass = `${actionClass} bg-gradient-to-b from-[#70cc00] to-[#409202] text-white hover:brightness-110`;
+const secondaryActionClass = `${actionClass} border border-[#c5cdd3] bg-white text-[#282b2f] hover:bg-gray-50`;
+
+const FriendRow = memo(
+  ({
+    avatar,
+    children,
+    detail,
+    isOnline,
+    name,
+  }: {
+    avatar: string;
+    children?: React.ReactNode;
+    detail?: string;
+    isOnline?: boolean;
+    name: string;
+  }) => (
+    <li className={`flex items-center gap-2 px-3 py-2 ${isOnline === false ? 'opacity-60' : ''}`}>
+      <div className="relative h-8 w-8 shrink-0">
+        <Image
+          alt={name}
+          height={32}
+          src={avatar || AVATARS[0]!}
+          width={32}
+        />
+        {isOnline && (
+          <span
+            aria-label="Online"
+            className="absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 rounded-full border border-white bg-[#55b611]"
+          />
+        )}
+      </div>
+      <div className="flex min-w-0 flex-1 flex-col">
+        <span className="truncate text-sm font-semibold text-[#282b2f]">{name}</span>
+        {detail && <span className="truncate text-xs text-[#6B717D]">{detail}</span>}
+      </div>
+      {children}
+    </li>
+  )
+);
+FriendRow.displayName = 'FriendRow';
+
+const SectionTitle = ({ children }: { children: React.ReactNode }) => (
+  <h3 className="bg-[#eff3f6] px-3 py-1 text-xs font-semibold uppercase tracking-wide text-[#6B717D]">
+    {children}
+  </h3>
+);
+
+// Friends, their online status and party, and pending requests; guests are asked to sign in
+export const FriendsSidebar = memo(function FriendsSidebar() {
+  const router = useRouter();
+  const { currentMember, members } = useParty();
+  const user = usePartyStore((state) => state.auth.user);
+  const profile = usePartyStore((state) => state.auth.profile);
+  const showModal = useModalStore((state) => state.showModal);
+  const { toast } = useToast();
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [online, setOnline] = useState<Map<string, OnlineStatus>>(new Map());
+  const [partyNames, setPartyNames] = useState<Record<string, string>>({});
+  const [blocked, setBlocked] = useState<BlockedUser[] | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const userId = user && !user.isAnonymous ? user.id : null;
+  const joinedPartyId = currentMember?.partyId ?? null;
+
+  const joinFriendParty = useCallback(
+    (friendPartyId: string) => {
+      router.push(`/party/${friendPartyId}`);
+      // The join form opens on arrival, prefilled from the saved profile
+      const { profile: savedProfile } = usePartyStore.getState().auth;
+      showModal('join', {
+        name: savedProfile?.name ?? '',
+        avatar: savedProfile?.avatar ?? AVATARS[Math.floor(Math.random() * AVATARS.length)]!,
+        game: savedProfile?.game ?? STATUSES[Math.floor(Math.random() * STATUSES.length)]!,
+      });
+    },
+    [router, showModal]
+  );
+
+  const handlePartyInvite = useCallback(
+    (invite: FriendPartyInvite) => {
+      if (invite.partyId === usePartyStore.getState().presence.currentMember?.partyId) return;
+      toast({
+        description: `${invite.fromName} invited you to their party`,
+        duration: 8000,
+        action: (
+          <ToastAction
+            onClick={() => joinFriendParty(invite.partyId)}
+
+            altText="Join their party"
+          >
+            Join
+          </ToastAction>
+        ),
+      });
+    },
+    [toast, joinFriendParty]
+  );
+
+  // Follow the friends list and who is online for as long as an account is signed in
+  useEffect(() => {
+    if (!userId) return;
+
+    let isMounted = true;
+    let service: FriendsService | null = null;
+
+    const startFriends = async () => {
+      try {
+        const friendsModule = await import('@/lib/services/friendsService');
+        if (!isMounted) return;
+        service = friendsModule.FriendsService.getInstance();
+        service.onFriendsChange(setFriends);
+        service.onOnlineChange((status) => setOnline(new Map(status)));
+        service.onPartyInvite(handlePartyInvite);
+        setFriends(await service.start(userId));
+      } catch (error) {
+        logger.warn('Failed to load friends', {
+          component: 'FriendsSidebar',
+          action: 'startFriends',
+          metadata: { error },
+        });
+      }
+    };
+
+    void startFriends();
+    return () => {
+      isMounted = false;
+      service?.onFriendsChange(null);
+      service?.onOnlineChange(null);
+      service?.onPartyInvite(null);
+      void service?.stop();
+    };
+  }, [userId, handlePartyInvite]);
+
+  // Show this user online to friends, along with the party they are in
+  useEffect(() => {
+    if (!userId || !profile) return;
+
+    const status: OnlineStatus = {
+      avatar: profile.avatar,
+      game: profile.game,
+      id: userId,
+      name: profile.name,
+      partyId: joinedPartyId,
+    };
+
+    const publishStatus = async (next: OnlineStatus | null) => {
+      try {
+        const friendsModule = await import('@/lib/services/friendsService');
+        await friendsModule.FriendsService.getInstance().setOnlineStatus(next);
+      } catch (error) {
+        logger.warn('Failed to update online status', {
+          component: 'FriendsSidebar',
+          action: 'publishStatus',
+          metadata: { error },
+        });
+      }
+    };
+
+    void publishStatus(status);
+    return () => {
+      void publishStatus(null);
+    };
+  }, [userId, profile, joinedPartyId]);
+
+  // Resolve the names of parties friends are in
+  useEffect(() => {
+    const unknownIds = new Set(
+      friends.flatMap((friend) => {
+        const friendPartyId = online.get(friend.id)?.partyId;
+        return friendPartyId && !(friendPartyId in partyNames) ? [friendPartyId] : [];
+      })
+    );
+    if (!unknownIds.size) return;
+
+    const loadPartyNames = async () => {
+      const { PartyService } = await import('@/lib/services/partyService');
+      const entries = await Promise.all(
+        Array.from(unknownIds).map(async (id) => {
+          const party = await PartyService.getInstance().getParty(id).catch(() => null);
+          return [id, party?.name ?? 'a party'] as const;
+        })
+      );
+      setPartyNames((names) => ({ ...names, ...Object.fromEntries(entries) }));
+    };
+
+    void loadPartyNames();
+  }, [friends, online, partyNames]);
+
+  const runAction = useCallback(
+    async (id: string, action: (service: FriendsService) => Promise<void>) => {
+      setPendingId(id);
+      try {
+        const friendsModule = await import('@/lib/services/friendsService');
+        await action(friendsModule.FriendsService.getInstance());
+      } catch (error) {
+        toast({
+          description: error instanceof Error ? error.message : 'Something went wrong',
+          duration: 2000,
+        });
+      } finally {
+        setPendingId(null);
+      }
+    },
+    [toast]
+  );
+
+  const handleInvite = useCallback(
+    (friend: Friend) =>
+      runAction(friend.id, async (service) => {
+        if (!userId || !joinedPartyId) return;
+        await service.inviteToParty({
+          fromId: userId,
+          fromName: profile?.name ?? 'A friend',
+          partyId: joinedPartyId,
+          toId: friend.id,
+        });
+        toast({ description: `Invited ${friend.name}`, duration: 1500 });
+      }),
+    [runAction, userId, joinedPartyId, profile?.name, toast]
+  );
+
+  const handleCall = useCallback(
+    async (peer: CallPeer) => {
+      setPendingId(peer.id);
+      try {
+        const { CallService } = await import('@/lib/services/callService');
+        await CallService.getInstance().placeCall(peer);
+      } catch (error) {
+        toast({
+          description: error instanceof Error ? error.message : 'Could not call them',
+          duration: 2000,
+        });
+      } finally {
+        setPendingId(null);
+      }
+    },
+    [toast]
+  );
+
+  const handleBlock = useCallback(
+    (id: string) =>
+      runAction(id, async (service) => {
+        await service.block(id);
+        setBlocked(null);
+      }),
+    [runAction]
+  );
+
+  const toggleBlocked = useCallback(async () => {
+    if (blocked) {
+      setBlocked(null);
+      return;
+    }
+    await runAction('blocked', async (service) => setBlocked(await service.listBlocked()));
+  }, [blocked, runAction]);
+
+  const { accepted, incoming, onlineCount, outgoing } = useMemo(
+    () => ({
+      accepted: friends
+        .filter((friend) => friend.status === 'accepted')
+        // Online friends first
+        .sort((a, b) => Number(online.has(b.id)) - Number(online.has(a.id))),
+      incoming: friends.filter((friend) => friend.status === 'incoming'),
+      onlineCount: friends.filter((friend) => friend.status === 'accepted' && online.has(friend.id)).length,
+      outgoing: friends.filter((friend) => friend.status === 'outgoing'),
+    }),
+    [friends, online]
+  );
+
+  const addableMembers = useMemo(() => {
+    const knownIds = new Set(friends.map((friend) => friend.id));
+    return members.filter((member) => member.id !== userId && !knownIds.has(member.id));
+  }, [members, friends, userId]);
+
+  return (
+    <aside
+      aria-label="Friends"
+      className="flex w-full flex-col bg-[#dce4e7] lg:mt-[77px] lg:h-[600px] lg:w-[280px]"
+    >
+      <div className="flex h-[40px] items-center border-b border-gray-400 bg-[#eff3f6] px-4">
+        <h2 className="text-lg font-semibold text-[#282b2f]">Friends</h2>
+        {onlineCount > 0 && <span className="ml-2 text-sm text-[#6B717D]">{onlineCount} online</span>}
+      </div>
+
+      {!userId ? (
+        <p className="px-4 py-3 text-sm text-[#6B717D]">
+          Sign in with an account from your profile to add friends and see where they are playing.
+        </p>
+      ) : (
+        <div className="bubble-scrollbar flex-1 overflow-y-auto">
+          {incoming.length > 0 && (
+            <>
+              <SectionTitle>Requests</SectionTitle>
+              <ul className="divide-y divide-[#e5e5e5] bg-white/60">
+                {incoming.map((friend) => (
+                  <FriendRow
+                    avatar={friend.avatar}
+                    detail="Wants to be friends"
+                    key={friend.id}
+                    name={friend.name}
+                  >
+                    <button
+                      onClick={() => void runAction(friend.id, (service) => service.acceptRequest(friend.id))}
+
+                      className={primaryActionClass}
+                      disabled={pendingId === friend.id}
+                      type="button"
+                    >
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => void runAction(friend.id, (service) => service.removeFriend(friend.id))}
+
+                      className={secondaryActionClass}
+                      disabled={pendingId === friend.id}
+                      type="button"
+                    >
+                      Decline
+                    </button>
+                    <button
+                      onClick={() => void handleBlock(friend.id)}
+
+                      aria-label={`Block ${friend.name}`}
+                      className={`${secondaryActionClass} text-[#ae1228]`}
+                      disabled={pendingId === friend.id}
+                      type="button"
+                    >
+                      Block
+                    </button>
+                  </FriendRow>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <SectionTitle>Friends</SectionTitle>
+          {accepted.length === 0 ? (
+            <p className="bg-white/60 px-3 py-2 text-sm text-[#6B717D]">No friends yet. Add people from your party below.</p>
+          ) : (
+            <ul className="divide-y divide-[#e5e5e5] bg-white/60">
+              {accepted.map((friend) => {
+                const status = online.get(friend.id);
+                const friendPartyId = status?.partyId ?? null;
+                const isInMyParty = !!friendPartyId && friendPartyId === joinedPartyId;
+                let detail = 'Offline';
+                if (status) {
+                  detail = friendPartyId
+                    ? `${status.game} · in ${isInMyParty ? 'your party' : partyNames[friendPartyId] ?? 'a party'}`
+                    : `${status.game} · not in a party`;
+                }
+
+                return (
+                  <FriendRow
+                    avatar={status?.avatar ?? friend.avatar}
+                    detail={detail}
+                    isOnline={!!status}
+                    key={friend.id}
+                    name={status?.name ?? friend.name}
+                  >
+                    {friendPartyId && !isInMyParty && (
+                      <button
+                        onClick={() => joinFriendParty(friendPartyId)}
+
+                        className={primaryActionClass}
+                        type="button"
+                      >
+                        Join
+                      </button>
+                    )}
+                    {status && joinedPartyId && !isInMyParty && (
+                      <button
+                        onClick={() => void handleInvite(friend)}
+
+                        className={secondaryActionClass}
+                        disabled={pendingId === friend.id}
+                        type="button"
+                      >
+                        Invite
+                      </button>
+                    )}
+                    {status && (
+                      <button
+                        onClick={() => void handleCall({ avatar: status.avatar, id: friend.id, name: status.name })}
+
+                        aria-label={`Call ${status.name}`}
+                        className={secondaryActionClass}
+                        disabled={pendingId === friend.id}
+                        type="button"
+                      >
+                        Call
+                      </button>
+                    )}
+                    {!status && (
+                      <button
+                        onClick={() => void runAction(friend.id, (service) => service.removeFriend(friend.id))}
+
+                        aria-label={`Remove ${friend.name}`}
+                        className={secondaryActionClass}
+                        disabled={pendingId === friend.id}
+                        type="button"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </FriendRow>
+                );
+              })}
+            </ul>
+          )}
+
+          {outgoing.length > 0 && (
+            <>
+              <SectionTitle>Sent</SectionTitle>
+              <ul className="divide-y divide-[#e5e5e5] bg-white/60">
+                {outgoing.map((friend) => (
+                  <FriendRow
+                    avatar={friend.avatar}
+                    detail="Request sent"
+                    key={friend.id}
+                    name={friend.name}
+                  >
+                    <button
+                      onClick={() => void runAction(friend.id, (service) => service.removeFriend(friend.id))}
+
+                      className={secondaryActionClass}
+                      disabled={pendingId === friend.id}
+                      type="button"
+                    >
+                      Cancel
+                    </button>
+                  </FriendRow>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {addableMembers.length > 0 && (
+            <>
+              <SectionTitle>In this party</SectionTitle>
+              <ul className="divide-y divide-[#e5e5e5] bg-white/60">
+                {addableMembers.map((member) => (
+                  <FriendRow
+                    avatar={member.avatar}
+                    detail={member.game}
+                    key={member.id}
+                    name={member.name ?? 'Unknown'}
+                  >
+                    <button
+                      onClick={() => void runAction(member.id, (service) => service.sendRequest(member.id))}
+
+                      className={primaryActionClass}
+                      disabled={pendingId === member.id}
+                      type="button"
+                    >
+                      Add
+                    </button>
+                    <button
+                      onClick={() =>
+                        void handleCall({
+                          avatar: member.avatar ?? AVATARS[0]!,
+                          id: member.id,
+                          name: member.name ?? 'Unknown',
+                        })
+                      }
+
+                      aria-label={`Call ${member.name ?? 'member'}`}
+                      className={secondaryActionClass}
+                      disabled={pendingId === member.id}
+                      type="button"
+                    >
+                      Call
+                    </button>
+                    <button
+                      onClick={() => void handleBlock(member.id)}
+
+                      aria-label={`Block ${member.name ?? 'member'}`}
+                      className={`${secondaryActionClass} text-[#ae1228]`}
+                      disabled={pendingId === member.id}
+                      type="button"
+                    >
+                      Block
+                    </button>
+                  </FriendRow>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <button
+            onClick={() => void toggleBlocked()}
+
+            aria-expanded={!!blocked}
+            className="flex w-full items-center justify-between bg-[#eff3f6] px-3 py-1 text-xs font-semibold uppercase tracking-wide text-[#6B717D] hover:bg-black/5"
+            type="button"
+          >
+            Blocked
+            {blocked ? <ChevronDown className="h-3 w-3" /> : <ChevronUp className="h-3 w-3" />}
+          </button>
+          {blocked && (
+            <ul className="divide-y divide-[#e5e5e5] bg-white/60">
+              {blocked.length === 0 ? (
+                <li className="px-3 py-2 text-sm text-[#6B717D]">Nobody is blocked.</li>
+              ) : (
+                blocked.map((blockedUser) => (
+                  <li
+                    className="flex items-center justify-between gap-2 px-3 py-2"
+                    key={blockedUser.id}
+                  >
+                    <span className="truncate text-sm text-[#282b2f]">{blockedUser.name}</span>
+                    <button
+                      onClick={() =>
+                        void runAction(blockedUser.id, async (service) => {
+                          await service.unblock(blockedUser.id);
+                          setBlocked((list) => list?.filter((entry) => entry.id !== blockedUser.id) ?? null);
+                        })
+                      }
+
+                      className={secondaryActionClass}
+                      disabled={pendingId === blockedUser.id}
+                      type="button"
+                    >
+                      Unblock
+                    </button>
+                  </li>
+                ))
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </aside>
+  );
+});
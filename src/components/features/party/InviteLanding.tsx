@@ -0,0 +1,193 @@
+'use client';
+
+import type { InvitePreview } from '@/lib/types/party/party';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+import { Button } from '@/components/ui/button';
+
+import { ModalManager } from '@/components/features/modals/ModalManager';
+
+import { AVATARS, STATUSES } from '@/lib/constants';
+import { useParty } from '@/lib/contexts/partyContext';
+import { logger } from '@/lib/logger';
+import { usePartyStore } from '@/lib/stores/partyStore';
+import { useModalStore } from '@/lib/stores/useModalStore';
+import { createJoiningMember } from '@/lib/utils/member';
+
+const MAX_PREVIEW_AVATARS = 8;
+
+const formatExpiry = (expiresAt: string) => {
+  const hours = Math.max(Math.round((new Date(expiresAt).getTime() - Date.now()) / 3600000), 0);
+  if (hours < 1) return 'Expires within the hour';
+  if (hours < 48) return `Expires in ${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  return `Expires in ${Math.round(hours / 24)} days`;
+};
+
+interface InviteLandingProps {
+  code: string;
+}
+
+// Previews the invited party from its live presence, then joins through the usual profile form
+export function InviteLanding({ code }: InviteLandingProps) {
+  const router = useRouter();
+  const { currentMember, join, members, updateProfile } = useParty();
+  const showModal = useModalStore((state) => state.showModal);
+  const isAnonymous = usePartyStore((state) => state.auth.user?.isAnonymous ?? true);
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const loadInvite = async () => {
+      try {
+        const { InviteService } = await import('@/lib/services/inviteService');
+        const preview = await InviteService.getInstance().getInvite(code);
+        if (!mounted) return;
+        setInvite(preview);
+        // Visitor presence for this party fills in the member avatars
+        usePartyStore.getState().setPartyId(preview.partyId);
+      } catch (err) {
+        if (mounted) setError(err instanceof Error ? err.message : 'Failed to load invite');
+      }
+    };
+
+    void loadInvite();
+
+    return () => {
+      mounted = false;
+    };
+  }, [code]);
+
+  // Already in the invited party, e.g. after a refresh
+  useEffect(() => {
+    if (invite && currentMember?.partyId === invite.partyId) {
+      router.replace(`/party/${invite.partyId}`);
+    }
+  }, [invite, currentMember?.partyId, router]);
+
+  const handleJoinClick = useCallback(() => {
+    const { profile } = usePartyStore.getState().auth;
+    showModal('join', {
+      name: profile?.name ?? '',
+      avatar: profile?.avatar ?? AVATARS[Math.floor(Math.random() * AVATARS.length)]!,
+      game: profile?.game ?? STATUSES[Math.floor(Math.random() * STATUSES.length)]!,
+    });
+  }, [showModal]);
+
+  const handleJoinParty = async (name: string, avatar: string, game: string) => {
+    const { ensureAuthUser, saveProfile } = usePartyStore.getState();
+    const user = await ensureAuthUser();
+
+    // Redeem first so a dead invite fails the form instead of the join
+    const { InviteService } = await import('@/lib/services/inviteService');
+    const partyId = await InviteService.getInstance().redeemInvite(code);
+
+    await saveProfile({ name, avatar, game });
+    await join(createJoiningMember(user.id, { name, avatar, game }));
+
+    logger.info('Joined party from invite', {
+      component: 'InviteLanding',
+      action: 'handleJoinParty',
+      metadata: { partyId },
+    });
+
+    router.replace(`/party/${partyId}`);
+  };
+
+  const handleEditProfile = async (name: string, avatar: string, game: string) => {
+    await updateProfile({ name, avatar, game });
+  };
+
+  const hiddenCount = Math.max(members.length - MAX_PREVIEW_AVATARS, 0);
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-black px-4 text-white">
+      <div className="flex w-full max-w-md flex-col gap-4">
+        <h1 className="text-2xl font-semibold">Party Invite</h1>
+
+        {error && (
+          <>
+            <p className="text-sm text-red-400">{error}</p>
+            <Link
+              className="text-sm font-semibold text-[#70cc00] hover:underline"
+              href="/party"
+            >
+              Browse parties
+            </Link>
+          </>
+        )}
+
+        {!error && !invite && <p className="text-muted-foreground">Loading invite...</p>}
+
+        {invite && (
+          <div className="flex flex-col gap-4 rounded-md border border-white/10 p-4">
+            <div className="flex items-baseline justify-between gap-4">
+              <span className="truncate text-xl font-semibold">{invite.partyName}</span>
+              <span className="shrink-0 text-sm text-white/60">
+                {members.length} {members.length === 1 ? 'member' : 'members'}
+              </span>
+            </div>
+
+            {members.length > 0 ? (
+              <ul
+                aria-label="Members in the party"
+                className="flex flex-wrap items-center gap-2"
+              >
+                {members.slice(0, MAX_PREVIEW_AVATARS).map((member) => (
+                  <li
+                    className="h-10 w-10 overflow-hidden rounded-full border border-white/20"
+                    key={member.id}
+                    title={member.name}
+                  >
+                    <Image
+                      alt={member.name ?? 'Member'}
+                      height={40}
+                      src={member.avatar ?? AVATARS[0]!}
+                      width={40}
+                    />
+                  </li>
+                ))}
+                {hiddenCount > 0 && <li className="text-sm text-white/60">+{hiddenCount}</li>}
+              </ul>
+            ) : (
+              <p className="text-sm text-white/60">Nobody is here yet. Be the first.</p>
+            )}
+
+            <div className="flex flex-col gap-1 text-sm text-white/60">
+              {invite.expiresAt && <span>{formatExpiry(invite.expiresAt)}</span>}
+              {invite.usesLeft !== null && (
+                <span>
+                  {invite.usesLeft} {invite.usesLeft === 1 ? 'use' : 'uses'} left
+                </span>
+              )}
+              {invite.membersOnly && isAnonymous && (
+                <span className="text-amber-300">
+                  Members only: sign in with an account in the join form before joining.
+                </span>
+              )}
+            </div>
+
+            <Button
+              onClick={handleJoinClick}
+
+              disabled={!!currentMember && currentMember.partyId === invite.partyId}
+            >
+              Join Party
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <ModalManager
+        onEditProfileAction={handleEditProfile}
+        onJoinPartyAction={handleJoinParty}
+      />
+    </div>
+  );
+}
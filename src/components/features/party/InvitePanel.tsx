@@ -0,0 +1,193 @@
+'use client';
+
+import type { InviteOptions } from '@/lib/types/party/party';
+
+import { memo, useCallback, useState } from 'react';
+
+import { ChevronDown, ChevronUp, Clipboard } from 'lucide-react';
+
+import { INVITE_EXPIRY_HOURS, INVITE_MAX_USES } from '@/lib/constants';
+import { useParty } from '@/lib/contexts/partyContext';
+import { useToast } from '@/lib/hooks/use-toast';
+import { logger } from '@/lib/logger';
+import { usePartyStore } from '@/lib/stores/partyStore';
+
+const EXPIRY_LABELS: Record<string, string> = {
+  1: '1 hour',
+  24: '1 day',
+  168: '7 days',
+  null: 'Never',
+};
+
+const optionClass = (isSelected: boolean) =>
+  `border px-3 py-1 text-sm font-semibold text-[#282b2f] transition-colors ${
+    isSelected ? 'border-[#55b611] bg-[#55b611]/10' : 'border-[#c5cdd3] bg-white hover:bg-gray-50'
+  }`;
+
+// Host-only: create shareable /join links with an expiry and use limit
+export const InvitePanel = memo(function InvitePanel() {
+  const { currentMember } = useParty();
+  const partyId = usePartyStore((state) => state.party.id);
+  const isHost = usePartyStore(
+    (state) => !!currentMember && state.moderation.roles[currentMember.id] === 'host'
+  );
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<InviteOptions>({
+    expiresInHours: 24,
+    maxUses: null,
+    membersOnly: false,
+  });
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const updateOptions = (partial: Partial<InviteOptions>) => {
+    setOptions((current) => ({ ...current, ...partial }));
+    // A link made with the old limits would no longer match what is shown
+    setInviteUrl(null);
+  };
+
+  const handleCreate = useCallback(async () => {
+    setIsCreating(true);
+    try {
+      const { InviteService } = await import('@/lib/services/inviteService');
+      const invite = await InviteService.getInstance().createInvite(partyId, options);
+      setInviteUrl(InviteService.getInviteUrl(invite.code));
+    } catch (error) {
+      logger.error('Failed to create invite', {
+        component: 'InvitePanel',
+        action: 'handleCreate',
+        metadata: { error, partyId },
+      });
+      toast({
+        description: error instanceof Error ? error.message : 'Could not create the invite',
+        duration: 2000,
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  }, [partyId, options, toast]);
+
+  const handleCopy = useCallback(async () => {
+    if (!inviteUrl) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      toast({ description: 'Invite link copied', duration: 2000 });
+    } catch {
+      toast({ description: 'Could not copy the link', duration: 2000 });
+    }
+  }, [inviteUrl, toast]);
+
+  if (!isHost) return null;
+
+  return (
+    <section
+      aria-label="Invite friends"
+      className="flex flex-col border-t border-gray-400 bg-[#eff3f6]"
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+
+        aria-expanded={isOpen}
+        className="flex h-[35px] w-full items-center justify-between px-[30px] text-left transition-colors hover:bg-black/5"
+      >
+        <span className="text-base font-semibold text-[#282b2f] sm:text-lg">Invite Friends</span>
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4 text-[#282b2f]" />
+        ) : (
+          <ChevronUp className="h-4 w-4 text-[#282b2f]" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="flex flex-col gap-2 bg-white/60 px-3 py-2">
+          <div
+            aria-label="Expires after"
+            className="flex flex-wrap items-center gap-2"
+            role="radiogroup"
+          >
+            <span className="w-20 text-sm text-[#6B717D]">Expires</span>
+            {INVITE_EXPIRY_HOURS.map((hours) => (
+              <button
+                onClick={() => updateOptions({ expiresInHours: hours })}
+
+                aria-checked={options.expiresInHours === hours}
+                className={optionClass(options.expiresInHours === hours)}
+                key={String(hours)}
+                role="radio"
+                type="button"
+              >
+                {EXPIRY_LABELS[String(hours)]}
+              </button>
+            ))}
+          </div>
+
+          <div
+            aria-label="Maximum uses"
+            className="flex flex-wrap items-center gap-2"
+            role="radiogroup"
+          >
+            <span className="w-20 text-sm text-[#6B717D]">Max uses</span>
+            {INVITE_MAX_USES.map((uses) => (
+              <button
+                onClick={() => updateOptions({ maxUses: uses })}
+
+                aria-checked={options.maxUses === uses}
+                className={optionClass(options.maxUses === uses)}
+                key={String(uses)}
+                role="radio"
+                type="button"
+              >
+                {uses ?? 'No limit'}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-[#282b2f]">
+            <input
+              onChange={(e) => updateOptions({ membersOnly: e.target.checked })}
+
+              checked={options.membersOnly}
+              className="h-4 w-4 accent-[#55b611]"
+              type="checkbox"
+            />
+            Members only (guests must sign in first)
+          </label>
+
+          {inviteUrl ? (
+            <div className="flex items-center gap-2">
+              <input
+                onFocus={(e) => e.currentTarget.select()}
+
+                readOnly
+
+                aria-label="Invite link"
+                className="h-8 min-w-0 flex-1 border border-[#c5cdd3] bg-white px-2 text-sm text-[#282b2f]"
+                value={inviteUrl}
+              />
+              <button
+                onClick={() => void handleCopy()}
+
+                className="flex h-8 items-center gap-1 bg-gradient-to-b from-[#70cc00] to-[#409202] px-3 text-sm font-semibold text-white transition-all hover:brightness-110"
+                type="button"
+              >
+                <Clipboard className="h-3 w-3" />
+                Copy
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => void handleCreate()}
+
+              className="self-start bg-gradient-to-b from-[#70cc00] to-[#409202] px-3 py-1 text-sm font-semibold text-white transition-all hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-50"
+              disabled={isCreating}
+              type="button"
+            >
+              {isCreating ? 'Creating…' : 'Create invite link'}
+            </button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+});
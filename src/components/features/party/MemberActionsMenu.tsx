@@ -0,0 +1,154 @@
+'use client';
+
+import type { MemberActionsMenuProps } from '@/lib/types/components/props';
+import type { ModerationAction } from '@/lib/types/party/party';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useToast } from '@/lib/hooks/use-toast';
+import { logger } from '@/lib/logger';
+import { ModerationService } from '@/lib/services/moderationService';
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  ban: 'banned',
+  kick: 'kicked',
+  mute: 'muted for everyone',
+  stop_share: 'stopped sharing',
+  unmute: 'unmuted for everyone',
+};
+
+export function MemberActionsMenu({
+  canBan,
+  isServerMuted,
+  isSharingScreen,
+  memberId,
+  memberName,
+  partyId,
+}: MemberActionsMenuProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [pendingAction, setPendingAction] = useState<ModerationAction | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const runAction = useCallback(
+    async (action: ModerationAction) => {
+      const moderationService = ModerationService.getInstance();
+      setPendingAction(action);
+
+      try {
+        if (action === 'kick') {
+          await moderationService.kick(partyId, memberId);
+        } else if (action === 'ban') {
+          await moderationService.ban(partyId, memberId);
+        } else if (action === 'stop_share') {
+          await moderationService.stopShare(partyId, memberId);
+        } else {
+          await moderationService.muteForEveryone(partyId, memberId, action === 'mute');
+        }
+
+        toast({
+          description: `${memberName} ${ACTION_LABELS[action]}`,
+          duration: 1500,
+        });
+        setIsOpen(false);
+      } catch (error) {
+        logger.error('Moderation action failed', {
+          component: 'MemberActionsMenu',
+          action: 'runAction',
+          metadata: { error, memberId, moderationAction: action },
+        });
+        toast({
+          description: error instanceof Error ? error.message : 'Moderation failed',
+          duration: 2000,
+        });
+      } finally {
+        setPendingAction(null);
+      }
+    },
+    [partyId, memberId, memberName, toast]
+  );
+
+  const itemClass =
+    'w-full px-3 py-2 text-left text-sm text-[#282b2f] transition-colors hover:bg-[#f0f0f0] disabled:cursor-not-allowed disabled:opacity-50';
+
+  return (
+    <div
+      className="relative shrink-0"
+      ref={menuRef}
+    >
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+
+        aria-expanded={isOpen}
+        aria-haspopup="menu"
+        aria-label={`Moderate ${memberName}`}
+        className="flex h-6 w-6 items-center justify-center rounded text-lg leading-none text-[#666] transition-colors hover:bg-[#e5e5e5] hover:text-[#282b2f]"
+        title="Host controls"
+      >
+        ⋮
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 top-full z-20 mt-1 w-48 overflow-hidden rounded border border-[#d5d5d5] bg-white shadow-lg"
+          role="menu"
+        >
+          <button
+            onClick={() => runAction(isServerMuted ? 'unmute' : 'mute')}
+
+            className={itemClass}
+            disabled={pendingAction !== null}
+            role="menuitem"
+          >
+            {isServerMuted ? 'Unmute for everyone' : 'Mute for everyone'}
+          </button>
+          {isSharingScreen && (
+            <button
+              onClick={() => runAction('stop_share')}
+
+              className={itemClass}
+              disabled={pendingAction !== null}
+              role="menuitem"
+            >
+              Stop screen share
+            </button>
+          )}
+          <button
+            onClick={() => runAction('kick')}
+
+            className={itemClass}
+            disabled={pendingAction !== null}
+            role="menuitem"
+          >
+            Kick from party
+          </button>
+          {canBan && (
+            <button
+              onClick={() => runAction('ban')}
+
+              className={`${itemClass} text-[#ae1228]`}
+              disabled={pendingAction !== null}
+              role="menuitem"
+            >
+              Ban from party
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
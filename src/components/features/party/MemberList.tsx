@@ -1,27 +1,57 @@
 'use client';
 
 import type { MemberListProps } from '@/lib/types/components/props';
+import type { PartyRole } from '@/lib/types/party/party';
 
 import { useMemo, useCallback, useState, useEffect } from 'react';
 
 import Image from 'next/image';
 
 import { motion, AnimatePresence } from 'framer-motion';
+import { Speech } from 'lucide-react';
 
 import { VoiceStatusIcon } from '@/components/features/party/icons/VoiceStatusIcon';
+import { MemberActionsMenu } from '@/components/features/party/MemberActionsMenu';
+import { MemberVolumeSlider } from '@/components/features/party/MemberVolumeSlider';
+import { NetworkQualityIndicator } from '@/components/features/party/NetworkQualityIndicator';
 
 import { AVATARS } from '@/lib/constants';
+import { VOICE_CONSTANTS } from '@/lib/constants/voice';
+import { useParty } from '@/lib/contexts/partyContext';
 import { useToast } from '@/lib/hooks/use-toast';
 import { logger } from '@/lib/logger';
+import { ModerationService } from '@/lib/services/moderationService';
 import { usePartyStore } from '@/lib/stores/partyStore';
+import { getMemberBreakout } from '@/lib/utils/breakout';
+import { canModerateMember } from '@/lib/utils/moderation';
 import { isRateLimited } from '@/lib/utils/rateLimiter';
 
-export function MemberList({ members, currentUserId, volumeLevels = {} }: MemberListProps) {
+export function MemberList({
+  members,
+  currentUserId,
+  networkStats = {},
+  sharingMemberIds = [],
+  volumeLevels = {},
+}: MemberListProps) {
   const {
-    voice: { isMuted: storeIsMuted },
+    voice: {
+      isMuted: storeIsMuted,
+      isDeafened: storeIsDeafened,
+      isRecording: storeIsRecording,
+      isReplayBuffering: storeIsReplayBuffering,
+    },
+    party: { id: partyId },
+    moderation: { breakoutAssignments, breakoutCount, roles, serverMutedIds },
   } = usePartyStore();
+  const currentUserRole: PartyRole = (currentUserId && roles[currentUserId]) || 'member';
+  const canAssignBreakouts = currentUserRole === 'host' && breakoutCount > 0;
+  const { startWhisper, stopWhisper, whisperTargetId } = useParty();
+  const isInVoice = !!currentUserId && !!volumeLevels[currentUserId]?.agora_uid;
   const { toast } = useToast();
   const [localMutes, setLocalMutes] = useState<Record<string, boolean>>({});
+  const [memberVolumes, setMemberVolumes] = useState<Record<string, number>>({});
+  // Breakout group a dragged row is over; 0 is the main channel
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
 
   useEffect(() => {
     // Load saved local mutes from localStorage
@@ -39,6 +69,22 @@ export function MemberList({ members, currentUserId, volumeLevels = {} }: Member
     }
   }, []);
 
+  useEffect(() => {
+    // Load saved per-member volumes; VoiceService owns persisting them
+    const savedVolumes = localStorage.getItem('memberVolumes');
+    if (savedVolumes) {
+      try {
+        setMemberVolumes(JSON.parse(savedVolumes));
+      } catch (error) {
+        logger.error('Failed to load saved member volumes', {
+          component: 'MemberList',
+          action: 'loadSavedVolumes',
+          metadata: { error },
+        });
+      }
+    }
+  }, []);
+
   // Save local mutes whenever they change
   useEffect(() => {
     localStorage.setItem('localMutes', JSON.stringify(localMutes));
@@ -99,6 +145,52 @@ export function MemberList({ members, currentUserId, volumeLevels = {} }: Member
     }
   }, [members, toast, localMutes]);
 
+  const handleMemberVolumeChange = useCallback(async (memberId: string, volume: number) => {
+    setMemberVolumes(prev => ({
+      ...prev,
+      [memberId]: volume
+    }));
+
+    try {
+      const voiceService = (await import('@/lib/services/voiceService')).VoiceService.getInstance();
+      voiceService.setMemberVolume(memberId, volume);
+    } catch (error) {
+      logger.error('Failed to set member volume', {
+        component: 'MemberList',
+        action: 'handleMemberVolumeChange',
+        metadata: { error, memberId, volume },
+      });
+    }
+  }, []);
+
+  // Host-only: move a member into a breakout, or back to the main channel with 0
+  const handleBreakoutAssign = useCallback(async (memberId: string, breakout: number) => {
+    if ((breakoutAssignments[memberId] ?? 0) === breakout) return;
+
+    const assignments = Object.fromEntries(
+      Object.entries(breakoutAssignments).filter(([id]) => id !== memberId)
+    );
+    if (breakout) {
+      assignments[memberId] = breakout;
+    }
+
+    try {
+      await ModerationService.getInstance().setBreakouts(partyId, breakoutCount, assignments);
+      // Realtime confirms it too; update now so the row does not jump back
+      usePartyStore.getState().applyPartySettings({ breakoutAssignments: assignments, partyId });
+    } catch (error) {
+      logger.error('Failed to assign breakout', {
+        component: 'MemberList',
+        action: 'handleBreakoutAssign',
+        metadata: { breakout, error, memberId },
+      });
+      toast({
+        description: error instanceof Error ? error.message : 'Could not move them',
+        duration: 2000,
+      });
+    }
+  }, [breakoutAssignments, breakoutCount, partyId, toast]);
+
   // Memoize member rendering to prevent unnecessary recalculations
   const renderedMembers = useMemo(() => {
     // Filter out inactive or left members
@@ -158,19 +250,44 @@ export function MemberList({ members, currentUserId, volumeLevels = {} }: Member
       return 0;
     });
 
-    return sortedMembers.map(member => {
+    const renderMember = (member: typeof sortedMembers[number]) => {
       const isCurrentUser = member.id === currentUserId;
       const volumeState = volumeLevels[member.id];
       const isLocallyMuted = localMutes[member.id] ?? false;
       const isSelfMuted = volumeState?.muted ?? false;
+      const isServerMuted = serverMutedIds.includes(member.id);
+      const memberRole: PartyRole = roles[member.id] ?? 'member';
       const voice_status = volumeState?.voice_status ?? 'silent';
+      const memberStats = networkStats[member.id];
+      const isReconnecting = memberStats?.linkState === 'reconnecting';
+      const isSharingScreen = sharingMemberIds.includes(member.id);
+      const isRecording = isCurrentUser
+        ? storeIsRecording || storeIsReplayBuffering
+        : volumeState?.recording ?? false;
+      const isWhisperingToMe = !isCurrentUser && !!currentUserId && volumeState?.whispering_to === currentUserId;
+      const isWhisperTarget = whisperTargetId === member.id;
+      // Both sides need a voice connection in the same room; a voice state with a uid means the member has one,
+      // and whisper signals only reach the whisperer's own room
+      const isInSameRoom = !!currentUserId &&
+        getMemberBreakout(breakoutAssignments, breakoutCount, member.id) ===
+          getMemberBreakout(breakoutAssignments, breakoutCount, currentUserId);
+      const canWhisper = !isCurrentUser && !!volumeState?.agora_uid && !!isInVoice && isInSameRoom;
+      const whisperTargetName = isCurrentUser && whisperTargetId
+        ? members.find((m) => m.id === whisperTargetId)?.name ?? 'someone'
+        : null;
 
       // Determine the effective voice status based on mute states
       let effectiveStatus = voice_status;
       if (isCurrentUser) {
-        effectiveStatus = storeIsMuted ? 'muted' : voice_status;
+        if (storeIsDeafened) {
+          effectiveStatus = 'deafened';
+        } else {
+          effectiveStatus = storeIsMuted ? 'muted' : voice_status;
+        }
       } else {
-        if (isLocallyMuted || isSelfMuted) {
+        if (volumeState?.is_deafened) {
+          effectiveStatus = 'deafened';
+        } else if (isLocallyMuted || isSelfMuted || isServerMuted) {
           effectiveStatus = 'muted';
         }
       }
@@ -178,15 +295,24 @@ export function MemberList({ members, currentUserId, volumeLevels = {} }: Member
       return (
         <motion.div
           animate={{ opacity: 1, y: 0 }}
-          aria-label={`${member.name} - ${member.game} - ${effectiveStatus}`}
-          className="flex h-[48px] items-center border-t border-[#e5e5e5] px-1 sm:px-3 transition-all duration-200 ease-out first:border-t-0 hover:bg-[#f5f5f5] gap-1 sm:gap-4"
+          aria-label={`${member.name} - ${member.game} - ${isReconnecting ? 'reconnecting' : effectiveStatus}`}
+          className="group flex h-[48px] items-center border-t border-[#e5e5e5] px-1 sm:px-3 transition-all duration-200 ease-out first:border-t-0 hover:bg-[#f5f5f5] gap-1 sm:gap-4"
           exit={{ opacity: 0, y: 10 }}
           initial={{ opacity: 0, y: -10 }}
           key={member.id}
           role="listitem"
           transition={{ duration: 0.2 }}
         >
-          <div className="flex w-[160px] items-center gap-1 sm:w-[240px] sm:gap-2 md:w-[420px] md:gap-2">
+          <div
+            onDragStart={(e) => {
+              e.dataTransfer.setData('text/plain', member.id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+
+            className={`flex w-[160px] items-center gap-1 sm:w-[240px] sm:gap-2 md:w-[420px] md:gap-2 ${canAssignBreakouts ? 'cursor-grab' : ''}`}
+            draggable={canAssignBreakouts}
+            title={canAssignBreakouts ? 'Drag onto a breakout to move them' : undefined}
+          >
             <div className="w-5 sm:w-6 md:w-8 flex items-center justify-center shrink-0">
               {!isCurrentUser && (
                 <button
@@ -236,6 +362,101 @@ export function MemberList({ members, currentUserId, volumeLevels = {} }: Member
             <span className="flex-1 truncate text-sm font-semibold text-[#282b2f] [text-shadow:_0_1px_1px_rgba(0,0,0,0.15)_inset] sm:text-base md:text-2xl transition-colors duration-200">
               {member.name ?? 'Unknown'}
             </span>
+
+            {isReconnecting && (
+              <span className="shrink-0 animate-pulse text-xs italic text-[#666]">Reconnecting…</span>
+            )}
+
+            {isRecording && (
+              <span
+                className="flex shrink-0 items-center gap-1 text-[10px] font-bold uppercase text-[#ae1228] sm:text-xs"
+                title={`${member.name ?? 'User'} is recording the party`}
+              >
+                <span className="h-2 w-2 animate-pulse rounded-full bg-[#ae1228]" />
+                rec
+              </span>
+            )}
+
+            {(isWhisperingToMe || whisperTargetName) && (
+              <span
+                className="shrink-0 rounded bg-[#6b3fa0] px-1 text-[10px] font-bold lowercase text-white sm:text-xs"
+                role="status"
+              >
+                {isWhisperingToMe ? 'whispering to you' : `whispering to ${whisperTargetName}`}
+              </span>
+            )}
+
+            {isSharingScreen && (
+              <span
+                className="shrink-0 rounded bg-[#282b2f] px-1 text-[10px] font-bold uppercase text-white sm:text-xs"
+                title={`${member.name ?? 'User'} is sharing their screen`}
+              >
+                sharing
+              </span>
+            )}
+
+            {currentUserId && (
+              <NetworkQualityIndicator
+                memberName={member.name ?? 'User'}
+                stats={memberStats}
+              />
+            )}
+
+            {!isCurrentUser && currentUserId && (
+              <MemberVolumeSlider
+                onVolumeChange={(volume) => handleMemberVolumeChange(member.id, volume)}
+
+                memberName={member.name ?? 'User'}
+                volume={memberVolumes[member.id] ?? VOICE_CONSTANTS.MEMBER_VOLUME_DEFAULT}
+              />
+            )}
+
+            {canWhisper && (
+              <button
+                onContextMenu={(e) => e.preventDefault()}
+                onKeyDown={(e) => {
+                  if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+                    e.preventDefault();
+                    void startWhisper(member.id);
+                  }
+                }}
+                onKeyUp={(e) => {
+                  if (e.key === ' ' || e.key === 'Enter') void stopWhisper();
+                }}
+                onPointerCancel={() => void stopWhisper()}
+                onPointerDown={(e) => {
+                  // Keep the release even if the pointer slides off the button
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  void startWhisper(member.id);
+                }}
+                onPointerUp={() => void stopWhisper()}
+
+                aria-label={`Hold to whisper to ${member.name ?? 'User'}`}
+                aria-pressed={isWhisperTarget}
+                className={`shrink-0 touch-none select-none rounded p-1 transition-colors ${isWhisperTarget ? 'bg-[#6b3fa0] text-white' : 'text-[#6B717D] hover:bg-black/5'}`}
+                title={`Hold to whisper to ${member.name ?? 'User'}`}
+                type="button"
+              >
+                <Speech className="h-4 w-4" />
+              </button>
+            )}
+
+            {memberRole !== 'member' && (
+              <span className="shrink-0 rounded bg-[#55b611] px-1 text-[10px] font-bold uppercase text-white sm:text-xs">
+                {memberRole}
+              </span>
+            )}
+
+            {!isCurrentUser && canModerateMember(currentUserRole, memberRole) && (
+              <MemberActionsMenu
+                canBan={currentUserRole === 'host'}
+                isServerMuted={isServerMuted}
+                isSharingScreen={isSharingScreen}
+                memberId={member.id}
+                memberName={member.name ?? 'User'}
+                partyId={partyId}
+              />
+            )}
           </div>
 
           {/* Game status */}
@@ -265,8 +486,84 @@ export function MemberList({ members, currentUserId, volumeLevels = {} }: Member
           </div>
         </motion.div>
       );
+    };
+
+    if (!breakoutCount) {
+      return sortedMembers.map(renderMember);
+    }
+
+    // Group rows by breakout; each group takes drops when the host is assigning
+    return Array.from({ length: breakoutCount + 1 }, (_, group) => {
+      const groupMembers = sortedMembers.filter(
+        (member) => (getMemberBreakout(breakoutAssignments, breakoutCount, member.id) ?? 0) === group
+      );
+      const label = group ? `Breakout ${group}` : 'Main channel';
+
+      return (
+        <div
+          onDragLeave={() => setDropTarget(null)}
+          onDragOver={(e) => {
+            if (!canAssignBreakouts) return;
+            e.preventDefault();
+            setDropTarget(group);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDropTarget(null);
+            const memberId = e.dataTransfer.getData('text/plain');
+            if (canAssignBreakouts && memberId) {
+              void handleBreakoutAssign(memberId, group);
+            }
+          }}
+
+          className={`flex flex-col transition-colors ${dropTarget === group ? 'bg-[#55b611]/10' : ''}`}
+          key={`breakout-${group}`}
+          role="listitem"
+        >
+          <div className="flex h-[28px] items-center justify-between border-t border-[#c5cdd3] bg-[#eff3f6] px-1 text-sm font-semibold text-[#282b2f] sm:px-3">
+            <span>{label}</span>
+            <span className="text-[#6B717D]">{groupMembers.length}</span>
+          </div>
+          <div
+            aria-label={label}
+            className="flex flex-col"
+            role="list"
+          >
+            <AnimatePresence>
+              {groupMembers.map(renderMember)}
+            </AnimatePresence>
+          </div>
+        </div>
+      );
     });
-  }, [members, currentUserId, volumeLevels, localMutes, storeIsMuted, handleOtherMemberMute]);
+  }, [
+    members,
+    currentUserId,
+    volumeLevels,
+    networkStats,
+    sharingMemberIds,
+    localMutes,
+    storeIsMuted,
+    storeIsDeafened,
+    storeIsRecording,
+    storeIsReplayBuffering,
+    isInVoice,
+    whisperTargetId,
+    startWhisper,
+    stopWhisper,
+    handleOtherMemberMute,
+    memberVolumes,
+    handleMemberVolumeChange,
+    partyId,
+    roles,
+    serverMutedIds,
+    currentUserRole,
+    breakoutAssignments,
+    breakoutCount,
+    canAssignBreakouts,
+    dropTarget,
+    handleBreakoutAssign,
+  ]);
 
   return (
     <div
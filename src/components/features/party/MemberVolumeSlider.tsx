@@ -0,0 +1,34 @@
+'use client';
+
+import type { MemberVolumeSliderProps } from '@/lib/types/components/props';
+
+import { memo } from 'react';
+
+import { VOICE_CONSTANTS } from '@/lib/constants/voice';
+
+export const MemberVolumeSlider = memo(function MemberVolumeSlider({
+  memberName,
+  volume,
+  onVolumeChange,
+}: MemberVolumeSliderProps) {
+  return (
+    <label
+      className="hidden shrink-0 items-center gap-1 opacity-0 transition-opacity duration-200 focus-within:opacity-100 group-hover:opacity-100 sm:flex"
+      title={`${memberName}: ${volume}% (double-click to reset)`}
+    >
+      <input
+        onChange={(e) => onVolumeChange(Number(e.target.value))}
+        onDoubleClick={() => onVolumeChange(VOICE_CONSTANTS.MEMBER_VOLUME_DEFAULT)}
+
+        aria-label={`${memberName} volume`}
+        className="h-1 w-16 cursor-pointer accent-[#55b611] md:w-24"
+        max={VOICE_CONSTANTS.MEMBER_VOLUME_MAX}
+        min={0}
+        step={5}
+        type="range"
+        value={volume}
+      />
+      <span className="w-9 text-right text-xs tabular-nums text-[#666]">{volume}%</span>
+    </label>
+  );
+});
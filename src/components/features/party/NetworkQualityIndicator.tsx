@@ -0,0 +1,105 @@
+'use client';
+
+import type { NetworkQualityIndicatorProps } from '@/lib/types/components/props';
+import type { NetworkQualityLevel } from '@/lib/types/party/voice';
+
+import { memo, useEffect, useRef, useState } from 'react';
+
+const BAR_COUNT = 4;
+
+// Agora's 1 (excellent) to 6 (down) scale mapped onto four bars
+const QUALITY_BARS: Record<NetworkQualityLevel, number> = { 0: 0, 1: 4, 2: 3, 3: 2, 4: 1, 5: 1, 6: 0 };
+
+const QUALITY_LABELS: Record<NetworkQualityLevel, string> = {
+  0: 'Measuring…',
+  1: 'Excellent',
+  2: 'Good',
+  3: 'Fair',
+  4: 'Poor',
+  5: 'Very poor',
+  6: 'Disconnected',
+};
+
+const barColor = (quality: NetworkQualityLevel) => {
+  if (quality <= 2) return 'bg-[#55b611]';
+  if (quality === 3) return 'bg-[#e5a50a]';
+  return 'bg-[#ae1228]';
+};
+
+export const NetworkQualityIndicator = memo(function NetworkQualityIndicator({
+  memberName,
+  stats,
+}: NetworkQualityIndicatorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the popover
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const quality: NetworkQualityLevel = stats?.quality ?? 0;
+  const isReconnecting = stats?.linkState === 'reconnecting';
+  const label = isReconnecting ? 'Reconnecting…' : QUALITY_LABELS[quality];
+  const activeBars = isReconnecting ? 0 : QUALITY_BARS[quality];
+
+  return (
+    <div
+      className="relative shrink-0"
+      ref={containerRef}
+    >
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+
+        aria-expanded={isOpen}
+        aria-label={`${memberName} connection: ${label}`}
+        className="flex h-6 items-end gap-[2px] rounded px-1 pb-1 transition-colors hover:bg-[#e5e5e5]"
+        title={label}
+        type="button"
+      >
+        {Array.from({ length: BAR_COUNT }, (_, i) => (
+          <span
+            className={`w-[3px] rounded-sm ${i < activeBars ? barColor(quality) : 'bg-[#c5c5c5]'} ${
+              isReconnecting ? 'animate-pulse' : ''
+            }`}
+
+            key={i}
+            style={{ height: `${(i + 1) * 4}px` }}
+          />
+        ))}
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 top-full z-20 mt-1 w-48 rounded border border-[#d5d5d5] bg-white p-3 text-xs text-[#282b2f] shadow-lg"
+          role="dialog"
+        >
+          <p className="mb-2 font-semibold">{label}</p>
+          {stats ? (
+            <dl className="grid grid-cols-2 gap-y-1">
+              <dt className="text-[#666]">Packet loss</dt>
+              <dd className="text-right tabular-nums">{stats.packetLoss}%</dd>
+              <dt className="text-[#666]">Jitter</dt>
+              <dd className="text-right tabular-nums">{stats.jitter} ms</dd>
+              <dt className="text-[#666]">Round trip</dt>
+              <dd className="text-right tabular-nums">{stats.rtt} ms</dd>
+              <dt className="text-[#666]">Bitrate</dt>
+              <dd className="text-right tabular-nums">{stats.bitrate} kbps</dd>
+            </dl>
+          ) : (
+            <p className="text-[#666]">No stats reported yet</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,122 @@
+'use client';
+
+import type { PartySummary } from '@/lib/types/party/party';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+import { logger } from '@/lib/logger';
+import { PartyService } from '@/lib/services/partyService';
+
+export function PartyBrowser() {
+  const router = useRouter();
+  const [parties, setParties] = useState<PartySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [partyName, setPartyName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const loadParties = async () => {
+      try {
+        const result = await PartyService.getInstance().listParties();
+        if (mounted) setParties(result);
+      } catch (err) {
+        if (mounted) setError(err instanceof Error ? err.message : 'Failed to load parties');
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    void loadParties();
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const handleCreate = useCallback(
+    async (e: React.FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+      if (isCreating) return;
+
+      setIsCreating(true);
+      setError(null);
+
+      try {
+        const party = await PartyService.getInstance().createParty(partyName);
+        router.push(`/party/${party.id}`);
+      } catch (err) {
+        logger.error('Failed to create party', {
+          component: 'PartyBrowser',
+          action: 'createParty',
+          metadata: { error: err },
+        });
+        setError(err instanceof Error ? err.message : 'Failed to create party');
+        setIsCreating(false);
+      }
+    },
+    [isCreating, partyName, router]
+  );
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-black px-4 text-white">
+      <div className="flex w-full max-w-md flex-col gap-4">
+        <h1 className="text-2xl font-semibold">Parties</h1>
+
+        <form
+          onSubmit={handleCreate}
+
+          className="flex gap-2"
+        >
+          <Input
+            onChange={(e) => setPartyName(e.target.value)}
+
+            aria-label="Party name"
+            className="text-black"
+            maxLength={40}
+            placeholder="Name your party"
+            value={partyName}
+          />
+          <Button
+            disabled={isCreating || partyName.trim().length < 2}
+            type="submit"
+          >
+            {isCreating ? 'Creating...' : 'Create'}
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading parties...</p>
+        ) : parties.length === 0 ? (
+          <p className="text-muted-foreground">No parties yet. Start one above.</p>
+        ) : (
+          <ul className="flex flex-col divide-y divide-white/10 rounded-md border border-white/10">
+            {parties.map((party) => (
+              <li key={party.id}>
+                <Link
+                  className="flex items-center justify-between px-4 py-3 transition-colors hover:bg-white/5"
+                  href={`/party/${party.id}`}
+                >
+                  <span className="truncate font-medium">{party.name}</span>
+                  <span className="ml-4 shrink-0 text-sm text-white/60">
+                    {party.member_count} {party.member_count === 1 ? 'member' : 'members'}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
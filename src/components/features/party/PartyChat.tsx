@@ -1,6 +1,6 @@
 'use client';
 
-import type { VoiceStatus, MemberStatus } from '@/lib/types/party/member';
+import type { PartyRole } from '@/lib/types/party/party';
 
 import React, { memo, useMemo } from 'react';
 
@@ -11,41 +11,128 @@ import { ModalManager } from '@/components/features/modals/ModalManager';
 import { useParty } from '@/lib/contexts/partyContext';
 import { usePartyNotifications } from '@/lib/hooks/usePartyNotifications';
 import { logger } from '@/lib/logger';
-
+import { usePartyStore } from '@/lib/stores/partyStore';
+import { createJoiningMember } from '@/lib/utils/member';
+import { canModerateMember } from '@/lib/utils/moderation';
+
+import { BreakoutPanel } from './BreakoutPanel';
+import { CallOverlay } from './CallOverlay';
+import { ClipLibrary } from './ClipLibrary';
+import { FriendsSidebar } from './FriendsSidebar';
+import { InvitePanel } from './InvitePanel';
 import { MemberList } from './MemberList';
 import { PartyControls } from './PartyControls';
 import { PartyHeader } from './PartyHeader';
+import { PartyTextChat } from './PartyTextChat';
+import { ReconnectBanner } from './ReconnectBanner';
+import { RecordingIndicator } from './RecordingIndicator';
+import { ScreenShareTile } from './ScreenShareTile';
+import { Soundboard } from './Soundboard';
 import { TopBar } from './TopBar';
+import { VideoGrid } from './VideoGrid';
 
 const PartyContent = memo(() => {
-  const { members, currentMember, volumeLevels } = useParty();
+  const {
+    cameraFeeds,
+    members,
+    currentMember,
+    networkStats,
+    screenShares,
+    setCameraHidden,
+    toggleScreenShare,
+    volumeLevels,
+  } = useParty();
+  const partyId = usePartyStore((state) => state.party.id);
+  const roles = usePartyStore((state) => state.moderation.roles);
+  // Older persisted settings predate the layout switch
+  const videoLayout = usePartyStore((state) => state.voiceSettings.videoLayout ?? 'list');
 
   const memoizedMembers = useMemo(() => members, [members]);
+  const sharingMemberIds = useMemo(
+    () => screenShares.flatMap((share) => (share.memberId ? [share.memberId] : [])),
+    [screenShares]
+  );
+  const currentUserRole: PartyRole = (currentMember && roles[currentMember.id]) || 'member';
 
   return (
     <div className="flex flex-col">
-      <MemberList
-        currentUserId={currentMember?.id}
-        members={memoizedMembers}
-        volumeLevels={volumeLevels}
-      />
+      {screenShares.map((share) => (
+        <ScreenShareTile
+          canModerate={
+            !!share.memberId && canModerateMember(currentUserRole, roles[share.memberId] ?? 'member')
+          }
+
+          onStopLocalShare={() => void toggleScreenShare()}
+
+          key={share.uid}
+          partyId={partyId}
+          share={share}
+          sharerName={members.find((member) => member.id === share.memberId)?.name ?? 'Someone'}
+        />
+      ))}
+      {videoLayout === 'grid' ? (
+        <VideoGrid
+          onCameraHiddenChange={(memberId, isHidden) => void setCameraHidden(memberId, isHidden)}
+
+          cameraFeeds={cameraFeeds}
+          currentUserId={currentMember?.id}
+          members={memoizedMembers}
+          volumeLevels={volumeLevels}
+        />
+      ) : (
+        <MemberList
+          currentUserId={currentMember?.id}
+          members={memoizedMembers}
+          networkStats={networkStats}
+          sharingMemberIds={sharingMemberIds}
+          volumeLevels={volumeLevels}
+        />
+      )}
+      <InvitePanel />
+      <BreakoutPanel />
+      <ClipLibrary />
+      <Soundboard />
+      <PartyTextChat />
     </div>
   );
 });
 PartyContent.displayName = 'PartyContent';
 
 const PartyActions = memo(() => {
-  const { currentMember, isMuted, toggleMute, micPermissionDenied, partyState, leave } = useParty();
+  const {
+    currentMember,
+    isCameraOn,
+    isDeafened,
+    isMuted,
+    isScreenSharing,
+    toggleCamera,
+    toggleDeafen,
+    toggleMute,
+    toggleRecording,
+    toggleScreenShare,
+    micPermissionDenied,
+    partyState,
+    leave,
+    saveReplayClip,
+  } = useParty();
 
   return (
     <PartyControls
       onLeaveAction={leave}
       onRequestMicrophonePermission={() => {}}
+      onSaveReplayClip={saveReplayClip}
+      onToggleCamera={toggleCamera}
+      onToggleDeafen={toggleDeafen}
       onToggleMute={toggleMute}
+      onToggleRecording={toggleRecording}
+      onToggleScreenShare={toggleScreenShare}
 
       currentUser={currentMember}
+      isCameraOn={isCameraOn}
+      isDeafened={isDeafened}
       isLeaving={false}
       isMuted={isMuted}
+      isScreenSharing={isScreenSharing}
       micPermissionDenied={micPermissionDenied}
       partyState={partyState}
     />
@@ -64,20 +151,12 @@ function PartyChat() {
       metadata: { name, avatar, game },
     });
 
-    const member = {
-      id: crypto.randomUUID(),
-      name,
-      avatar,
-      game,
-      created_at: new Date().toISOString(),
-      last_seen: new Date().toISOString(),
-      is_active: true,
-      status: 'active' as MemberStatus,
-      voice_status: 'silent' as VoiceStatus,
-      volumeLevel: 0,
-      muted: false,
-      is_deafened: false,
-    };
+    // Identity comes from the auth session, signing in anonymously if needed
+    const { ensureAuthUser, saveProfile } = usePartyStore.getState();
+    const user = await ensureAuthUser();
+    await saveProfile({ name, avatar, game });
+
+    const member = createJoiningMember(user.id, { name, avatar, game });
 
     logger.debug('Calling join with member', {
       component: 'PartyChat',
@@ -120,11 +199,13 @@ function PartyChat() {
   return (
     <div className="min-h-screen w-full overflow-y-auto">
       <div className="flex min-h-[100dvh] w-full items-center justify-center p-0 lg:p-12">
-        <div className="w-full max-w-full px-4 sm:px-6 lg:w-auto">
+        <div className="flex w-full max-w-full flex-col gap-4 px-4 sm:px-6 lg:w-auto lg:flex-row lg:items-start">
           <div className="flex flex-col">
             <TopBar />
             <Card className="flex h-[calc(100dvh-180px)] w-full flex-col rounded-none border-0 shadow-none bg-[#dce4e7] lg:h-[600px] lg:min-w-[900px]">
               <PartyHeader membersCount={members.length} />
+              <ReconnectBanner />
+              <RecordingIndicator />
               <div className="flex-1 overflow-y-auto bg-[#dce4e7] bubble-scrollbar">
                 <PartyContent />
               </div>
@@ -133,7 +214,9 @@ function PartyChat() {
               <PartyActions />
             </div>
           </div>
+          <FriendsSidebar />
         </div>
+        <CallOverlay />
         <ModalManager
           onEditProfileAction={handleEditProfile}
           onJoinPartyAction={handleJoinParty}
@@ -2,11 +2,14 @@
 
 import type { PartyControlsProps } from '@/lib/types/components/props';
 
-import React, { memo, useCallback } from 'react';
+import React, { memo, useCallback, useEffect, useState } from 'react';
 
 import { AVATARS, STATUSES } from '@/lib/constants';
+import { DEFAULT_INSTANT_REPLAY, VOICE_CONSTANTS } from '@/lib/constants/voice';
 import { useToast } from '@/lib/hooks/use-toast';
+import { usePartyStore } from '@/lib/stores/partyStore';
 import { useModalStore } from '@/lib/stores/useModalStore';
+import { formatKeyCode } from '@/lib/utils/keyboard';
 import { isRateLimited } from '@/lib/utils/rateLimiter';
 
 export const PartyControls = memo(function PartyControls({
@@ -16,11 +19,36 @@ export const PartyControls = memo(function PartyControls({
   partyState,
   isMuted = false,
   onToggleMute,
+  isDeafened = false,
+  onToggleDeafen,
   micPermissionDenied = false,
   onRequestMicrophonePermission,
+  isScreenSharing = false,
+  onToggleScreenShare,
+  isCameraOn = false,
+  onToggleCamera,
+  onToggleRecording,
+  onSaveReplayClip,
 }: PartyControlsProps) {
   const showModal = useModalStore((state) => state.showModal);
+  const {
+    inputMode,
+    instantReplay = DEFAULT_INSTANT_REPLAY,
+    pushToTalkKey,
+    videoLayout = 'list',
+  } = usePartyStore((state) => state.voiceSettings);
+  const { isRecording, isReplayBuffering } = usePartyStore((state) => state.voice);
   const { toast } = useToast();
+  const [canShareScreen, setCanShareScreen] = useState(false);
+  const [canRecord, setCanRecord] = useState(false);
+
+  // Mobile browsers have no getDisplayMedia; checked after mount to keep hydration stable
+  useEffect(() => {
+    setCanShareScreen(!!navigator.mediaDevices?.getDisplayMedia);
+    setCanRecord(
+      typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(VOICE_CONSTANTS.RECORDING_MIME_TYPE)
+    );
+  }, []);
 
   const handleMuteToggle = useCallback(async () => {
     if (!onToggleMute) return;
@@ -41,11 +69,91 @@ export const PartyControls = memo(function PartyControls({
     });
   }, [onToggleMute, isMuted, toast]);
 
+  const handleDeafenToggle = useCallback(async () => {
+    if (!onToggleDeafen) return;
+
+    if (isRateLimited('deafen-toggle', 500)) {
+      toast({
+        description: 'Please wait before toggling deafen again',
+        duration: 1000,
+      });
+      return;
+    }
+
+    await onToggleDeafen();
+    toast({
+      description: !isDeafened ? 'Deafened' : 'Undeafened',
+      duration: 1000,
+    });
+  }, [onToggleDeafen, isDeafened, toast]);
+
+  const handleScreenShareToggle = useCallback(() => {
+    if (!onToggleScreenShare) return;
+
+    if (isRateLimited('screen-share-toggle', 1000)) {
+      toast({
+        description: 'Please wait before toggling screen share again',
+        duration: 1000,
+      });
+      return;
+    }
+
+    onToggleScreenShare();
+  }, [onToggleScreenShare, toast]);
+
+  const handleCameraToggle = useCallback(() => {
+    if (!onToggleCamera) return;
+
+    if (isRateLimited('camera-toggle', 1000)) {
+      toast({
+        description: 'Please wait before toggling your camera again',
+        duration: 1000,
+      });
+      return;
+    }
+
+    onToggleCamera();
+  }, [onToggleCamera, toast]);
+
+  const handleRecordingToggle = useCallback(() => {
+    if (!onToggleRecording) return;
+
+    if (isRateLimited('recording-toggle', 1000)) {
+      toast({
+        description: 'Please wait before toggling recording again',
+        duration: 1000,
+      });
+      return;
+    }
+
+    onToggleRecording();
+  }, [onToggleRecording, toast]);
+
+  const handleSaveReplayClip = useCallback(() => {
+    if (!onSaveReplayClip) return;
+
+    if (isRateLimited('replay-save', 1000)) {
+      toast({
+        description: 'Please wait before saving another clip',
+        duration: 1000,
+      });
+      return;
+    }
+
+    onSaveReplayClip();
+  }, [onSaveReplayClip, toast]);
+
+  const handleLayoutToggle = useCallback(() => {
+    usePartyStore.getState().setVideoLayout(videoLayout === 'grid' ? 'list' : 'grid');
+  }, [videoLayout]);
+
   const handleJoinClick = useCallback(() => {
+    // Prefill from the saved account profile when there is one
+    const { profile } = usePartyStore.getState().auth;
     showModal('join', {
-      name: '',
-      avatar: AVATARS[Math.floor(Math.random() * AVATARS.length)]!,
-      game: STATUSES[Math.floor(Math.random() * STATUSES.length)]!,
+      name: profile?.name ?? '',
+      avatar: profile?.avatar ?? AVATARS[Math.floor(Math.random() * AVATARS.length)]!,
+      game: profile?.game ?? STATUSES[Math.floor(Math.random() * STATUSES.length)]!,
     });
   }, [showModal]);
 
@@ -53,8 +161,8 @@ export const PartyControls = memo(function PartyControls({
     if (!currentUser) return;
     showModal('profile', {
       name: currentUser.name ?? '',
-      avatar: AVATARS[Math.floor(Math.random() * AVATARS.length)]!,
-      game: STATUSES[Math.floor(Math.random() * STATUSES.length)]!,
+      avatar: currentUser.avatar,
+      game: currentUser.game,
     });
   }, [showModal, currentUser]);
 
@@ -112,6 +220,103 @@ export const PartyControls = memo(function PartyControls({
               </span>
             </button>
 
+            <button
+              onClick={handleDeafenToggle}
+
+              className={buttonClass(true, false)}
+              disabled={partyState === 'joining'}
+            >
+              <div className="flex h-4 items-center justify-center rounded-full bg-[#3d3d3d] px-1 text-[9px] font-bold text-white md:h-5 md:text-[10px]">
+                RB
+              </div>
+              <span className="text-white [text-shadow:_0_1px_1px_rgba(0,0,0,0.15)_inset]">
+                {isDeafened ? 'Undeafen' : 'Deafen'}
+              </span>
+            </button>
+
+            {onToggleScreenShare && canShareScreen && (
+              <button
+                onClick={handleScreenShareToggle}
+
+                className={buttonClass(true, false)}
+                disabled={partyState === 'joining'}
+              >
+                <div className="flex h-4 items-center justify-center rounded-full bg-[#3d3d3d] px-1 text-[9px] font-bold text-white md:h-5 md:text-[10px]">
+                  LB
+                </div>
+                <span className="text-white [text-shadow:_0_1px_1px_rgba(0,0,0,0.15)_inset]">
+                  {isScreenSharing ? 'Stop Sharing' : 'Share Screen'}
+                </span>
+              </button>
+            )}
+
+            {onToggleCamera && (
+              <button
+                onClick={handleCameraToggle}
+
+                className={buttonClass(true, false)}
+                disabled={partyState === 'joining'}
+              >
+                <div className="flex h-4 items-center justify-center rounded-full bg-[#3d3d3d] px-1 text-[9px] font-bold text-white md:h-5 md:text-[10px]">
+                  LT
+                </div>
+                <span className="text-white [text-shadow:_0_1px_1px_rgba(0,0,0,0.15)_inset]">
+                  {isCameraOn ? 'Camera Off' : 'Camera On'}
+                </span>
+              </button>
+            )}
+
+            {onToggleRecording && canRecord && (
+              <button
+                onClick={handleRecordingToggle}
+
+                className={buttonClass(true, false)}
+                disabled={partyState === 'joining'}
+              >
+                <div className="flex h-4 w-4 items-center justify-center rounded-full bg-[#ae1228] text-[10px] font-bold text-white md:h-5 md:w-5 md:text-[11px]">
+                  {isRecording ? '■' : '●'}
+                </div>
+                <span className="text-white [text-shadow:_0_1px_1px_rgba(0,0,0,0.15)_inset]">
+                  {isRecording ? 'Stop Recording' : 'Record'}
+                </span>
+              </button>
+            )}
+
+            {onSaveReplayClip && isReplayBuffering && (
+              <button
+                onClick={handleSaveReplayClip}
+
+                className={buttonClass(true, false)}
+                title={`Save clip (${formatKeyCode(instantReplay.hotkey)})`}
+              >
+                <div className="flex h-4 w-4 items-center justify-center rounded-full bg-[#ae1228] text-[10px] font-bold text-white md:h-5 md:w-5 md:text-[11px]">
+                  ↺
+                </div>
+                <span className="text-white [text-shadow:_0_1px_1px_rgba(0,0,0,0.15)_inset]">
+                  Save Last {instantReplay.clipSeconds}s
+                </span>
+              </button>
+            )}
+
+            <button
+              onClick={handleLayoutToggle}
+
+              className={buttonClass(true, false)}
+            >
+              <div className="flex h-4 items-center justify-center rounded-full bg-[#3d3d3d] px-1 text-[9px] font-bold text-white md:h-5 md:text-[10px]">
+                RT
+              </div>
+              <span className="text-white [text-shadow:_0_1px_1px_rgba(0,0,0,0.15)_inset]">
+                {videoLayout === 'grid' ? 'List View' : 'Video Grid'}
+              </span>
+            </button>
+
+            {inputMode === 'push_to_talk' && !isMuted && (
+              <span className="flex items-center text-white/80 [text-shadow:_0_1px_1px_rgba(0,0,0,0.15)_inset]">
+                Hold {formatKeyCode(pushToTalkKey)} to talk
+              </span>
+            )}
+
             {micPermissionDenied && onRequestMicrophonePermission && (
               <button
                 onClick={onRequestMicrophonePermission}
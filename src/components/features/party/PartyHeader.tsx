@@ -4,6 +4,8 @@ import type { PartyHeaderProps } from '@/lib/types/components/props';
 
 import React, { useRef, useState, useCallback, useEffect } from 'react';
 
+import Link from 'next/link';
+
 import { Clipboard } from 'lucide-react';
 import { BiSolidBarChartAlt2 } from 'react-icons/bi';
 import { TbBrandX } from 'react-icons/tb';
@@ -259,10 +261,16 @@ export const PartyHeader = React.memo(
           <Clipboard className="h-4 w-4 text-white opacity-90" />
         </button>
 
-        <div className="h-[35px] sm:h-[40px] w-full border-b border-gray-400 bg-[#eff3f6] pl-[30px]">
+        <div className="flex h-[35px] sm:h-[40px] w-full items-center justify-between border-b border-gray-400 bg-[#eff3f6] pl-[30px] pr-[30px]">
           <span className="text-lg sm:text-xl font-semibold leading-[35px] sm:leading-[38px] text-[#282b2f]">
             Party Options: Party Chat
           </span>
+          <Link
+            className="text-sm sm:text-base font-semibold text-[#409202] hover:underline"
+            href="/party"
+          >
+            All Parties
+          </Link>
         </div>
       </div>
     );
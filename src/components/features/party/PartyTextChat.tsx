@@ -0,0 +1,192 @@
+'use client';
+
+import type { PartyMessage } from '@/lib/types/party/chat';
+
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+
+import Image from 'next/image';
+
+import { ChevronDown, ChevronUp, SendHorizontal } from 'lucide-react';
+
+import { AVATARS } from '@/lib/constants';
+import { useToast } from '@/lib/hooks/use-toast';
+import { logger } from '@/lib/logger';
+import { MAX_MESSAGE_LENGTH } from '@/lib/services/chatService';
+import { usePartyStore } from '@/lib/stores/partyStore';
+
+const URL_PATTERN = /(https?:\/\/[^\s]+)/g;
+
+// Render pasted links as clickable anchors
+const MessageContent = memo(({ content }: { content: string }) => (
+  <span className="whitespace-pre-wrap break-words">
+    {content.split(URL_PATTERN).map((part, index) =>
+      index % 2 === 1 ? (
+        <a
+          className="text-[#409202] underline underline-offset-2 hover:brightness-110"
+          href={part}
+          key={index}
+          rel="noopener noreferrer"
+          target="_blank"
+        >
+          {part}
+        </a>
+      ) : (
+        part
+      )
+    )}
+  </span>
+));
+MessageContent.displayName = 'MessageContent';
+
+const MessageRow = memo(({ message, isOwn }: { isOwn: boolean; message: PartyMessage }) => (
+  <li className="flex items-start gap-2 px-3 py-1.5">
+    <Image
+      alt={message.member_name}
+      className="mt-0.5 shrink-0"
+      height={24}
+      src={message.member_avatar || AVATARS[0]!}
+      width={24}
+    />
+    <div className="min-w-0 flex-1 text-sm text-[#282b2f]">
+      <span className={`mr-2 font-semibold ${isOwn ? 'text-[#409202]' : ''}`}>
+        {message.member_name}
+      </span>
+      <span className="mr-2 text-xs text-[#6B717D]">
+        {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+      </span>
+      <MessageContent content={message.content} />
+    </div>
+  </li>
+));
+MessageRow.displayName = 'MessageRow';
+
+export function PartyTextChat() {
+  const {
+    chat: { messages, unreadCount, isOpen },
+    party: { id: partyId },
+    presence: { currentMember },
+    loadChatHistory,
+    sendChatMessage,
+    setChatOpen,
+  } = usePartyStore();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Load recent history whenever the party changes
+  useEffect(() => {
+    void loadChatHistory();
+  }, [partyId, loadChatHistory]);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (isOpen && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages, isOpen]);
+
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+      if (!draft.trim() || isSending) return;
+
+      setIsSending(true);
+      try {
+        await sendChatMessage(draft);
+        setDraft('');
+      } catch (error) {
+        logger.error('Failed to send chat message', {
+          component: 'PartyTextChat',
+          action: 'sendMessage',
+          metadata: { error },
+        });
+        toast({
+          description: error instanceof Error ? error.message : 'Failed to send message',
+          duration: 2000,
+        });
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [draft, isSending, sendChatMessage, toast]
+  );
+
+  return (
+    <section
+      aria-label="Party text chat"
+      className="flex flex-col border-t border-gray-400 bg-[#eff3f6]"
+    >
+      <button
+        onClick={() => setChatOpen(!isOpen)}
+
+        aria-expanded={isOpen}
+        className="flex h-[35px] w-full items-center justify-between px-[30px] text-left transition-colors hover:bg-black/5"
+      >
+        <span className="flex items-center gap-2 text-base font-semibold text-[#282b2f] sm:text-lg">
+          Text Chat
+          {unreadCount > 0 && (
+            <span
+              aria-label={`${unreadCount} unread messages`}
+              className="rounded-full bg-[#409202] px-2 text-xs font-bold leading-5 text-white"
+            >
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </span>
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4 text-[#282b2f]" />
+        ) : (
+          <ChevronUp className="h-4 w-4 text-[#282b2f]" />
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <ul
+            aria-live="polite"
+            className="bubble-scrollbar max-h-[180px] overflow-y-auto bg-white/60"
+            ref={listRef}
+          >
+            {messages.length === 0 ? (
+              <li className="px-3 py-2 text-sm text-[#6B717D]">No messages yet.</li>
+            ) : (
+              messages.map((message) => (
+                <MessageRow
+                  isOwn={message.member_id === currentMember?.id}
+                  key={message.id}
+                  message={message}
+                />
+              ))
+            )}
+          </ul>
+
+          <form
+            onSubmit={handleSubmit}
+
+            className="flex items-center gap-2 border-t border-[#e5e5e5] px-3 py-2"
+          >
+            <input
+              onChange={(e) => setDraft(e.target.value)}
+
+              aria-label="Message"
+              className="h-8 flex-1 rounded-none border border-[#c5cdd3] bg-white px-2 text-sm text-[#282b2f] outline-none focus:border-[#70cc00] disabled:cursor-not-allowed disabled:opacity-60"
+              disabled={!currentMember}
+              maxLength={MAX_MESSAGE_LENGTH}
+              placeholder={currentMember ? 'Send a message' : 'Join the party to chat'}
+              value={draft}
+            />
+            <button
+              aria-label="Send message"
+              className="flex h-8 w-8 items-center justify-center bg-gradient-to-b from-[#70cc00] to-[#409202] text-white transition-all hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-50"
+              disabled={!currentMember || !draft.trim() || isSending}
+              type="submit"
+            >
+              <SendHorizontal className="h-4 w-4" />
+            </button>
+          </form>
+        </>
+      )}
+    </section>
+  );
+}
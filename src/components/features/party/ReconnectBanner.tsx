@@ -0,0 +1,55 @@
+'use client';
+
+import { memo, useCallback } from 'react';
+
+import { logger } from '@/lib/logger';
+import { usePartyStore } from '@/lib/stores/partyStore';
+
+// Keeps a dropped user informed instead of letting them silently vanish from voice
+export const ReconnectBanner = memo(function ReconnectBanner() {
+  const linkState = usePartyStore((state) => state.voice.linkState);
+
+  const handleRetry = useCallback(async () => {
+    try {
+      const { VoiceService } = await import('@/lib/services/voiceService');
+      await VoiceService.getInstance().resumeSession();
+    } catch (error) {
+      logger.error('Manual voice resume failed', {
+        component: 'ReconnectBanner',
+        action: 'handleRetry',
+        metadata: { error },
+      });
+    }
+  }, []);
+
+  if (linkState === 'connected') return null;
+
+  const isReconnecting = linkState === 'reconnecting';
+
+  return (
+    <div
+      className={`flex items-center justify-between gap-3 px-4 py-2 text-sm font-semibold text-white ${
+        isReconnecting ? 'bg-[#e5a50a]' : 'bg-[#ae1228]'
+      }`}
+
+      aria-live="polite"
+      role="status"
+    >
+      <span className={isReconnecting ? 'animate-pulse' : undefined}>
+        {isReconnecting
+          ? 'Connection lost. Reconnecting to voice…'
+          : 'Disconnected from voice.'}
+      </span>
+      {!isReconnecting && (
+        <button
+          onClick={() => void handleRetry()}
+
+          className="rounded border border-white/60 px-3 py-0.5 transition-colors hover:bg-white/10"
+          type="button"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+});
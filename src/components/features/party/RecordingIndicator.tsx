@@ -0,0 +1,37 @@
+'use client';
+
+import { memo, useMemo } from 'react';
+
+import { useParty } from '@/lib/contexts/partyContext';
+import { usePartyStore } from '@/lib/stores/partyStore';
+
+// Always visible while anyone records, so nobody is captured without knowing
+export const RecordingIndicator = memo(function RecordingIndicator() {
+  const { currentMember, members, volumeLevels } = useParty();
+  // The replay buffer captures the party too, even before a clip is saved
+  const isRecording = usePartyStore((state) => state.voice.isRecording || state.voice.isReplayBuffering);
+
+  const recorderNames = useMemo(() => {
+    const names = members
+      .filter((member) => member.id !== currentMember?.id && volumeLevels[member.id]?.recording)
+      .map((member) => member.name ?? 'Someone');
+    return isRecording ? ['You', ...names] : names;
+  }, [members, currentMember?.id, volumeLevels, isRecording]);
+
+  if (!recorderNames.length) return null;
+
+  const verb = recorderNames.length === 1 && !isRecording ? 'is' : 'are';
+
+  return (
+    <div
+      aria-live="polite"
+      className="flex items-center gap-2 bg-[#282b2f] px-4 py-1.5 text-sm font-semibold text-white"
+      role="status"
+    >
+      <span className="h-2.5 w-2.5 shrink-0 animate-pulse rounded-full bg-[#ae1228]" />
+      <span className="truncate">
+        {recorderNames.join(', ')} {verb} recording this party
+      </span>
+    </div>
+  );
+});
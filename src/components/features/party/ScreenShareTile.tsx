@@ -0,0 +1,118 @@
+'use client';
+
+import type { ScreenShareTileProps } from '@/lib/types/components/props';
+
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+
+import { useToast } from '@/lib/hooks/use-toast';
+import { logger } from '@/lib/logger';
+import { ModerationService } from '@/lib/services/moderationService';
+
+export const ScreenShareTile = memo(function ScreenShareTile({
+  canModerate,
+  partyId,
+  share,
+  sharerName,
+  onStopLocalShare,
+}: ScreenShareTileProps) {
+  const { toast } = useToast();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isStopping, setIsStopping] = useState(false);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // Contain keeps the whole screen visible instead of cropping it to the tile
+    share.track.play(container, { fit: 'contain' });
+    return () => share.track.stop();
+  }, [share.track]);
+
+  const handleFullscreen = useCallback(async () => {
+    try {
+      await containerRef.current?.requestFullscreen();
+    } catch (error) {
+      logger.warn('Fullscreen request failed', {
+        component: 'ScreenShareTile',
+        action: 'handleFullscreen',
+        metadata: { error },
+      });
+    }
+  }, []);
+
+  const handleHostStop = useCallback(async () => {
+    if (!share.memberId) return;
+    setIsStopping(true);
+
+    try {
+      await ModerationService.getInstance().stopShare(partyId, share.memberId);
+      toast({
+        description: `${sharerName} stopped sharing`,
+        duration: 1500,
+      });
+    } catch (error) {
+      logger.error('Failed to stop screen share', {
+        component: 'ScreenShareTile',
+        action: 'handleHostStop',
+        metadata: { error, memberId: share.memberId },
+      });
+      toast({
+        description: error instanceof Error ? error.message : 'Could not stop the share',
+        duration: 2000,
+      });
+    } finally {
+      setIsStopping(false);
+    }
+  }, [partyId, share.memberId, sharerName, toast]);
+
+  const buttonClass =
+    'rounded border border-white/60 px-2 py-0.5 text-xs font-semibold text-white transition-colors hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50';
+
+  return (
+    <figure
+      aria-label={`${sharerName}'s screen`}
+      className="border-b border-[#e5e5e5] bg-[#282b2f]"
+    >
+      <div
+        className="aspect-video w-full bg-black"
+        ref={containerRef}
+      />
+      <figcaption className="flex items-center justify-between gap-3 px-3 py-1.5">
+        <span className="truncate text-sm font-semibold text-white">
+          {share.isLocal ? 'You are sharing your screen' : `${sharerName} is sharing`}
+        </span>
+        <div className="flex shrink-0 items-center gap-2">
+          <button
+            onClick={() => void handleFullscreen()}
+
+            className={buttonClass}
+            type="button"
+          >
+            Fullscreen
+          </button>
+          {share.isLocal && (
+            <button
+              onClick={onStopLocalShare}
+
+              className={buttonClass}
+              type="button"
+            >
+              Stop sharing
+            </button>
+          )}
+          {!share.isLocal && canModerate && share.memberId && (
+            <button
+              onClick={() => void handleHostStop()}
+
+              className={buttonClass}
+              disabled={isStopping}
+              type="button"
+            >
+              Stop share
+            </button>
+          )}
+        </div>
+      </figcaption>
+    </figure>
+  );
+});
@@ -0,0 +1,212 @@
+'use client';
+
+import type { SoundboardSound } from '@/lib/types/party/media';
+
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+
+import { ChevronDown, ChevronUp, Plus, X } from 'lucide-react';
+
+import { useAgoraContext } from '@/components/providers/AgoraProvider';
+
+import { useParty } from '@/lib/contexts/partyContext';
+import { useToast } from '@/lib/hooks/use-toast';
+import { logger } from '@/lib/logger';
+import { ModerationService } from '@/lib/services/moderationService';
+import { usePartyStore } from '@/lib/stores/partyStore';
+
+// Short sounds members play into the party; the host can switch it off for everyone
+export const Soundboard = memo(function Soundboard() {
+  const { currentMember, playSound } = useParty();
+  const { getClient } = useAgoraContext();
+  const partyId = usePartyStore((state) => state.party.id);
+  const soundboardEnabled = usePartyStore((state) => state.moderation.soundboardEnabled);
+  const isHost = usePartyStore(
+    (state) => !!currentMember && state.moderation.roles[currentMember.id] === 'host'
+  );
+  const { toast } = useToast();
+  const [sounds, setSounds] = useState<SoundboardSound[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const withSoundboard = useCallback(async () => {
+    const client = await getClient();
+    const { SoundboardService } = await import('@/lib/services/soundboardService');
+    return SoundboardService.getInstance(client);
+  }, [getClient]);
+
+  const refreshSounds = useCallback(async () => {
+    try {
+      const soundboard = await withSoundboard();
+      setSounds(await soundboard.listSounds());
+    } catch (error) {
+      logger.warn('Failed to load sounds', {
+        component: 'Soundboard',
+        action: 'refreshSounds',
+        metadata: { error },
+      });
+    }
+  }, [withSoundboard]);
+
+  useEffect(() => {
+    if (isOpen) {
+      void refreshSounds();
+    }
+  }, [isOpen, refreshSounds]);
+
+  const handleUpload = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Choosing the same file again should still fire
+      if (!file) return;
+
+      setIsUploading(true);
+      try {
+        const soundboard = await withSoundboard();
+        await soundboard.addCustomSound(file);
+        await refreshSounds();
+      } catch (error) {
+        logger.error('Failed to add sound', {
+          component: 'Soundboard',
+          action: 'handleUpload',
+          metadata: { error, size: file.size, type: file.type },
+        });
+        toast({
+          description: error instanceof Error ? error.message : 'Could not add that sound',
+          duration: 2000,
+        });
+      } finally {
+        setIsUploading(false);
+      }
+    },
+    [withSoundboard, refreshSounds, toast]
+  );
+
+  const handleRemove = useCallback(
+    async (sound: SoundboardSound) => {
+      try {
+        const soundboard = await withSoundboard();
+        await soundboard.removeCustomSound(sound.id);
+        await refreshSounds();
+      } catch (error) {
+        logger.error('Failed to remove sound', {
+          component: 'Soundboard',
+          action: 'handleRemove',
+          metadata: { error, soundId: sound.id },
+        });
+        toast({
+          description: 'Could not remove the sound',
+          duration: 2000,
+        });
+      }
+    },
+    [withSoundboard, refreshSounds, toast]
+  );
+
+  const handleEnabledChange = useCallback(
+    async (isEnabled: boolean) => {
+      try {
+        await ModerationService.getInstance().setSoundboardEnabled(partyId, isEnabled);
+        // Realtime confirms it too; update now so the switch does not lag
+        usePartyStore.getState().applyPartySettings({ partyId, soundboardEnabled: isEnabled });
+      } catch (error) {
+        toast({
+          description: error instanceof Error ? error.message : 'Could not change the soundboard',
+          duration: 2000,
+        });
+      }
+    },
+    [partyId, toast]
+  );
+
+  if (!currentMember) return null;
+
+  return (
+    <section
+      aria-label="Soundboard"
+      className="flex flex-col border-t border-gray-400 bg-[#eff3f6]"
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+
+        aria-expanded={isOpen}
+        className="flex h-[35px] w-full items-center justify-between px-[30px] text-left transition-colors hover:bg-black/5"
+      >
+        <span className="text-base font-semibold text-[#282b2f] sm:text-lg">Soundboard</span>
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4 text-[#282b2f]" />
+        ) : (
+          <ChevronUp className="h-4 w-4 text-[#282b2f]" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="flex flex-col gap-2 bg-white/60 px-3 py-2">
+          {isHost && (
+            <label className="flex items-center gap-2 text-sm text-[#282b2f]">
+              <input
+                onChange={(e) => void handleEnabledChange(e.target.checked)}
+
+                checked={soundboardEnabled}
+                className="h-4 w-4 accent-[#55b611]"
+                type="checkbox"
+              />
+              Allow the soundboard in this party
+            </label>
+          )}
+
+          {soundboardEnabled ? (
+            <div className="flex flex-wrap gap-2">
+              {sounds.map((sound) => (
+                <div
+                  className="flex items-center bg-gradient-to-b from-[#70cc00] to-[#409202] text-sm font-semibold text-white"
+                  key={sound.id}
+                >
+                  <button
+                    onClick={() => void playSound(sound.id)}
+
+                    className="px-3 py-1 transition-all hover:brightness-110"
+                    type="button"
+                  >
+                    {sound.name}
+                  </button>
+                  {sound.isCustom && (
+                    <button
+                      onClick={() => void handleRemove(sound)}
+
+                      aria-label={`Remove ${sound.name}`}
+                      className="py-1 pr-2 opacity-70 hover:opacity-100"
+                      type="button"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                onClick={() => fileInputRef.current?.click()}
+
+                className="flex items-center gap-1 border border-[#c5cdd3] bg-white px-3 py-1 text-sm font-semibold text-[#282b2f] hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                disabled={isUploading}
+                type="button"
+              >
+                <Plus className="h-3 w-3" />
+                {isUploading ? 'Adding…' : 'Add sound'}
+              </button>
+              <input
+                onChange={(e) => void handleUpload(e)}
+
+                accept="audio/*"
+                className="hidden"
+                ref={fileInputRef}
+                type="file"
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-[#6B717D]">The host turned off the soundboard.</p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+});
@@ -0,0 +1,86 @@
+'use client';
+
+import type { SpatialStageProps } from '@/lib/types/components/props';
+
+import { memo, useCallback, useRef, useState } from 'react';
+
+import Image from 'next/image';
+
+import { AVATARS } from '@/lib/constants';
+
+const KEYBOARD_STEP = 0.1;
+
+const clampPan = (pan: number) => Math.max(-1, Math.min(1, Math.round(pan * 100) / 100));
+
+// Drag members left or right to choose where their voice sits between the speakers
+export const SpatialStage = memo(function SpatialStage({ members, pans, onPanChange }: SpatialStageProps) {
+  const stageRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<{ memberId: string; pan: number } | null>(null);
+
+  const panFromPointer = useCallback((clientX: number) => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return clampPan(((clientX - rect.left) / rect.width) * 2 - 1);
+  }, []);
+
+  const handlePointerUp = useCallback(() => {
+    if (!dragging) return;
+    onPanChange(dragging.memberId, dragging.pan);
+    setDragging(null);
+  }, [dragging, onPanChange]);
+
+  if (!members.length) {
+    return <p className="text-xs text-gray-500">Positions appear here once others join the party.</p>;
+  }
+
+  return (
+    <div
+      onPointerMove={(e) => dragging && setDragging({ ...dragging, pan: panFromPointer(e.clientX) })}
+      onPointerUp={handlePointerUp}
+
+      className="relative h-16 touch-none select-none rounded border border-gray-300 bg-gradient-to-r from-[#ACD43B]/20 via-white to-[#ACD43B]/20"
+      ref={stageRef}
+    >
+      <span className="absolute bottom-0.5 left-1 text-[10px] font-semibold text-gray-500">L</span>
+      <span className="absolute bottom-0.5 right-1 text-[10px] font-semibold text-gray-500">R</span>
+
+      {members.map((member, index) => {
+        const pan = dragging?.memberId === member.id ? dragging.pan : pans[member.id] ?? 0;
+
+        return (
+          <div
+            onKeyDown={(e) => {
+              if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+              e.preventDefault();
+              onPanChange(member.id, clampPan(pan + (e.key === 'ArrowLeft' ? -KEYBOARD_STEP : KEYBOARD_STEP)));
+            }}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              setDragging({ memberId: member.id, pan });
+            }}
+
+            aria-label={`${member.name ?? 'Member'} position`}
+            aria-valuemax={1}
+            aria-valuemin={-1}
+            aria-valuenow={pan}
+            className="absolute flex -translate-x-1/2 cursor-grab flex-col items-center active:cursor-grabbing"
+            key={member.id}
+            role="slider"
+            style={{ left: `${((pan + 1) / 2) * 100}%`, top: index % 2 === 0 ? 4 : 20 }}
+            tabIndex={0}
+            title={member.name ?? 'Member'}
+          >
+            <Image
+              alt=""
+              className="rounded-full border border-white shadow"
+              draggable={false}
+              height={24}
+              src={member.avatar ?? AVATARS[0]!}
+              width={24}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+});
@@ -0,0 +1,92 @@
+'use client';
+
+import type { VideoGridProps } from '@/lib/types/components/props';
+import type { CameraFeed } from '@/lib/types/party/media';
+
+import { memo, useEffect, useRef } from 'react';
+
+import Image from 'next/image';
+
+import { AVATARS } from '@/lib/constants';
+
+const CameraVideo = memo(function CameraVideo({ track }: { track: NonNullable<CameraFeed['track']> }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    track.play(container);
+    return () => track.stop();
+  }, [track]);
+
+  return (
+    <div
+      className="absolute inset-0"
+      ref={containerRef}
+    />
+  );
+});
+
+export const VideoGrid = memo(function VideoGrid({
+  cameraFeeds,
+  members,
+  currentUserId,
+  volumeLevels = {},
+  onCameraHiddenChange,
+}: VideoGridProps) {
+  const activeMembers = members.filter((member) => member.is_active && member.status !== 'left');
+
+  return (
+    <div
+      aria-label="Party video"
+      className="grid grid-cols-2 gap-2 p-2 md:grid-cols-3"
+      role="list"
+    >
+      {activeMembers.map((member) => {
+        const feed = cameraFeeds.find((cameraFeed) => cameraFeed.memberId === member.id);
+        const isCurrentUser = member.id === currentUserId;
+        const isSpeaking = volumeLevels[member.id]?.voice_status === 'speaking';
+
+        return (
+          <div
+            className={`group relative flex aspect-video items-center justify-center overflow-hidden rounded bg-[#282b2f] ring-2 transition-shadow duration-200 ${
+              isSpeaking ? 'ring-[#55b611]' : 'ring-transparent'
+            }`}
+
+            aria-label={`${member.name}${feed?.track ? ' - camera on' : ''}`}
+            key={member.id}
+            role="listitem"
+          >
+            {feed?.track ? (
+              <CameraVideo track={feed.track} />
+            ) : (
+              <Image
+                alt={member.name ?? 'Member'}
+                height={48}
+                src={member.avatar ?? AVATARS[0]!}
+                width={48}
+              />
+            )}
+
+            <span className="absolute bottom-1 left-2 max-w-[80%] truncate text-sm font-semibold text-white [text-shadow:_0_1px_2px_rgba(0,0,0,0.6)]">
+              {member.name ?? 'Unknown'}
+              {isCurrentUser && ' (you)'}
+            </span>
+
+            {feed && !feed.isLocal && (
+              <button
+                onClick={() => onCameraHiddenChange(member.id, !feed.isHidden)}
+
+                className="absolute right-1 top-1 rounded bg-black/50 px-2 py-0.5 text-xs font-semibold text-white opacity-0 transition-opacity hover:bg-black/70 focus:opacity-100 group-hover:opacity-100"
+                type="button"
+              >
+                {feed.isHidden ? 'Show video' : 'Hide video'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+});
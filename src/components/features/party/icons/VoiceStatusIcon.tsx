@@ -1,6 +1,7 @@
 import { memo } from 'react';
 
 import { IoVolumeHighSharp, IoVolumeMuteSharp, IoVolumeOffSharp } from 'react-icons/io5';
+import { MdHeadsetOff } from 'react-icons/md';
 
 import { logger } from '@/lib/logger';
 import { VoiceStatus } from '@/lib/types/party';
@@ -20,6 +21,7 @@ export const VoiceStatusIcon = memo(function VoiceStatusIcon({
   // Set color based on status
   const getIconClass = (status: VoiceStatus) => {
     switch (status) {
+      case 'deafened':
       case 'muted':
         return isOtherUser ? 'text-[#bd2727]' : 'text-[#282b2f]';
       default:
@@ -41,6 +43,8 @@ export const VoiceStatusIcon = memo(function VoiceStatusIcon({
 
   // Show appropriate icon based on voice status
   switch (status) {
+    case 'deafened':
+      return <MdHeadsetOff className={iconClass} />;
     case 'muted':
       return <IoVolumeMuteSharp className={iconClass} />;
     case 'speaking':
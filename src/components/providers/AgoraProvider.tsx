@@ -62,9 +62,7 @@ async function loadAgoraSDK(): Promise<{ agora: IAgoraRTC }> {
   AgoraRTC.disableLogUpload();
   AgoraRTC.setLogLevel(0); // Set to INFO level
 
-  // Disable stats collection and logging
-  // @ts-expect-error - These parameters exist but are not in type definitions
-  AgoraRTC.setParameter('DISABLE_STATS_COLLECTOR', true);
+  // Disable log and exception uploads; the stats collector stays on for network quality
   // @ts-expect-error - These parameters exist but are not in type definitions
   AgoraRTC.setParameter('UPLOAD_LOG', false);
   // @ts-expect-error - These parameters exist but are not in type definitions
@@ -49,4 +49,23 @@ const AVATARS = [
 // Party constants
 export const MAIN_PARTY_ID = '11111111-1111-1111-1111-111111111111';
 
+// Realtime channel name prefix for a party's presence, chat and moderation events
+export const PARTY_CHANNEL_PREFIX = 'party:';
+
+// Agora channel name prefix for direct calls, followed by the call id
+export const CALL_CHANNEL_PREFIX = 'call-';
+
+// Agora channel name prefix for whispers, followed by the whisperer's and the listener's party uids
+export const WHISPER_CHANNEL_PREFIX = 'whisper-';
+
+// Agora channel name prefix for breakout rooms, followed by the breakout number and the party id
+export const BREAKOUT_CHANNEL_PREFIX = 'breakout-';
+
+// Most breakout rooms a host can open in one party
+export const MAX_BREAKOUTS = 8;
+
+// Invite limits a host can choose from; null means no limit
+export const INVITE_EXPIRY_HOURS = [1, 24, 168, null] as const;
+export const INVITE_MAX_USES = [1, 5, 25, null] as const;
+
 export { AVATARS, STATUSES, BACKGROUND_VIDEO_URL, INTRO_VIDEO_URL };
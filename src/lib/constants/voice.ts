@@ -1,3 +1,6 @@
+import type { BuiltInSound, CameraPreset, InstantReplaySettings, ReplayClipLength } from '@/lib/types/party/media';
+import type { AudioProcessingSettings, SpatialAudioSettings } from '@/lib/types/party/voice';
+
 export const VOICE_CONSTANTS = {
   // Volume thresholds (0-1)
   SPEAKING_THRESHOLD: 0.25,
@@ -11,6 +14,53 @@ export const VOICE_CONSTANTS = {
   RECOVERY_DELAY: 1000,
   MAX_HOLD_TIME: 200,
 
+  // Input gating (ms); the tail keeps the last syllable from being clipped
+  PUSH_TO_TALK_RELEASE_TAIL: 250,
+  VOICE_ACTIVATION_RELEASE_TAIL: 800,
+  VOICE_ACTIVATION_THRESHOLD: 0.08,
+  DEFAULT_PUSH_TO_TALK_KEY: 'KeyV',
+
+  // Per-member playback volume (percent of the original level)
+  MEMBER_VOLUME_DEFAULT: 100,
+  MEMBER_VOLUME_MAX: 200,
+
+  // Ignore low-input warnings while a device switch settles so it cannot trigger track recovery
+  DEVICE_SWITCH_GRACE_PERIOD: 3000,
+
+  // Session resume after the SDK gives up reconnecting (ms, doubling per attempt)
+  RESUME_MAX_ATTEMPTS: 5,
+  RESUME_BASE_DELAY: 1000,
+  RESUME_MAX_DELAY: 10000,
+
+  // Pre-join mic test polls at the same rate as the volume indicator
+  MIC_TEST_INTERVAL: 200,
+
+  // Camera adapts to the uplink; samples arrive every two seconds with network quality
+  CAMERA_POOR_UPLINK_QUALITY: 4,
+  CAMERA_DOWNGRADE_SAMPLES: 3,
+  CAMERA_UPGRADE_SAMPLES: 10,
+
+  // Local recording; sources are re-checked so late joiners and mic restarts are captured
+  RECORDING_MIME_TYPE: 'audio/webm;codecs=opus',
+  RECORDING_SYNC_INTERVAL: 1000,
+
+  // Instant replay buffers the longest clip; the worklet hands over audio in blocks of this many frames
+  REPLAY_BUFFER_SECONDS: 120,
+  REPLAY_BLOCK_FRAMES: 4096,
+
+  // Soundboard clips stay short, and each member waits out a cooldown between them
+  SOUNDBOARD_COOLDOWN: 3000,
+  SOUNDBOARD_GAIN: 0.5,
+  SOUNDBOARD_MAX_SECONDS: 5,
+  SOUNDBOARD_MAX_UPLOAD_BYTES: 1024 * 1024,
+
+  // Direct calls ring for this long before giving up, and keep the party at this fraction of its volume
+  CALL_RING_TIMEOUT: 30000,
+  CALL_PARTY_DUCK_RATIO: 0.2,
+
+  // Spatial audio keeps the outermost voices slightly inside the speakers
+  SPATIAL_MAX_PAN: 0.8,
+
   // Volume change threshold
   MIN_VOLUME_CHANGE: 0.05,
 
@@ -33,6 +83,82 @@ export const VOICE_CONSTANTS = {
   MAX_PITCH_FREQ: 350,
 } as const;
 
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingSettings = {
+  aec: true,
+  agc: true,
+  ans: true,
+  denoiserEnabled: true,
+  denoiserLevel: 'aggressive',
+  denoiserMode: 'nsng',
+};
+
+export const DEFAULT_SPATIAL_AUDIO: SpatialAudioSettings = {
+  enabled: false,
+  layout: 'row_order',
+  positions: {},
+};
+
+export const DEFAULT_CAMERA_PRESET: CameraPreset = '360p';
+
+// Off until asked for: while the buffer runs, the party sees this member as recording
+export const DEFAULT_INSTANT_REPLAY: InstantReplaySettings = {
+  clipSeconds: 30,
+  enabled: false,
+  hotkey: 'F8',
+};
+
+export const REPLAY_CLIP_LENGTHS: readonly ReplayClipLength[] = [30, 60, 120];
+
+// Synthesized so the app ships no audio files; frequencies are plain note pitches
+export const BUILT_IN_SOUNDS: readonly BuiltInSound[] = [
+  {
+    id: 'achievement',
+    name: 'Achievement',
+    notes: [
+      { frequency: 1318.51, start: 0, duration: 0.18 },
+      { frequency: 1975.53, start: 0.12, duration: 0.7 },
+    ],
+  },
+  {
+    id: 'tada',
+    name: 'Ta-da',
+    notes: [
+      { frequency: 523.25, start: 0, duration: 0.12, type: 'triangle' },
+      { frequency: 659.25, start: 0.1, duration: 0.12, type: 'triangle' },
+      { frequency: 783.99, start: 0.2, duration: 0.12, type: 'triangle' },
+      { frequency: 1046.5, start: 0.3, duration: 0.6, type: 'triangle' },
+    ],
+  },
+  {
+    id: 'airhorn',
+    name: 'Air horn',
+    notes: [
+      { frequency: 466.16, start: 0, duration: 0.15, type: 'sawtooth' },
+      { frequency: 466.16, start: 0.2, duration: 0.15, type: 'sawtooth' },
+      { frequency: 466.16, start: 0.4, duration: 0.7, type: 'sawtooth' },
+    ],
+  },
+  {
+    id: 'sad-trombone',
+    name: 'Sad trombone',
+    notes: [
+      { frequency: 392, start: 0, duration: 0.35, type: 'sawtooth' },
+      { frequency: 369.99, start: 0.35, duration: 0.35, type: 'sawtooth' },
+      { frequency: 349.23, start: 0.7, duration: 0.35, type: 'sawtooth' },
+      { frequency: 329.63, start: 1.05, duration: 0.9, type: 'sawtooth' },
+    ],
+  },
+];
+
+// Ordered from lightest to sharpest so downgrades step one preset at a time
+export const CAMERA_PRESETS: readonly CameraPreset[] = ['180p', '360p', '720p'];
+
+export const CAMERA_ENCODER_CONFIGS: Record<CameraPreset, string> = {
+  '180p': '180p_1',
+  '360p': '360p_1',
+  '720p': '720p_1',
+};
+
 export const VAD_CONFIG = {
   POSITIVE_SPEECH_THRESHOLD: 0.30,
   NEGATIVE_SPEECH_THRESHOLD: 0.20,
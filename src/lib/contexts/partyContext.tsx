@@ -1,14 +1,32 @@
+import type { VoiceService } from '@/lib/services/voiceService';
+import type { CameraFeed, ScreenShare } from '@/lib/types/party/media';
 import type { PartyMember, VoiceMemberState } from '@/lib/types/party/member';
+import type { ModerationEvent } from '@/lib/types/party/party';
 import type { PartyStatus } from '@/lib/types/party/state';
+import type { MemberNetworkStats } from '@/lib/types/party/voice';
 
 import { createContext, useCallback, useContext, useMemo, useEffect, useState, useRef } from 'react';
 
 import { useAgoraContext } from '@/components/providers/AgoraProvider';
 
-import { VOICE_CONSTANTS } from '@/lib/constants/voice';
+import { MAIN_PARTY_ID } from '@/lib/constants';
+import {
+  DEFAULT_AUDIO_PROCESSING,
+  DEFAULT_CAMERA_PRESET,
+  DEFAULT_INSTANT_REPLAY,
+  DEFAULT_SPATIAL_AUDIO,
+  VOICE_CONSTANTS,
+} from '@/lib/constants/voice';
+import { toast } from '@/lib/hooks/use-toast';
+import { useHotkey } from '@/lib/hooks/useHotkey';
+import { usePushToTalk } from '@/lib/hooks/usePushToTalk';
 import { useVolumeControl } from '@/lib/hooks/useVolumeControl';
 import { logger } from '@/lib/logger';
+import { ModerationService } from '@/lib/services/moderationService';
+import { PartyService } from '@/lib/services/partyService';
 import { usePartyStore } from '@/lib/stores/partyStore';
+import { getMemberBreakout, getVoiceChannelName } from '@/lib/utils/breakout';
+import { getMemberPans } from '@/lib/utils/spatialAudio';
 
 // Temporary function for development testing
 const generateTestMembers = (count: number): PartyMember[] => {
@@ -43,17 +61,34 @@ const generateTestMembers = (count: number): PartyMember[] => {
 };
 
 interface PartyContextType {
+  cameraFeeds: CameraFeed[];
   currentMember: PartyMember | null;
   error: Error | null;
+  isCameraOn: boolean;
+  isDeafened: boolean;
   isLeaving: boolean;
   isMuted: boolean;
+  isScreenSharing: boolean;
   members: PartyMember[];
   micPermissionDenied: boolean;
+  networkStats: Record<string, MemberNetworkStats>;
+  partyId: string;
   partyState: PartyStatus;
+  screenShares: ScreenShare[];
   volumeLevels: Record<string, VoiceMemberState>;
+  whisperTargetId: string | null;
   join: (member: PartyMember) => Promise<void>;
   leave: () => Promise<void>;
+  playSound: (soundId: string) => Promise<void>;
+  saveReplayClip: () => Promise<void>;
+  setCameraHidden: (memberId: string, isHidden: boolean) => Promise<void>;
+  startWhisper: (memberId: string) => Promise<void>;
+  stopWhisper: () => Promise<void>;
+  toggleCamera: () => Promise<void>;
+  toggleDeafen: () => Promise<void>;
   toggleMute: () => Promise<void>;
+  toggleRecording: () => Promise<void>;
+  toggleScreenShare: () => Promise<void>;
   updateProfile: (updates: Partial<PartyMember>) => Promise<void>;
   addTestMembers?: (count: number) => void;
 }
@@ -61,40 +96,85 @@ interface PartyContextType {
 const initialPartyState: PartyStatus = 'idle';
 
 const PartyContext = createContext<PartyContextType>({
+  cameraFeeds: [],
   currentMember: null,
   error: null,
+  isCameraOn: false,
+  isDeafened: false,
   isLeaving: false,
   isMuted: false,
+  isScreenSharing: false,
   members: [],
   micPermissionDenied: false,
+  networkStats: {},
+  partyId: MAIN_PARTY_ID,
   partyState: initialPartyState,
+  screenShares: [],
   volumeLevels: {},
+  whisperTargetId: null,
   join: async () => {},
   leave: async () => {},
+  playSound: async () => {},
+  saveReplayClip: async () => {},
+  setCameraHidden: async () => {},
+  startWhisper: async () => {},
+  stopWhisper: async () => {},
+  toggleCamera: async () => {},
+  toggleDeafen: async () => {},
   toggleMute: async () => {},
+  toggleRecording: async () => {},
+  toggleScreenShare: async () => {},
   updateProfile: async () => {},
 });
 
 export const useParty = () => useContext(PartyContext);
 
-// Channel name for voice
-const CHANNEL_NAME = 'party';
-
 export function PartyProvider({ children }: { children: React.ReactNode }) {
   const {
     presence: { currentMember, members, error: presenceError },
-    party: { status: partyState, error: partyError },
-    voice: { isMuted },
+    party: { id: partyId, status: partyState, error: partyError },
+    voice: { isMuted, isDeafened, isInCall },
+    auth: { user: authUser, status: authStatus },
+    voiceSettings: {
+      audioProcessing,
+      cameraPreset,
+      inputMode,
+      instantReplay: savedInstantReplay,
+      pushToTalkKey,
+      inputDeviceId,
+      outputDeviceId,
+      soundboardMuted,
+      spatialAudio,
+    },
+    moderation: { breakoutAssignments, breakoutCount, soundboardEnabled },
     setMuted,
+    setDeafened,
+    initializeAuth,
+    loadModeration,
+    saveProfile,
   } = usePartyStore();
 
   const [volumeLevels, setVolumeLevels] = useState<Record<string, VoiceMemberState>>({});
-  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [whisperTargetId, setWhisperTargetId] = useState<string | null>(null);
+  const whisperTargetRef = useRef<string | null>(null);
+  const [networkStats, setNetworkStats] = useState<Record<string, MemberNetworkStats>>({});
+  const [screenShares, setScreenShares] = useState<ScreenShare[]>([]);
+  const [cameraFeeds, setCameraFeeds] = useState<CameraFeed[]>([]);
+  const [visitorPartyId, setVisitorPartyId] = useState<string | null>(null);
   const [testMembers, setTestMembers] = useState<PartyMember[]>([]);
   const joinControllerRef = useRef<AbortController | null>(null);
+  // Breakout our voice and presence were last moved to; null is the main channel
+  const appliedBreakoutRef = useRef<number | null>(null);
+  // Resolved once the Agora client is ready; key handlers need it synchronously
+  const voiceServiceRef = useRef<VoiceService | null>(null);
 
   const { getClient } = useAgoraContext();
 
+  // Restore the auth session before anyone can join
+  useEffect(() => {
+    void initializeAuth();
+  }, [initializeAuth]);
+
   const addTestMembers = useCallback((count: number) => {
     setTestMembers(generateTestMembers(count));
   }, []);
@@ -188,11 +268,66 @@ export function PartyProvider({ children }: { children: React.ReactNode }) {
         const voiceService = VoiceService.getInstance(client);
         if (!voiceService) return () => {}; // Return no-op cleanup function
 
+        voiceServiceRef.current = voiceService;
+
         // Set up voice update handler
         voiceService.onVolumeChange(handleVolumeChange);
 
+        // Link quality for the signal bars in the member list
+        voiceService.onNetworkStats((stats) =>
+          setNetworkStats(Object.fromEntries(stats.map((entry) => [entry.id, entry])))
+        );
+
+        // Drives the reconnecting banner while a dropped session resumes
+        voiceService.onLinkStateChange((linkState) =>
+          usePartyStore.getState().setVoiceLinkState(linkState)
+        );
+
+        // Surface background failures such as token renewal in the voice store
+        voiceService.onError((error) => usePartyStore.getState().setVoiceError(error));
+
+        // An unplugged device was replaced by the system default
+        voiceService.onDeviceFallback((kind) => {
+          const { setInputDeviceId, setOutputDeviceId } = usePartyStore.getState();
+          if (kind === 'input') {
+            setInputDeviceId(null);
+          } else {
+            setOutputDeviceId(null);
+          }
+          toast({
+            description: `${kind === 'input' ? 'Microphone' : 'Speaker'} disconnected, switched to the default device`,
+            duration: 3000,
+          });
+        });
+
+        // Screen shares and cameras share the voice client
+        const { VideoService } = await import('@/lib/services/videoService');
+        const videoService = VideoService.getInstance(client);
+        videoService.onSharesChange(setScreenShares);
+        videoService.onCamerasChange(setCameraFeeds);
+
+        const { RecordingService } = await import('@/lib/services/recordingService');
+        const recordingService = RecordingService.getInstance(client);
+        recordingService.onRecordingChange((isRecording) =>
+          usePartyStore.getState().setVoiceRecording(isRecording)
+        );
+
+        const { ReplayService } = await import('@/lib/services/replayService');
+        const replayService = ReplayService.getInstance(client);
+        replayService.onBufferingChange((isBuffering) =>
+          usePartyStore.getState().setVoiceReplayBuffering(isBuffering)
+        );
+
         return () => {
+          replayService.onBufferingChange(null);
+          recordingService.onRecordingChange(null);
+          videoService.onSharesChange(null);
+          videoService.onCamerasChange(null);
           voiceService.onVolumeChange(null);
+          voiceService.onNetworkStats(null);
+          voiceService.onLinkStateChange(null);
+          voiceService.onError(null);
+          voiceService.onDeviceFallback(null);
         };
       } catch (error) {
         logger.error('Failed to setup voice service', {
@@ -207,18 +342,356 @@ export function PartyProvider({ children }: { children: React.ReactNode }) {
     void setupVoiceService();
   }, [handleVolumeChange, getClient]);
 
-  // Subscribe as visitor if not joined
+  // Apply the saved input mode; the service keeps it across joins
+  useEffect(() => {
+    const applyInputMode = async () => {
+      if (typeof window === 'undefined') return;
+
+      const client = await getClient();
+      if (!client) return;
+
+      const { VoiceService } = await import('@/lib/services/voiceService');
+      await VoiceService.getInstance(client).setInputMode(inputMode);
+    };
+
+    void applyInputMode().catch((error) => {
+      logger.error('Failed to apply voice input mode', {
+        component: 'PartyContext',
+        action: 'applyInputMode',
+        metadata: { error, inputMode },
+      });
+    });
+  }, [inputMode, getClient]);
+
+  // Apply noise suppression preferences; older persisted settings lack them
+  useEffect(() => {
+    const applyAudioProcessing = async () => {
+      if (typeof window === 'undefined') return;
+
+      const client = await getClient();
+      if (!client) return;
+
+      const { VoiceService } = await import('@/lib/services/voiceService');
+      await VoiceService.getInstance(client).setAudioProcessing({
+        ...DEFAULT_AUDIO_PROCESSING,
+        ...audioProcessing,
+      });
+    };
+
+    void applyAudioProcessing().catch((error) => {
+      logger.error('Failed to apply audio processing', {
+        component: 'PartyContext',
+        action: 'applyAudioProcessing',
+        metadata: { error, audioProcessing },
+      });
+      toast({
+        description: 'Could not update noise suppression',
+        duration: 2000,
+      });
+    });
+  }, [audioProcessing, getClient]);
+
+  // Join order rather than the speaking-sorted rows, so voices do not jump around the stereo field
+  const remoteMemberIds = useMemo(
+    () =>
+      Array.from(members.values())
+        .filter((member) => member.is_active && member.id !== currentMember?.id)
+        .map((member) => member.id)
+        .join(','),
+    [members, currentMember?.id]
+  );
+
+  // Place remote voices when spatial audio is on; older persisted settings predate it
+  useEffect(() => {
+    const applySpatialAudio = async () => {
+      if (typeof window === 'undefined') return;
+
+      const client = await getClient();
+      if (!client) return;
+
+      const settings = { ...DEFAULT_SPATIAL_AUDIO, ...spatialAudio };
+      const pans = settings.enabled
+        ? getMemberPans(remoteMemberIds ? remoteMemberIds.split(',') : [], settings)
+        : null;
+
+      const { VoiceService } = await import('@/lib/services/voiceService');
+      VoiceService.getInstance(client).setMemberPans(pans);
+    };
+
+    void applySpatialAudio().catch((error) => {
+      logger.error('Failed to apply spatial audio', {
+        component: 'PartyContext',
+        action: 'applySpatialAudio',
+        metadata: { error },
+      });
+    });
+  }, [spatialAudio, remoteMemberIds, getClient]);
+
+  // Others' sounds are silenced when the listener asks, and for everyone once the host turns the soundboard off
+  useEffect(() => {
+    const applySoundboardMute = async () => {
+      if (typeof window === 'undefined') return;
+
+      const client = await getClient();
+      if (!client) return;
+
+      const { VoiceService } = await import('@/lib/services/voiceService');
+      VoiceService.getInstance(client).setSoundboardMuted(!!soundboardMuted || !soundboardEnabled);
+    };
+
+    void applySoundboardMute().catch((error) => {
+      logger.error('Failed to apply soundboard mute', {
+        component: 'PartyContext',
+        action: 'applySoundboardMute',
+        metadata: { error },
+      });
+    });
+  }, [soundboardMuted, soundboardEnabled, getClient]);
+
+  const playSound = useCallback(async (soundId: string) => {
+    if (typeof window === 'undefined' || !currentMember) return;
+
+    try {
+      if (!usePartyStore.getState().moderation.soundboardEnabled) {
+        throw new Error('The host turned off the soundboard');
+      }
+
+      const client = await getClient();
+      const { SoundboardService } = await import('@/lib/services/soundboardService');
+      await SoundboardService.getInstance(client).play(soundId, currentMember.id);
+    } catch (error) {
+      logger.error('Play sound error', {
+        component: 'PartyContext',
+        action: 'playSound',
+        metadata: { error, soundId },
+      });
+      toast({
+        description: error instanceof Error ? error.message : 'Could not play the sound',
+        duration: 2000,
+      });
+    }
+  }, [currentMember, getClient]);
+
+  // Hold-to-whisper: the party mic closes and only the target hears us until release
+  const startWhisper = useCallback(async (memberId: string) => {
+    if (typeof window === 'undefined' || !currentMember) return;
+
+    whisperTargetRef.current = memberId;
+    setWhisperTargetId(memberId);
+    try {
+      const client = await getClient();
+      const { WhisperService } = await import('@/lib/services/whisperService');
+      const whisperService = WhisperService.getInstance(client);
+      await whisperService.startWhisper(memberId);
+
+      // Released before the whisper finished starting
+      if (!whisperTargetRef.current) {
+        await whisperService.stopWhisper();
+      }
+    } catch (error) {
+      if (whisperTargetRef.current === memberId) {
+        whisperTargetRef.current = null;
+        setWhisperTargetId(null);
+      }
+      logger.error('Start whisper error', {
+        component: 'PartyContext',
+        action: 'startWhisper',
+        metadata: { error, memberId },
+      });
+      toast({
+        description: error instanceof Error ? error.message : 'Could not whisper to them',
+        duration: 2000,
+      });
+    }
+  }, [currentMember, getClient]);
+
+  const stopWhisper = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    whisperTargetRef.current = null;
+    setWhisperTargetId(null);
+    try {
+      const client = await getClient();
+      const { WhisperService } = await import('@/lib/services/whisperService');
+      await WhisperService.getInstance(client).stopWhisper();
+    } catch (error) {
+      logger.error('Stop whisper error', {
+        component: 'PartyContext',
+        action: 'stopWhisper',
+        metadata: { error },
+      });
+    }
+  }, [getClient]);
+
+  // Members whispering to us, as a stable key so level updates do not resync the whisper channels
+  const incomingWhisperKey = useMemo(
+    () =>
+      Object.values(volumeLevels)
+        .filter((state) => !!currentMember && state.whispering_to === currentMember.id)
+        .map((state) => state.id)
+        .sort()
+        .join(','),
+    [volumeLevels, currentMember]
+  );
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    const syncIncomingWhispers = async () => {
+      const client = await getClient();
+      if (!client) return;
+
+      const { WhisperService } = await import('@/lib/services/whisperService');
+      await WhisperService.getInstance(client).syncIncoming(incomingWhisperKey ? incomingWhisperKey.split(',') : []);
+    };
+
+    void syncIncomingWhispers().catch((error) => {
+      logger.error('Failed to sync incoming whispers', {
+        component: 'PartyContext',
+        action: 'syncIncomingWhispers',
+        metadata: { error },
+      });
+    });
+  }, [incomingWhisperKey, getClient]);
+
+  // Older persisted settings predate instant replay
+  const instantReplay = useMemo(
+    () => ({ ...DEFAULT_INSTANT_REPLAY, ...savedInstantReplay }),
+    [savedInstantReplay]
+  );
+
+  // Runs the replay buffer only while connected to voice and the setting is on
+  const syncInstantReplay = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const client = await getClient();
+      if (!client) return;
+
+      const { ReplayService } = await import('@/lib/services/replayService');
+      const replayService = ReplayService.getInstance(client);
+      const { instantReplay: settings } = usePartyStore.getState().voiceSettings;
+
+      if (settings?.enabled && client.connectionState === 'CONNECTED') {
+        await replayService.start();
+      } else {
+        await replayService.stop();
+      }
+    } catch (error) {
+      logger.error('Failed to sync instant replay', {
+        component: 'PartyContext',
+        action: 'syncInstantReplay',
+        metadata: { error },
+      });
+      toast({
+        description: error instanceof Error ? error.message : 'Could not start instant replay',
+        duration: 2000,
+      });
+    }
+  }, [getClient]);
+
+  useEffect(() => {
+    void syncInstantReplay();
+  }, [instantReplay.enabled, syncInstantReplay]);
+
+  const saveReplayClip = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const client = await getClient();
+      const { ReplayService } = await import('@/lib/services/replayService');
+      const clip = await ReplayService.getInstance(client).saveClip(instantReplay.clipSeconds);
+
+      toast({
+        description: clip ? `Saved the last ${clip.durationSeconds} seconds` : 'Nothing to save yet',
+        duration: 2000,
+      });
+    } catch (error) {
+      logger.error('Save replay clip error', {
+        component: 'PartyContext',
+        action: 'saveReplayClip',
+        metadata: { error },
+      });
+      toast({
+        description: error instanceof Error ? error.message : 'Could not save the clip',
+        duration: 2000,
+      });
+    }
+  }, [getClient, instantReplay.clipSeconds]);
+
+  // Apply the camera quality; older persisted settings predate it
+  useEffect(() => {
+    const applyCameraPreset = async () => {
+      if (typeof window === 'undefined') return;
+
+      const client = await getClient();
+      if (!client) return;
+
+      const { VideoService } = await import('@/lib/services/videoService');
+      await VideoService.getInstance(client).setCameraPreset(cameraPreset ?? DEFAULT_CAMERA_PRESET);
+    };
+
+    void applyCameraPreset().catch((error) => {
+      logger.error('Failed to apply camera preset', {
+        component: 'PartyContext',
+        action: 'applyCameraPreset',
+        metadata: { error, cameraPreset },
+      });
+    });
+  }, [cameraPreset, getClient]);
+
+  // Apply the saved devices; older persisted settings may lack these fields
+  useEffect(() => {
+    const applyDevices = async () => {
+      if (typeof window === 'undefined') return;
+
+      const client = await getClient();
+      if (!client) return;
+
+      const { VoiceService } = await import('@/lib/services/voiceService');
+      const voiceService = VoiceService.getInstance(client);
+      await voiceService.setInputDevice(inputDeviceId ?? null);
+      await voiceService.setOutputDevice(outputDeviceId ?? null);
+    };
+
+    void applyDevices().catch((error) => {
+      logger.error('Failed to apply audio devices', {
+        component: 'PartyContext',
+        action: 'applyDevices',
+        metadata: { error, inputDeviceId, outputDeviceId },
+      });
+      toast({
+        description: 'Could not switch audio device',
+        duration: 2000,
+      });
+    });
+  }, [inputDeviceId, outputDeviceId, getClient]);
+
+  usePushToTalk({
+    isEnabled: inputMode === 'push_to_talk' && !!currentMember,
+    keyCode: pushToTalkKey,
+    onActiveChange: (isActive) => voiceServiceRef.current?.setPushToTalkActive(isActive),
+  });
+
+  useHotkey({
+    isEnabled: instantReplay.enabled && !!currentMember,
+    keyCode: instantReplay.hotkey,
+    onPress: () => void saveReplayClip(),
+  });
+
+  // Subscribe as visitor to the selected party if not joined
   useEffect(() => {
     const subscribeVisitor = async () => {
-      if (!currentMember && !isSubscribed) {
+      if (!currentMember && visitorPartyId !== partyId) {
         try {
           const { subscribeAsVisitor } = usePartyStore.getState();
           await subscribeAsVisitor();
-          setIsSubscribed(true);
+          setVisitorPartyId(partyId);
 
           logger.debug('Subscribed as visitor', {
             component: 'PartyContext',
             action: 'subscribeVisitor',
+            metadata: { partyId },
           });
         } catch (error) {
           logger.error('Failed to subscribe as visitor', {
@@ -231,7 +704,7 @@ export function PartyProvider({ children }: { children: React.ReactNode }) {
     };
 
     void subscribeVisitor();
-  }, [currentMember, isSubscribed]);
+  }, [currentMember, visitorPartyId, partyId]);
 
   const { initializePresence, cleanupPresence, updatePresence } = usePartyStore();
 
@@ -255,9 +728,23 @@ export function PartyProvider({ children }: { children: React.ReactNode }) {
       const controller = new AbortController();
       joinControllerRef.current = controller;
 
+      // Member ids are bound to the authenticated user
+      if (member.id !== usePartyStore.getState().auth.user?.id) {
+        throw new Error('Sign in before joining the party');
+      }
+
+      // Bind the member to the party that drives both presence and voice, starting in their breakout if the host assigned one
+      const { breakoutAssignments: assignments, breakoutCount: count } = usePartyStore.getState().moderation;
+      const breakout = getMemberBreakout(assignments, count, member.id);
+      const partyMember: PartyMember = { ...member, breakout, partyId };
+      appliedBreakoutRef.current = breakout;
+
       try {
+        // Record membership so the party roster reflects the join
+        await PartyService.getInstance().upsertMembership(partyId, partyMember);
+
         // Initialize presence first
-        await initializePresence(member);
+        await initializePresence(partyMember);
 
         // Skip voice initialization in non-browser environment
         if (typeof window === 'undefined' || typeof self === 'undefined') {
@@ -279,9 +766,11 @@ export function PartyProvider({ children }: { children: React.ReactNode }) {
           throw new Error('Voice service not initialized');
         }
 
-        // Join voice channel with signal for potential abort
+        // Join the party's voice channel with signal for potential abort
         await Promise.race([
-          voiceService.join(CHANNEL_NAME, member.id),
+          voiceService.join(getVoiceChannelName(partyId, breakout), partyMember.id, {
+            inputDeviceId: usePartyStore.getState().voiceSettings.inputDeviceId ?? null,
+          }),
           new Promise((_, reject) => {
             controller.signal.addEventListener('abort', () =>
               reject(new Error('Join operation aborted'))
@@ -289,6 +778,14 @@ export function PartyProvider({ children }: { children: React.ReactNode }) {
           })
         ]);
 
+        // Rejoining does not lift a mute the host applied earlier
+        if (usePartyStore.getState().moderation.serverMutedIds.includes(partyMember.id)) {
+          await voiceService.setServerMuted(true);
+          setMuted(true);
+        }
+
+        await syncInstantReplay();
+
         logger.debug('[PartyChat][handleJoinParty] Join completed');
       } catch (error: unknown) {
         if (error instanceof Error && error.name !== 'AbortError') {
@@ -301,7 +798,7 @@ export function PartyProvider({ children }: { children: React.ReactNode }) {
         }
       }
     },
-    [initializePresence, getClient]
+    [initializePresence, getClient, partyId, setMuted, syncInstantReplay]
   );
 
   const leave = useCallback(async () => {
@@ -314,27 +811,203 @@ export function PartyProvider({ children }: { children: React.ReactNode }) {
       // Get voice client and cleanup voice connection first
       const client = await getClient();
       if (client) {
+        // Saves the file before the tracks it mixes go away
+        const { RecordingService } = await import('@/lib/services/recordingService');
+        await RecordingService.getInstance(client).stop();
+
+        // Unsaved replay audio is dropped; clips already saved stay in the library
+        const { ReplayService } = await import('@/lib/services/replayService');
+        await ReplayService.getInstance(client).stop();
+
+        const { SoundboardService } = await import('@/lib/services/soundboardService');
+        await SoundboardService.getInstance(client).stop();
+
+        const { VideoService } = await import('@/lib/services/videoService');
+        await VideoService.getInstance(client).stopLocalVideo();
+
+        const { WhisperService } = await import('@/lib/services/whisperService');
+        await WhisperService.getInstance(client).leaveAll();
+        whisperTargetRef.current = null;
+        setWhisperTargetId(null);
+
         const { VoiceService } = await import('@/lib/services/voiceService');
         const voiceService = VoiceService.getInstance(client);
         await voiceService.leave();
       }
+      setDeafened(false);
+      appliedBreakoutRef.current = null;
 
       // Then cleanup presence
+      const memberId = currentMember?.id;
       await cleanupPresence();
+
+      if (memberId) {
+        await PartyService.getInstance().endMembership(memberId);
+      }
     } catch (error) {
       throw error;
     }
-  }, [cleanupPresence, getClient]);
+  }, [cleanupPresence, getClient, currentMember, setDeafened]);
+
+  // Leave the current party when navigating to a different one
+  useEffect(() => {
+    if (currentMember?.partyId && currentMember.partyId !== partyId) {
+      logger.debug('Party changed while joined, leaving previous party', {
+        component: 'PartyContext',
+        action: 'partyChange',
+        metadata: { previousPartyId: currentMember.partyId, partyId },
+      });
+      void leave().catch((error) => {
+        logger.error('Failed to leave previous party', {
+          component: 'PartyContext',
+          action: 'partyChange',
+          metadata: { error },
+        });
+      });
+    }
+  }, [partyId, currentMember, leave]);
+
+  // Follow the host's breakout assignments: voice moves to the room's channel and presence tells the party where we are
+  const myBreakout = currentMember
+    ? getMemberBreakout(breakoutAssignments, breakoutCount, currentMember.id)
+    : null;
+
+  useEffect(() => {
+    if (!currentMember?.id || appliedBreakoutRef.current === myBreakout) return;
+    appliedBreakoutRef.current = myBreakout;
+
+    const moveToBreakout = async () => {
+      const client = await getClient();
+      if (!client) return;
+
+      // Cameras and shares were published to the old channel, so nobody in the new one would see them
+      const { VideoService } = await import('@/lib/services/videoService');
+      await VideoService.getInstance(client).stopLocalVideo();
+
+      const { VoiceService } = await import('@/lib/services/voiceService');
+      await VoiceService.getInstance(client).switchChannel(getVoiceChannelName(partyId, myBreakout));
+      await updatePresence({ breakout: myBreakout });
+
+      toast({
+        description: myBreakout ? `You were moved to Breakout ${myBreakout}` : 'You are back in the main channel',
+        duration: 2000,
+      });
+    };
+
+    void moveToBreakout().catch((error) => {
+      logger.error('Failed to move to breakout', {
+        component: 'PartyContext',
+        action: 'moveToBreakout',
+        metadata: { error, breakout: myBreakout },
+      });
+      toast({
+        description: 'Could not move you to your breakout room',
+        duration: 2000,
+      });
+    });
+  }, [myBreakout, currentMember?.id, partyId, getClient, updatePresence]);
+
+  // Roles and server mutes for the selected party
+  useEffect(() => {
+    void loadModeration();
+  }, [partyId, loadModeration]);
+
+  // Apply moderation actions that target the current member
+  useEffect(() => {
+    if (!currentMember) return;
+
+    const handleModeration = async (event: ModerationEvent) => {
+      if (event.memberId !== currentMember.id || event.partyId !== partyId) return;
+
+      try {
+        if (event.action === 'kick' || event.action === 'ban') {
+          await leave();
+          toast({
+            description:
+              event.action === 'ban'
+                ? 'You were banned from this party'
+                : 'You were removed from the party by the host',
+            duration: 4000,
+          });
+          return;
+        }
+
+        const client = await getClient();
+        if (!client) return;
+
+        if (event.action === 'stop_share') {
+          const { VideoService } = await import('@/lib/services/videoService');
+          await VideoService.getInstance(client).stopShare();
+          toast({
+            description: 'The host stopped your screen share',
+            duration: 2000,
+          });
+          return;
+        }
+
+        const { VoiceService } = await import('@/lib/services/voiceService');
+        const voiceService = VoiceService.getInstance(client);
+        await voiceService.setServerMuted(event.action === 'mute');
+        setMuted(voiceService.isMuted);
+
+        toast({
+          description:
+            event.action === 'mute' ? 'The host muted you for everyone' : 'The host unmuted you',
+          duration: 2000,
+        });
+      } catch (error) {
+        logger.error('Failed to apply moderation action', {
+          component: 'PartyContext',
+          action: 'handleModeration',
+          metadata: { error, event },
+        });
+      }
+    };
+
+    const listener = (event: ModerationEvent) => void handleModeration(event);
+    const moderationService = ModerationService.getInstance();
+    moderationService.addListener(listener);
+
+    return () => moderationService.removeListener(listener);
+  }, [currentMember, partyId, leave, getClient, setMuted]);
+
+  // Leave when the session ends or switches to a different account
+  useEffect(() => {
+    if (!currentMember || authStatus === 'loading') return;
+    if (authUser?.id === currentMember.id) return;
+
+    logger.debug('Auth user changed while joined, leaving party', {
+      component: 'PartyContext',
+      action: 'authChange',
+      metadata: { memberId: currentMember.id, userId: authUser?.id },
+    });
+    void leave().catch((error) => {
+      logger.error('Failed to leave after auth change', {
+        component: 'PartyContext',
+        action: 'authChange',
+        metadata: { error },
+      });
+    });
+  }, [authUser, authStatus, currentMember, leave]);
 
   const updateProfile = useCallback(
     async (profile: Partial<PartyMember>) => {
       try {
         await updatePresence(profile);
+
+        // Persist the edit to the account profile
+        if (currentMember) {
+          await saveProfile({
+            name: profile.name ?? currentMember.name,
+            avatar: profile.avatar ?? currentMember.avatar,
+            game: profile.game ?? currentMember.game,
+          });
+        }
       } catch (error) {
         throw error;
       }
     },
-    [updatePresence]
+    [updatePresence, saveProfile, currentMember]
   );
 
   const toggleMute = useCallback(async () => {
@@ -354,8 +1027,9 @@ export function PartyProvider({ children }: { children: React.ReactNode }) {
       const voiceService = VoiceService.getInstance(client);
       const newMuteState = await voiceService.toggleMute();
 
-      // Update the store with the new mute state
+      // Update the store with the new mute state; unmuting may also have undeafened
       setMuted(newMuteState);
+      setDeafened(voiceService.isDeafened);
 
       // Log state change for debugging
       logger.debug('Mute state updated in context', {
@@ -370,7 +1044,151 @@ export function PartyProvider({ children }: { children: React.ReactNode }) {
     } catch (error) {
       logger.error('Toggle mute error', { metadata: { error } });
     }
-  }, [getClient, setMuted, currentMember]);
+  }, [getClient, setMuted, setDeafened, currentMember]);
+
+  const toggleDeafen = useCallback(async () => {
+    try {
+      // Skip in non-browser environment
+      if (typeof window === 'undefined' || typeof self === 'undefined') {
+        return;
+      }
+
+      const client = await getClient();
+      if (!client) {
+        logger.error('Voice client not initialized');
+        return;
+      }
+
+      const { VoiceService } = await import('@/lib/services/voiceService');
+      const voiceService = VoiceService.getInstance(client);
+      const newDeafenState = await voiceService.toggleDeafen();
+
+      // Deafening mutes the mic and undeafening may restore it
+      setDeafened(newDeafenState);
+      setMuted(voiceService.isMuted);
+    } catch (error) {
+      logger.error('Toggle deafen error', {
+        component: 'PartyContext',
+        action: 'toggleDeafen',
+        metadata: { error },
+      });
+    }
+  }, [getClient, setMuted, setDeafened]);
+
+  // A direct call turns the party down and closes the party mic; both come back when it ends
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    const applyCallDucking = async () => {
+      const client = await getClient();
+      if (!client) return;
+
+      const { VoiceService } = await import('@/lib/services/voiceService');
+      await VoiceService.getInstance(client).setPartyDucked(isInCall);
+    };
+
+    void applyCallDucking().catch((error) => {
+      logger.error('Failed to apply call ducking', {
+        component: 'PartyContext',
+        action: 'applyCallDucking',
+        metadata: { error, isInCall },
+      });
+    });
+  }, [isInCall, getClient]);
+
+  const isScreenSharing = useMemo(() => screenShares.some((share) => share.isLocal), [screenShares]);
+
+  const toggleScreenShare = useCallback(async () => {
+    if (typeof window === 'undefined' || !currentMember) return;
+
+    try {
+      const client = await getClient();
+      const { VideoService } = await import('@/lib/services/videoService');
+      const videoService = VideoService.getInstance(client);
+
+      if (videoService.isSharing) {
+        await videoService.stopShare();
+      } else {
+        await videoService.startShare(currentMember.id);
+      }
+    } catch (error) {
+      logger.error('Toggle screen share error', {
+        component: 'PartyContext',
+        action: 'toggleScreenShare',
+        metadata: { error },
+      });
+      // Cancelling the browser's picker is not worth a toast
+      if (error instanceof Error && /permission|NotAllowed/i.test(error.message)) return;
+      toast({
+        description: error instanceof Error ? error.message : 'Could not share your screen',
+        duration: 2000,
+      });
+    }
+  }, [currentMember, getClient]);
+
+  const toggleRecording = useCallback(async () => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const client = await getClient();
+      const { RecordingService } = await import('@/lib/services/recordingService');
+      const recordingService = RecordingService.getInstance(client);
+
+      if (recordingService.isRecording) {
+        await recordingService.stop();
+      } else {
+        await recordingService.start();
+      }
+    } catch (error) {
+      logger.error('Toggle recording error', {
+        component: 'PartyContext',
+        action: 'toggleRecording',
+        metadata: { error },
+      });
+      toast({
+        description: error instanceof Error ? error.message : 'Could not start recording',
+        duration: 2000,
+      });
+    }
+  }, [getClient]);
+
+  // Hidden cameras are unsubscribed, so turning one off also saves bandwidth
+  const setCameraHidden = useCallback(async (memberId: string, isHidden: boolean) => {
+    if (typeof window === 'undefined') return;
+
+    const client = await getClient();
+    const { VideoService } = await import('@/lib/services/videoService');
+    VideoService.getInstance(client).setCameraHidden(memberId, isHidden);
+  }, [getClient]);
+
+  const isCameraOn = useMemo(() => cameraFeeds.some((feed) => feed.isLocal), [cameraFeeds]);
+
+  const toggleCamera = useCallback(async () => {
+    if (typeof window === 'undefined' || !currentMember) return;
+
+    try {
+      const client = await getClient();
+      const { VideoService } = await import('@/lib/services/videoService');
+      const videoService = VideoService.getInstance(client);
+
+      if (videoService.isCameraOn) {
+        await videoService.stopCamera();
+      } else {
+        await videoService.startCamera(currentMember.id);
+      }
+    } catch (error) {
+      logger.error('Toggle camera error', {
+        component: 'PartyContext',
+        action: 'toggleCamera',
+        metadata: { error },
+      });
+      const message = error instanceof Error ? error.message : 'Could not turn on your camera';
+      toast({
+        description: /permission|NotAllowed/i.test(message) ? 'Camera access was denied' : message,
+        duration: 2000,
+      });
+    }
+  }, [currentMember, getClient]);
 
   // Force re-render when isMuted changes
   useEffect(() => {
@@ -388,31 +1206,65 @@ export function PartyProvider({ children }: { children: React.ReactNode }) {
 
   const contextValue = useMemo<PartyContextType>(
     () => ({
+      cameraFeeds,
       currentMember,
       error: presenceError || partyError,
+      isCameraOn,
+      isDeafened,
       isLeaving: false,
       isMuted,
+      isScreenSharing,
       members: memoizedMembers,
       micPermissionDenied: false,
+      networkStats,
+      partyId,
       partyState,
+      screenShares,
       volumeLevels,
+      whisperTargetId,
       join,
       leave,
+      playSound,
+      saveReplayClip,
+      setCameraHidden,
+      startWhisper,
+      stopWhisper,
+      toggleCamera,
+      toggleDeafen,
       toggleMute,
+      toggleRecording,
+      toggleScreenShare,
       updateProfile,
       addTestMembers,
     }),
     [
+      cameraFeeds,
       currentMember,
       presenceError,
       partyError,
+      isCameraOn,
+      isDeafened,
       isMuted,
+      isScreenSharing,
       memoizedMembers,
+      networkStats,
+      partyId,
       partyState,
+      screenShares,
       volumeLevels,
+      whisperTargetId,
       join,
       leave,
+      playSound,
+      saveReplayClip,
+      setCameraHidden,
+      startWhisper,
+      stopWhisper,
+      toggleCamera,
+      toggleDeafen,
       toggleMute,
+      toggleRecording,
+      toggleScreenShare,
       updateProfile,
       addTestMembers,
     ]
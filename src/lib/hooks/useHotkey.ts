@@ -0,0 +1,30 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+import { isTypingTarget } from '@/lib/utils/keyboard';
+
+interface UseHotkeyOptions {
+  isEnabled: boolean;
+  keyCode: string;
+  onPress: () => void;
+}
+
+// Fires once per key press; holding the key does not repeat
+export function useHotkey({ isEnabled, keyCode, onPress }: UseHotkeyOptions) {
+  const onPressRef = useRef(onPress);
+  onPressRef.current = onPress;
+
+  useEffect(() => {
+    if (!isEnabled || typeof window === 'undefined') return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== keyCode || e.repeat || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      onPressRef.current();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEnabled, keyCode]);
+}
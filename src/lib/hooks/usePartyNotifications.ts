@@ -2,6 +2,7 @@ import { useEffect, useRef } from 'react';
 
 import { useParty } from '@/lib/contexts/partyContext';
 import { useToast } from '@/lib/hooks/use-toast';
+import { usePartyStore } from '@/lib/stores/partyStore';
 
 // Preload the achievement toast component
 const preloadAchievementToast = () => {
@@ -13,6 +14,7 @@ export function usePartyNotifications() {
   const { members, currentMember } = useParty();
   const prevMembersRef = useRef<typeof members>([]);
   const achievementShownRef = useRef<boolean>(false);
+  const voiceError = usePartyStore((state) => state.voice.error);
 
   useEffect(() => {
     // Get the set of member IDs from previous state
@@ -48,4 +50,14 @@ export function usePartyNotifications() {
     // Update previous members reference
     prevMembersRef.current = members;
   }, [members, toast, currentMember]);
+
+  // Surface background voice failures, e.g. token renewal
+  useEffect(() => {
+    if (!voiceError) return;
+
+    toast({
+      description: voiceError.message,
+      duration: 4000,
+    });
+  }, [voiceError, toast]);
 }
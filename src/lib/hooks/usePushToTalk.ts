@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+import { isTypingTarget } from '@/lib/utils/keyboard';
+
+interface UsePushToTalkOptions {
+  isEnabled: boolean;
+  keyCode: string;
+  onActiveChange: (isActive: boolean) => void;
+}
+
+export function usePushToTalk({ isEnabled, keyCode, onActiveChange }: UsePushToTalkOptions) {
+  const isActiveRef = useRef(false);
+  const onActiveChangeRef = useRef(onActiveChange);
+  onActiveChangeRef.current = onActiveChange;
+
+  useEffect(() => {
+    if (!isEnabled || typeof window === 'undefined') return;
+
+    const setActive = (isActive: boolean) => {
+      if (isActiveRef.current === isActive) return;
+      isActiveRef.current = isActive;
+      onActiveChangeRef.current(isActive);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== keyCode || e.repeat || isTypingTarget(e.target)) return;
+      setActive(true);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== keyCode) return;
+      setActive(false);
+    };
+
+    // Key up never arrives once the window loses focus
+    const handleBlur = () => setActive(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      setActive(false);
+    };
+  }, [isEnabled, keyCode]);
+}
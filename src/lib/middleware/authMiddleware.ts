@@ -0,0 +1,144 @@
+import type { AuthUser, OAuthProvider, Profile } from '@/lib/types/auth';
+import type { AuthSlice } from '@/lib/types/party/middleware';
+import type { Store } from '@/lib/types/party/store';
+
+import { StateCreator } from 'zustand';
+
+import { logger } from '@/lib/logger';
+import { AuthService } from '@/lib/services/authService';
+
+// Get auth service instance
+const authService = AuthService.getInstance();
+
+export const createAuthMiddleware = (): StateCreator<Store, [], [], AuthSlice> => (set, get) => {
+  const setAuthError = (error: unknown) =>
+    set((state: Store) => ({
+      ...state,
+      auth: {
+        ...state.auth,
+        error: error instanceof Error ? error : new Error(String(error)),
+      },
+    }));
+
+  // Sync the user and their persisted profile into the store
+  const applyUser = async (user: AuthUser | null) => {
+    set((state: Store) => ({
+      ...state,
+      auth: {
+        ...state.auth,
+        user,
+        status: user ? 'signed_in' : 'signed_out',
+        profile: user && state.auth.profile?.id === user.id ? state.auth.profile : null,
+        error: null,
+      },
+    }));
+
+    if (!user) return;
+
+    try {
+      const profile = await authService.getProfile(user.id);
+      set((state: Store) => {
+        // User changed while the profile was loading
+        if (state.auth.user?.id !== user.id) return state;
+        return {
+          ...state,
+          auth: {
+            ...state.auth,
+            profile,
+          },
+        };
+      });
+    } catch (error) {
+      setAuthError(error);
+    }
+  };
+
+  return {
+    // Initial auth state
+    auth: {
+      user: null,
+      profile: null,
+      status: 'loading',
+      error: null,
+    },
+
+    initializeAuth: async () => {
+      try {
+        const user = await authService.initialize();
+        authService.addListener((changedUser) => void applyUser(changedUser));
+        await applyUser(user);
+
+        logger.debug('Initialized auth', {
+          component: 'authMiddleware',
+          action: 'initializeAuth',
+          metadata: { userId: user?.id, isAnonymous: user?.isAnonymous },
+        });
+      } catch (error) {
+        set((state: Store) => ({
+          ...state,
+          auth: {
+            ...state.auth,
+            status: 'signed_out',
+          },
+        }));
+        setAuthError(error);
+      }
+    },
+
+    ensureAuthUser: async () => {
+      const user = await authService.ensureUser();
+      if (get().auth.user?.id !== user.id) {
+        await applyUser(user);
+      }
+      return user;
+    },
+
+    signInWithMagicLink: async (email: string) => {
+      try {
+        await authService.signInWithMagicLink(email);
+      } catch (error) {
+        setAuthError(error);
+        throw error;
+      }
+    },
+
+    signInWithOAuth: async (provider: OAuthProvider) => {
+      try {
+        await authService.signInWithOAuth(provider);
+      } catch (error) {
+        setAuthError(error);
+        throw error;
+      }
+    },
+
+    signOut: async () => {
+      try {
+        await authService.signOut();
+      } catch (error) {
+        setAuthError(error);
+        throw error;
+      }
+    },
+
+    saveProfile: async (profile: Omit<Profile, 'id'>) => {
+      try {
+        const user = await get().ensureAuthUser();
+        const saved = await authService.saveProfile({ ...profile, id: user.id });
+
+        set((state: Store) => ({
+          ...state,
+          auth: {
+            ...state.auth,
+            profile: saved,
+            error: null,
+          },
+        }));
+
+        return saved;
+      } catch (error) {
+        setAuthError(error);
+        throw error;
+      }
+    },
+  };
+};
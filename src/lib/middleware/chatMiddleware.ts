@@ -0,0 +1,136 @@
+import type { PartyMessage } from '@/lib/types/party/chat';
+import type { ChatSlice } from '@/lib/types/party/middleware';
+import type { Store } from '@/lib/types/party/store';
+
+import { StateCreator } from 'zustand';
+
+import { logger } from '@/lib/logger';
+import { ChatService } from '@/lib/services/chatService';
+
+const MAX_CHAT_MESSAGES = 200;
+
+// Get chat service instance
+const chatService = ChatService.getInstance();
+
+// Merge messages by id, keeping chronological order and a bounded history
+const mergeMessages = (existing: PartyMessage[], incoming: PartyMessage[]): PartyMessage[] => {
+  const byId = new Map(existing.map((message) => [message.id, message]));
+  incoming.forEach((message) => byId.set(message.id, message));
+
+  return Array.from(byId.values())
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .slice(-MAX_CHAT_MESSAGES);
+};
+
+export const createChatMiddleware = (): StateCreator<Store, [], [], ChatSlice> => (set, get) => {
+  // Route realtime inserts from the party channel into the store
+  chatService.addListener((message) => get().addChatMessage(message));
+
+  return {
+    // Initial chat state
+    chat: {
+      messages: [],
+      unreadCount: 0,
+      isOpen: true,
+      error: null,
+    },
+
+    addChatMessage: (message: PartyMessage) =>
+      set((state: Store) => {
+        // Ignore late deliveries from a party we already switched away from
+        if (message.party_id !== state.party.id) return state;
+        if (state.chat.messages.some((m) => m.id === message.id)) return state;
+
+        const isOwnMessage = message.member_id === state.presence.currentMember?.id;
+
+        return {
+          ...state,
+          chat: {
+            ...state.chat,
+            messages: mergeMessages(state.chat.messages, [message]),
+            unreadCount:
+              state.chat.isOpen || isOwnMessage ? state.chat.unreadCount : state.chat.unreadCount + 1,
+          },
+        };
+      }),
+
+    loadChatHistory: async () => {
+      const partyId = get().party.id;
+
+      try {
+        const history = await chatService.loadHistory(partyId);
+
+        set((state: Store) => {
+          // Party changed while loading
+          if (state.party.id !== partyId) return state;
+
+          const liveMessages = state.chat.messages.filter((m) => m.party_id === partyId);
+
+          return {
+            ...state,
+            chat: {
+              ...state.chat,
+              messages: mergeMessages(liveMessages, history),
+              unreadCount: 0,
+              error: null,
+            },
+          };
+        });
+
+        logger.debug('Loaded chat history', {
+          component: 'chatMiddleware',
+          action: 'loadChatHistory',
+          metadata: { partyId, count: history.length },
+        });
+      } catch (error) {
+        set((state: Store) => ({
+          ...state,
+          chat: {
+            ...state.chat,
+            error: error instanceof Error ? error : new Error(String(error)),
+          },
+        }));
+      }
+    },
+
+    sendChatMessage: async (content: string) => {
+      const { party, presence } = get();
+
+      if (!presence.currentMember) {
+        throw new Error('Join the party to send messages');
+      }
+
+      try {
+        await chatService.sendMessage(party.id, presence.currentMember, content);
+
+        set((state: Store) => ({
+          ...state,
+          chat: {
+            ...state.chat,
+            error: null,
+          },
+        }));
+      } catch (error) {
+        set((state: Store) => ({
+          ...state,
+          chat: {
+            ...state.chat,
+            error: error instanceof Error ? error : new Error(String(error)),
+          },
+        }));
+        throw error;
+      }
+    },
+
+    setChatOpen: (isOpen: boolean) =>
+      set((state: Store) => ({
+        ...state,
+        chat: {
+          ...state.chat,
+          isOpen,
+          // Opening the chat marks everything as read
+          unreadCount: isOpen ? 0 : state.chat.unreadCount,
+        },
+      })),
+  };
+};
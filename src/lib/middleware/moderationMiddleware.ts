@@ -0,0 +1,106 @@
+import type { ModerationSlice } from '@/lib/types/party/middleware';
+import type { ModerationEvent, PartySettingsUpdate } from '@/lib/types/party/party';
+import type { Store } from '@/lib/types/party/store';
+
+import { StateCreator } from 'zustand';
+
+import { logger } from '@/lib/logger';
+import { ModerationService } from '@/lib/services/moderationService';
+import { PresenceService } from '@/lib/services/presenceService';
+
+// Get moderation service instance
+const moderationService = ModerationService.getInstance();
+
+export const createModerationMiddleware =
+  (): StateCreator<Store, [], [], ModerationSlice> => (set, get) => {
+    // Events reach listeners only after they were verified against the database
+    moderationService.addListener((event) => get().applyModerationEvent(event));
+    moderationService.addSettingsListener((settings) => get().applyPartySettings(settings));
+
+    return {
+      // Initial moderation state
+      moderation: {
+        roles: {},
+        serverMutedIds: [],
+        soundboardEnabled: true,
+        breakoutCount: 0,
+        breakoutAssignments: {},
+        error: null,
+      },
+
+      applyModerationEvent: (event: ModerationEvent) => {
+        if (event.partyId !== get().party.id) return;
+
+        // Stopping a screen share is handled by the sharer and leaves no party state
+        if (event.action === 'stop_share') return;
+
+        set((state: Store) => {
+          const serverMutedIds = state.moderation.serverMutedIds.filter((id) => id !== event.memberId);
+
+          return {
+            ...state,
+            moderation: {
+              ...state.moderation,
+              serverMutedIds: event.action === 'mute' ? [...serverMutedIds, event.memberId] : serverMutedIds,
+            },
+          };
+        });
+
+        if (event.action === 'kick' || event.action === 'ban') {
+          PresenceService.getInstance().evictMember(event.memberId);
+        }
+
+        logger.debug('Applied moderation event', {
+          component: 'moderationMiddleware',
+          action: 'applyModerationEvent',
+          metadata: { event },
+        });
+      },
+
+      applyPartySettings: ({ partyId, ...settings }: PartySettingsUpdate) => {
+        if (partyId !== get().party.id) return;
+
+        set((state: Store) => ({
+          ...state,
+          moderation: {
+            ...state.moderation,
+            ...settings,
+          },
+        }));
+      },
+
+      loadModeration: async () => {
+        const partyId = get().party.id;
+
+        try {
+          const { breakoutAssignments, breakoutCount, roles, serverMutedIds, soundboardEnabled } =
+            await moderationService.loadPartyModeration(partyId);
+
+          set((state: Store) => {
+            // Party changed while loading
+            if (state.party.id !== partyId) return state;
+
+            return {
+              ...state,
+              moderation: {
+                roles,
+                serverMutedIds,
+                soundboardEnabled,
+                breakoutCount,
+                breakoutAssignments,
+                error: null,
+              },
+            };
+          });
+        } catch (error) {
+          set((state: Store) => ({
+            ...state,
+            moderation: {
+              ...state.moderation,
+              error: error instanceof Error ? error : new Error(String(error)),
+            },
+          }));
+        }
+      },
+    };
+  };
@@ -5,18 +5,35 @@ import type { Store } from '@/lib/types/party/store';
 
 import { StateCreator } from 'zustand';
 
+import { MAIN_PARTY_ID } from '@/lib/constants';
+
 export const createPartyMiddleware =
   (
-    initializePresence: (member: PartyMember) => Promise<void>,
+    initializePresence: (member: PartyMember, partyId: string) => Promise<void>,
     cleanupPresence: () => Promise<void>
   ): StateCreator<Store, [], [], PartySlice> =>
-  (set) => ({
+  (set, get) => ({
     // Initial party state
     party: {
+      id: MAIN_PARTY_ID,
       status: 'idle',
       error: null,
     },
 
+    // Party selection actions
+    setPartyId: (partyId: string) =>
+      set((state: Store) => {
+        if (state.party.id === partyId) return state;
+        return {
+          ...state,
+          party: {
+            ...state.party,
+            id: partyId,
+            error: null,
+          },
+        };
+      }),
+
     // Party status actions
     setPartyStatus: (status: PartyStatus) =>
       set((state: Store) => ({
@@ -54,8 +71,8 @@ export const createPartyMiddleware =
           },
         }));
 
-        // Initialize presence and wait for connection
-        await initializePresence(member);
+        // Initialize presence for the selected party and wait for connection
+        await initializePresence(member, get().party.id);
 
         // Set joined state after successful presence initialization
         set((state: Store) => ({
@@ -10,7 +10,7 @@ import { PresenceService } from '@/lib/services/presenceService';
 // Get presence service instance
 const presenceService = PresenceService.getInstance();
 
-export const createPresenceMiddleware = (): StateCreator<Store, [], [], PresenceSlice> => (set) => {
+export const createPresenceMiddleware = (): StateCreator<Store, [], [], PresenceSlice> => (set, get) => {
   // Store presence listener for cleanup
   let presenceListener: ((members: PartyMember[]) => void) | null = null;
 
@@ -63,8 +63,8 @@ export const createPresenceMiddleware = (): StateCreator<Store, [], [], Presence
           },
         }));
 
-        // Track member and wait for result
-        const result = await presenceService.trackMember(member);
+        // Track member in the selected party and wait for result
+        const result = await presenceService.trackMember(member, get().party.id);
 
         if ('error' in result) {
           throw result.error;
@@ -103,8 +103,8 @@ export const createPresenceMiddleware = (): StateCreator<Store, [], [], Presence
 
     subscribeAsVisitor: async () => {
       try {
-        // Subscribe to presence updates first
-        await PresenceService.subscribeAsVisitor();
+        // Subscribe to presence updates for the selected party first
+        await PresenceService.subscribeAsVisitor(get().party.id);
 
         // Set up presence listener after successful subscription
         setupPresenceListener();
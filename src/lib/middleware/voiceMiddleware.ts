@@ -4,7 +4,13 @@ import type { Store } from '@/lib/types/party/store';
 
 import { StateCreator } from 'zustand';
 
-import { VOICE_CONSTANTS } from '@/lib/constants/voice';
+import {
+  DEFAULT_AUDIO_PROCESSING,
+  DEFAULT_CAMERA_PRESET,
+  DEFAULT_INSTANT_REPLAY,
+  DEFAULT_SPATIAL_AUDIO,
+  VOICE_CONSTANTS,
+} from '@/lib/constants/voice';
 import { logger } from '@/lib/logger';
 
 export const createVoiceMiddleware = (): StateCreator<Store, [], [], VoiceSlice> => (set) => ({
@@ -12,12 +18,31 @@ export const createVoiceMiddleware = (): StateCreator<Store, [], [], VoiceSlice>
   voice: {
     status: 'idle',
     isMuted: false,
+    isDeafened: false,
+    isInCall: false,
+    isRecording: false,
+    isReplayBuffering: false,
     volume: 0,
     isSpeaking: false,
+    linkState: 'connected',
     remoteUsers: new Set(),
     error: null,
   },
 
+  // Persisted voice preferences
+  voiceSettings: {
+    audioProcessing: DEFAULT_AUDIO_PROCESSING,
+    cameraPreset: DEFAULT_CAMERA_PRESET,
+    inputDeviceId: null,
+    inputMode: 'open_mic',
+    instantReplay: DEFAULT_INSTANT_REPLAY,
+    outputDeviceId: null,
+    pushToTalkKey: VOICE_CONSTANTS.DEFAULT_PUSH_TO_TALK_KEY,
+    soundboardMuted: false,
+    spatialAudio: DEFAULT_SPATIAL_AUDIO,
+    videoLayout: 'list',
+  },
+
   // Voice status actions
   setVoiceStatus: (status: VoiceConnectionStatus) =>
     set((state: Store) => {
@@ -67,6 +92,26 @@ export const createVoiceMiddleware = (): StateCreator<Store, [], [], VoiceSlice>
       };
     }),
 
+  // Deafen actions
+  setDeafened: (isDeafened) =>
+    set((state: Store) => {
+      if (state.voice.isDeafened === isDeafened) return state;
+
+      logger.debug('Deafen state changed', {
+        component: 'voiceMiddleware',
+        action: 'setDeafened',
+        metadata: { isDeafened },
+      });
+
+      return {
+        ...state,
+        voice: {
+          ...state.voice,
+          isDeafened,
+        },
+      };
+    }),
+
   // Volume actions
   setVolume: (volume) => {
     // Ensure volume is in 0-1 range
@@ -126,6 +171,55 @@ export const createVoiceMiddleware = (): StateCreator<Store, [], [], VoiceSlice>
     });
   },
 
+  // Local capture of party audio
+  setVoiceRecording: (isRecording) =>
+    set((state: Store) => ({
+      ...state,
+      voice: {
+        ...state.voice,
+        isRecording,
+      },
+    })),
+
+  setVoiceReplayBuffering: (isReplayBuffering) =>
+    set((state: Store) => ({
+      ...state,
+      voice: {
+        ...state.voice,
+        isReplayBuffering,
+      },
+    })),
+
+  // Direct calls run beside the party voice connection
+  setVoiceInCall: (isInCall) =>
+    set((state: Store) => ({
+      ...state,
+      voice: {
+        ...state.voice,
+        isInCall,
+      },
+    })),
+
+  // Connection drop and resume
+  setVoiceLinkState: (linkState) =>
+    set((state: Store) => {
+      if (state.voice.linkState === linkState) return state;
+
+      logger.debug('Voice link state changed', {
+        component: 'voiceMiddleware',
+        action: 'setVoiceLinkState',
+        metadata: { previousLinkState: state.voice.linkState, linkState },
+      });
+
+      return {
+        ...state,
+        voice: {
+          ...state.voice,
+          linkState,
+        },
+      };
+    }),
+
   // Remote users actions
   updateRemoteUsers: (users) =>
     set((state: Store) => ({
@@ -147,6 +241,111 @@ export const createVoiceMiddleware = (): StateCreator<Store, [], [], VoiceSlice>
       },
     })),
 
+  // Voice settings actions
+  setVoiceInputMode: (inputMode) =>
+    set((state: Store) => ({
+      ...state,
+      voiceSettings: {
+        ...state.voiceSettings,
+        inputMode,
+      },
+    })),
+
+  // Older persisted settings predate audio processing, so merge over the defaults
+  setAudioProcessing: (settings) =>
+    set((state: Store) => ({
+      ...state,
+      voiceSettings: {
+        ...state.voiceSettings,
+        audioProcessing: {
+          ...DEFAULT_AUDIO_PROCESSING,
+          ...state.voiceSettings.audioProcessing,
+          ...settings,
+        },
+      },
+    })),
+
+  setCameraPreset: (cameraPreset) =>
+    set((state: Store) => ({
+      ...state,
+      voiceSettings: {
+        ...state.voiceSettings,
+        cameraPreset,
+      },
+    })),
+
+  setInputDeviceId: (inputDeviceId) =>
+    set((state: Store) => ({
+      ...state,
+      voiceSettings: {
+        ...state.voiceSettings,
+        inputDeviceId,
+      },
+    })),
+
+  setInstantReplay: (settings) =>
+    set((state: Store) => ({
+      ...state,
+      voiceSettings: {
+        ...state.voiceSettings,
+        instantReplay: {
+          ...DEFAULT_INSTANT_REPLAY,
+          ...state.voiceSettings.instantReplay,
+          ...settings,
+        },
+      },
+    })),
+
+  setOutputDeviceId: (outputDeviceId) =>
+    set((state: Store) => ({
+      ...state,
+      voiceSettings: {
+        ...state.voiceSettings,
+        outputDeviceId,
+      },
+    })),
+
+  setPushToTalkKey: (pushToTalkKey) =>
+    set((state: Store) => ({
+      ...state,
+      voiceSettings: {
+        ...state.voiceSettings,
+        pushToTalkKey,
+      },
+    })),
+
+  setSoundboardMuted: (soundboardMuted) =>
+    set((state: Store) => ({
+      ...state,
+      voiceSettings: {
+        ...state.voiceSettings,
+        soundboardMuted,
+      },
+    })),
+
+  // Same merge as audio processing; spatial settings arrived after the first persisted shape
+  setSpatialAudio: (settings) =>
+    set((state: Store) => ({
+      ...state,
+      voiceSettings: {
+        ...state.voiceSettings,
+        spatialAudio: {
+          ...DEFAULT_SPATIAL_AUDIO,
+          ...state.voiceSettings.spatialAudio,
+          ...settings,
+        },
+      },
+    })),
+
+  setVideoLayout: (videoLayout) =>
+    set((state: Store) => ({
+      ...state,
+      voiceSettings: {
+        ...state.voiceSettings,
+        videoLayout,
+      },
+    })),
+
   // Speaking state actions
   setSpeaking: (isSpeaking) =>
     set((state: Store) => {
@@ -0,0 +1,113 @@
+import { logger } from '@/lib/logger';
+
+const KICKING_RULE_URL = 'https://api.agora.io/dev/v1/kicking-rule';
+const LOG_CONTEXT = { component: 'server/agoraRest' };
+
+// Agora RTC privileges that a kicking rule can revoke
+export type AgoraRulePrivilege = 'join_channel' | 'publish_audio' | 'publish_video';
+
+interface KickingRuleOptions {
+  channelName: string;
+  minutes: number;
+  privileges: AgoraRulePrivilege[];
+  uid: number;
+}
+
+const getCredentials = () => {
+  const appId = process.env.NEXT_PUBLIC_AGORA_APP_ID;
+  const customerId = process.env.AGORA_CUSTOMER_ID;
+  const customerSecret = process.env.AGORA_CUSTOMER_SECRET;
+
+  if (!appId || !customerId || !customerSecret) {
+    return null;
+  }
+
+  return {
+    appId,
+    authorization: `Basic ${Buffer.from(`${customerId}:${customerSecret}`).toString('base64')}`,
+  };
+};
+
+// Revoke privileges for a uid in a channel; returns the rule id, or null when unavailable
+export async function createKickingRule({
+  channelName,
+  minutes,
+  privileges,
+  uid,
+}: KickingRuleOptions): Promise<number | null> {
+  const credentials = getCredentials();
+  if (!credentials) {
+    logger.warn('Agora RESTful credentials not configured, skipping kicking rule', {
+      ...LOG_CONTEXT,
+      action: 'createKickingRule',
+    });
+    return null;
+  }
+
+  try {
+    const response = await fetch(KICKING_RULE_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: credentials.authorization,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        appid: credentials.appId,
+        cname: channelName,
+        uid,
+        time: minutes,
+        privileges,
+      }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || result.status !== 'success') {
+      logger.error('Agora kicking rule rejected', {
+        ...LOG_CONTEXT,
+        action: 'createKickingRule',
+        metadata: { status: response.status, result, channelName, uid },
+      });
+      return null;
+    }
+
+    return typeof result.id === 'number' ? result.id : null;
+  } catch (error) {
+    logger.error('Failed to create Agora kicking rule', {
+      ...LOG_CONTEXT,
+      action: 'createKickingRule',
+      metadata: { error, channelName, uid },
+    });
+    return null;
+  }
+}
+
+export async function deleteKickingRule(ruleId: number): Promise<void> {
+  const credentials = getCredentials();
+  if (!credentials) return;
+
+  try {
+    const response = await fetch(KICKING_RULE_URL, {
+      method: 'DELETE',
+      headers: {
+        Authorization: credentials.authorization,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ appid: credentials.appId, id: ruleId }),
+    });
+
+    if (!response.ok) {
+      logger.warn('Agora kicking rule removal rejected', {
+        ...LOG_CONTEXT,
+        action: 'deleteKickingRule',
+        metadata: { status: response.status, ruleId },
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to delete Agora kicking rule', {
+      ...LOG_CONTEXT,
+      action: 'deleteKickingRule',
+      metadata: { error, ruleId },
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import type { NextRequest } from 'next/server';
+
+import { createClient } from '@supabase/supabase-js';
+
+import { logger } from '@/lib/logger';
+
+export interface RequestAuth {
+  // Supabase client acting as the caller, so RLS applies to every query
+  client: SupabaseClient;
+  user: User;
+}
+
+// Resolve the caller from the `Authorization: Bearer <access token>` header
+export async function getRequestAuth(req: NextRequest): Promise<RequestAuth | null> {
+  const header = req.headers.get('authorization');
+  const accessToken = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : null;
+
+  if (!accessToken) {
+    return null;
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    logger.error('Supabase credentials not configured', {
+      component: 'server/auth',
+      action: 'getRequestAuth',
+    });
+    return null;
+  }
+
+  const client = createClient(supabaseUrl, supabaseKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+    global: {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    },
+  });
+
+  const { data, error } = await client.auth.getUser(accessToken);
+
+  if (error || !data.user) {
+    logger.warn('Rejected request with invalid session', {
+      component: 'server/auth',
+      action: 'getRequestAuth',
+      metadata: { error: error?.message },
+    });
+    return null;
+  }
+
+  return { client, user: data.user };
+}
@@ -0,0 +1,46 @@
+import type { InvitePreview } from '@/lib/types/party/party';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface InviteRecord {
+  code: string;
+  expires_at: string | null;
+  max_uses: number | null;
+  members_only: boolean;
+  parties: { is_active: boolean; name: string } | null;
+  party_id: string;
+  use_count: number;
+}
+
+export type InviteStatus = 'expired' | 'used_up' | 'valid';
+
+const INVITE_COLUMNS = 'code, party_id, expires_at, max_uses, use_count, members_only, parties(name, is_active)';
+
+export async function loadInvite(admin: SupabaseClient, code: string): Promise<InviteRecord | null> {
+  const { data, error } = await admin
+    .from('party_invites')
+    .select(INVITE_COLUMNS)
+    .eq('code', code)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as InviteRecord | null;
+}
+
+// An ended party makes its invites as dead as an expired one
+export function getInviteStatus(invite: InviteRecord): InviteStatus {
+  if (!invite.parties?.is_active) return 'expired';
+  if (invite.expires_at && new Date(invite.expires_at).getTime() <= Date.now()) return 'expired';
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) return 'used_up';
+  return 'valid';
+}
+
+export function toInvitePreview(invite: InviteRecord): InvitePreview {
+  return {
+    code: invite.code,
+    expiresAt: invite.expires_at,
+    membersOnly: invite.members_only,
+    partyId: invite.party_id,
+    partyName: invite.parties?.name ?? 'Party',
+    usesLeft: invite.max_uses === null ? null : Math.max(invite.max_uses - invite.use_count, 0),
+  };
+}
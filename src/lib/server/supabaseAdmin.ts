@@ -0,0 +1,28 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { createClient } from '@supabase/supabase-js';
+
+let adminClient: SupabaseClient | null = null;
+
+// Service-role client for server routes that write past RLS after checking permissions
+export function getAdminClient(): SupabaseClient | null {
+  if (adminClient) {
+    return adminClient;
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    return null;
+  }
+
+  adminClient = createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+
+  return adminClient;
+}
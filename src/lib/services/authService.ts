@@ -0,0 +1,217 @@
+import type { AuthListener, AuthUser, OAuthProvider, Profile } from '@/lib/types/auth';
+import type { User } from '@supabase/supabase-js';
+
+import { logger } from '@/lib/logger';
+import { supabase } from '@/lib/supabase';
+
+const LOG_CONTEXT = { component: 'AuthService' };
+
+const toAuthUser = (user: User | null | undefined): AuthUser | null =>
+  user
+    ? {
+        id: user.id,
+        email: user.email ?? null,
+        isAnonymous: user.is_anonymous ?? false,
+      }
+    : null;
+
+export class AuthService {
+  private listeners: Set<AuthListener> = new Set();
+  private currentUser: AuthUser | null = null;
+  private isInitialized = false;
+
+  private static instance: AuthService | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): AuthService {
+    if (!AuthService.instance) {
+      AuthService.instance = new AuthService();
+    }
+    return AuthService.instance;
+  }
+
+  // Restore the persisted session and start tracking auth changes
+  public async initialize(): Promise<AuthUser | null> {
+    if (this.isInitialized) {
+      return this.currentUser;
+    }
+    this.isInitialized = true;
+
+    const { data, error } = await supabase.auth.getSession();
+    if (error) {
+      logger.warn('Failed to restore auth session', {
+        ...LOG_CONTEXT,
+        action: 'initialize',
+        metadata: { error },
+      });
+    }
+    this.currentUser = toAuthUser(data.session?.user);
+
+    supabase.auth.onAuthStateChange((event, session) => {
+      const user = toAuthUser(session?.user);
+      if (user?.id === this.currentUser?.id && user?.email === this.currentUser?.email) return;
+
+      logger.debug('Auth state changed', {
+        ...LOG_CONTEXT,
+        action: 'authStateChange',
+        metadata: { event, userId: user?.id },
+      });
+
+      this.currentUser = user;
+      this.notifyListeners();
+    });
+
+    return this.currentUser;
+  }
+
+  public getCurrentUser(): AuthUser | null {
+    return this.currentUser;
+  }
+
+  // Bearer token for calls to our server routes
+  public async getAccessToken(): Promise<string | null> {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.access_token ?? null;
+  }
+
+  // Return the signed-in user, creating an anonymous session when there is none
+  public async ensureUser(): Promise<AuthUser> {
+    if (this.currentUser) {
+      return this.currentUser;
+    }
+    return this.signInAnonymously();
+  }
+
+  public async signInAnonymously(): Promise<AuthUser> {
+    const { data, error } = await supabase.auth.signInAnonymously();
+    const user = toAuthUser(data.user);
+
+    if (error || !user) {
+      logger.error('Anonymous sign-in failed', {
+        ...LOG_CONTEXT,
+        action: 'signInAnonymously',
+        metadata: { error },
+      });
+      throw new Error('Failed to sign in');
+    }
+
+    this.setCurrentUser(user);
+    return user;
+  }
+
+  // Anonymous users keep their id by attaching the email to the existing account
+  public async signInWithMagicLink(email: string): Promise<void> {
+    const redirectTo = window.location.href;
+    const { error } = this.currentUser?.isAnonymous
+      ? await supabase.auth.updateUser({ email }, { emailRedirectTo: redirectTo })
+      : await supabase.auth.signInWithOtp({ email, options: { emailRedirectTo: redirectTo } });
+
+    if (error) {
+      logger.error('Magic link request failed', {
+        ...LOG_CONTEXT,
+        action: 'signInWithMagicLink',
+        metadata: { error },
+      });
+      throw new Error('Failed to send magic link');
+    }
+  }
+
+  // Anonymous users link the provider so their member id survives the upgrade
+  public async signInWithOAuth(provider: OAuthProvider): Promise<void> {
+    const options = { redirectTo: window.location.href };
+    const { error } = this.currentUser?.isAnonymous
+      ? await supabase.auth.linkIdentity({ provider, options })
+      : await supabase.auth.signInWithOAuth({ provider, options });
+
+    if (error) {
+      logger.error('OAuth sign-in failed', {
+        ...LOG_CONTEXT,
+        action: 'signInWithOAuth',
+        metadata: { error, provider },
+      });
+      throw new Error(`Failed to sign in with ${provider}`);
+    }
+  }
+
+  public async signOut(): Promise<void> {
+    const { error } = await supabase.auth.signOut();
+
+    if (error) {
+      logger.error('Sign out failed', {
+        ...LOG_CONTEXT,
+        action: 'signOut',
+        metadata: { error },
+      });
+      throw new Error('Failed to sign out');
+    }
+
+    this.setCurrentUser(null);
+  }
+
+  public async getProfile(userId: string): Promise<Profile | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, name, avatar, game')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to load profile', {
+        ...LOG_CONTEXT,
+        action: 'getProfile',
+        metadata: { error, userId },
+      });
+      throw new Error('Failed to load profile');
+    }
+
+    return data;
+  }
+
+  public async saveProfile(profile: Profile): Promise<Profile> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .upsert(profile)
+      .select('id, name, avatar, game')
+      .single();
+
+    if (error || !data) {
+      logger.error('Failed to save profile', {
+        ...LOG_CONTEXT,
+        action: 'saveProfile',
+        metadata: { error, userId: profile.id },
+      });
+      throw new Error('Failed to save profile');
+    }
+
+    return data;
+  }
+
+  public addListener(listener: AuthListener): void {
+    this.listeners.add(listener);
+  }
+
+  public removeListener(listener: AuthListener): void {
+    this.listeners.delete(listener);
+  }
+
+  private setCurrentUser(user: AuthUser | null): void {
+    if (user?.id === this.currentUser?.id && user?.email === this.currentUser?.email) return;
+    this.currentUser = user;
+    this.notifyListeners();
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(this.currentUser);
+      } catch (error) {
+        logger.error('Auth listener failed', {
+          ...LOG_CONTEXT,
+          action: 'notifyListeners',
+          metadata: { error },
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,417 @@
+import type { AgoraTokenResponse } from '@/lib/types/agora';
+import type {
+  CallEndListener,
+  CallEndReason,
+  CallListener,
+  CallMicrophoneSettings,
+  CallPeer,
+  CallSignal,
+  CallSignalType,
+  DirectCall,
+} from '@/lib/types/call';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { IAgoraRTCClient, IMicrophoneAudioTrack } from 'agora-rtc-sdk-ng';
+
+import AgoraRTC from 'agora-rtc-sdk-ng';
+
+import { CALL_CHANNEL_PREFIX } from '@/lib/constants';
+import { DEFAULT_AUDIO_PROCESSING, VOICE_CONSTANTS } from '@/lib/constants/voice';
+import { logger } from '@/lib/logger';
+import { PresenceService } from '@/lib/services/presenceService';
+import { supabase } from '@/lib/supabase';
+import { fetchAgoraToken } from '@/lib/utils/agoraToken';
+
+const LOG_CONTEXT = { component: 'CallService' };
+const CALLS_TABLE = 'direct_calls';
+const CALL_SIGNAL_EVENT = 'direct_call';
+
+interface CallRow {
+  callee_id: string;
+  caller_id: string;
+  status: 'active' | 'ended' | 'ringing';
+}
+
+// One-to-one calls on their own Agora client, so the party connection stays up underneath
+export class CallService {
+  private static instance: CallService | null = null;
+  private self: CallPeer | null = null;
+  private systemChannel: RealtimeChannel | null = null;
+  private call: DirectCall | null = null;
+  private client: IAgoraRTCClient | null = null;
+  private micTrack: IMicrophoneAudioTrack | null = null;
+  private ringTimeout: ReturnType<typeof setTimeout> | null = null;
+  private callCallback: CallListener | null = null;
+  private endCallback: CallEndListener | null = null;
+  private microphone: CallMicrophoneSettings = { audioProcessing: DEFAULT_AUDIO_PROCESSING, inputDeviceId: null };
+
+  private constructor() {}
+
+  public static getInstance(): CallService {
+    if (!CallService.instance) {
+      CallService.instance = new CallService();
+    }
+    return CallService.instance;
+  }
+
+  public get currentCall(): DirectCall | null {
+    return this.call;
+  }
+
+  public onCallChange(callback: CallListener | null): void {
+    this.callCallback = callback;
+  }
+
+  public onCallEnd(callback: CallEndListener | null): void {
+    this.endCallback = callback;
+  }
+
+  // Listen for calls to this user; called again when their profile changes
+  public async start(self: CallPeer): Promise<void> {
+    if (this.self && this.self.id !== self.id) {
+      await this.stop();
+    }
+    this.self = self;
+    await this.getSystemChannel();
+  }
+
+  public async stop(): Promise<void> {
+    await this.hangUp();
+    this.self = null;
+  }
+
+  // Follows the user's voice settings; the next call's microphone is made with them
+  public setMicrophoneSettings(settings: CallMicrophoneSettings): void {
+    this.microphone = settings;
+  }
+
+  public async placeCall(peer: CallPeer): Promise<void> {
+    const self = this.requireSelf();
+    if (this.call) {
+      throw new Error('You are already in a call');
+    }
+
+    const { data, error } = await supabase
+      .from(CALLS_TABLE)
+      .insert({ caller_id: self.id, callee_id: peer.id })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      logger.warn('Failed to place call', {
+        ...LOG_CONTEXT,
+        action: 'placeCall',
+        metadata: { error, peerId: peer.id },
+      });
+      throw new Error('Could not call them');
+    }
+
+    this.setCall({ direction: 'outgoing', id: data.id as string, isMuted: false, peer, status: 'ringing' });
+    this.startRingTimeout(() => void this.endCall('end', 'missed'));
+    await this.signal('ring', data.id as string, peer.id);
+
+    logger.info('Call placed', {
+      ...LOG_CONTEXT,
+      action: 'placeCall',
+      metadata: { callId: data.id, peerId: peer.id },
+    });
+  }
+
+  public async accept(): Promise<void> {
+    const call = this.call;
+    if (!call || call.direction !== 'incoming' || call.status !== 'ringing') return;
+    this.clearRingTimeout();
+
+    const { data, error } = await supabase
+      .from(CALLS_TABLE)
+      .update({ status: 'active' })
+      .eq('id', call.id)
+      .eq('status', 'ringing')
+      .select('id');
+
+    // No row back means the caller gave up before we answered
+    if (error || !data?.length) {
+      logger.warn('Failed to accept call', {
+        ...LOG_CONTEXT,
+        action: 'accept',
+        metadata: { callId: call.id, error },
+      });
+      await this.finish(error ? 'failed' : 'missed');
+      return;
+    }
+
+    this.setCall({ status: 'connecting' });
+    await this.signal('accept', call.id, call.peer.id);
+    await this.connect(call.id);
+  }
+
+  public async decline(): Promise<void> {
+    if (this.call?.direction !== 'incoming' || this.call.status !== 'ringing') return;
+    await this.endCall('decline', null);
+  }
+
+  // Cancels a ringing call or ends an answered one
+  public async hangUp(): Promise<void> {
+    await this.endCall('end', null);
+  }
+
+  public async setMuted(isMuted: boolean): Promise<void> {
+    if (!this.call) return;
+    await this.micTrack?.setMuted(isMuted);
+    this.setCall({ isMuted });
+  }
+
+  private async endCall(type: 'decline' | 'end', reason: CallEndReason | null): Promise<void> {
+    const call = this.call;
+    if (!call) return;
+
+    await this.finish(reason);
+
+    const { error } = await supabase
+      .from(CALLS_TABLE)
+      .update({ ended_at: new Date().toISOString(), status: 'ended' })
+      .eq('id', call.id);
+
+    if (error) {
+      logger.warn('Failed to end call', {
+        ...LOG_CONTEXT,
+        action: 'endCall',
+        metadata: { callId: call.id, error },
+      });
+    }
+
+    await this.signal(type, call.id, call.peer.id).catch((signalError) => {
+      logger.warn('Failed to signal call end', {
+        ...LOG_CONTEXT,
+        action: 'endCall',
+        metadata: { callId: call.id, error: signalError },
+      });
+    });
+  }
+
+  // Local teardown only; the row and the other side are handled by whoever called this
+  private async finish(reason: CallEndReason | null): Promise<void> {
+    const call = this.call;
+    if (!call) return;
+
+    this.clearRingTimeout();
+    this.call = null;
+    this.callCallback?.(null);
+    if (reason) {
+      this.endCallback?.(reason, call);
+    }
+
+    await this.disconnect();
+
+    logger.info('Call finished', {
+      ...LOG_CONTEXT,
+      action: 'finish',
+      metadata: { callId: call.id, reason },
+    });
+  }
+
+  private async connect(callId: string): Promise<void> {
+    const channelName = `${CALL_CHANNEL_PREFIX}${callId}`;
+
+    try {
+      const { token, uid } = await this.fetchToken(channelName);
+      const client = AgoraRTC.createClient({ mode: 'rtc', codec: 'vp8' });
+      this.client = client;
+
+      client.on('user-published', async (user, mediaType) => {
+        if (mediaType !== 'audio') return;
+        await client.subscribe(user, mediaType);
+        user.audioTrack?.play();
+      });
+
+      // The other side closed the app or lost their connection
+      client.on('user-left', () => {
+        void this.endCall('end', 'ended');
+      });
+
+      client.on('token-privilege-will-expire', async () => {
+        try {
+          const renewed = await this.fetchToken(channelName);
+          await client.renewToken(renewed.token);
+        } catch (error) {
+          logger.warn('Failed to renew call token', {
+            ...LOG_CONTEXT,
+            action: 'renewToken',
+            metadata: { callId, error },
+          });
+        }
+      });
+
+      await client.join(VOICE_CONSTANTS.APP_ID, channelName, token, uid);
+      const { audioProcessing, inputDeviceId } = this.microphone;
+      this.micTrack = await AgoraRTC.createMicrophoneAudioTrack({
+        microphoneId: inputDeviceId ?? undefined,
+        AEC: audioProcessing.aec,
+        AGC: audioProcessing.agc,
+        ANS: audioProcessing.ans,
+      });
+
+      // Hung up while we were still joining
+      if (this.call?.id !== callId) {
+        await this.disconnect();
+        return;
+      }
+
+      await this.micTrack.setMuted(this.call.isMuted);
+      await client.publish(this.micTrack);
+      this.setCall({ status: 'active' });
+    } catch (error) {
+      logger.error('Failed to connect call', {
+        ...LOG_CONTEXT,
+        action: 'connect',
+        metadata: { callId, error },
+      });
+      if (this.call?.id === callId) {
+        await this.endCall('end', 'failed');
+      } else {
+        await this.disconnect();
+      }
+    }
+  }
+
+  private async disconnect(): Promise<void> {
+    const client = this.client;
+    const micTrack = this.micTrack;
+    this.client = null;
+    this.micTrack = null;
+
+    micTrack?.close();
+    if (client) {
+      client.removeAllListeners();
+      await client.leave().catch((error) => {
+        logger.warn('Failed to leave call channel', {
+          ...LOG_CONTEXT,
+          action: 'disconnect',
+          metadata: { error },
+        });
+      });
+    }
+  }
+
+  private fetchToken(channelName: string): Promise<AgoraTokenResponse> {
+    return fetchAgoraToken(channelName, 'publisher', 'Sign in to make calls');
+  }
+
+  private async signal(type: CallSignalType, callId: string, toId: string): Promise<void> {
+    const channel = await this.getSystemChannel();
+    const payload: CallSignal = { callId, from: this.requireSelf(), toId, type };
+    await channel.send({
+      type: 'broadcast',
+      event: CALL_SIGNAL_EVENT,
+      payload,
+    });
+  }
+
+  private async getSystemChannel(): Promise<RealtimeChannel> {
+    const channel = await PresenceService.getInstance().getSystemChannel();
+    if (this.systemChannel === channel) return channel;
+
+    this.systemChannel = channel;
+    channel.on('broadcast', { event: CALL_SIGNAL_EVENT }, ({ payload }) => {
+      const signal = payload as CallSignal;
+      if (!this.self || signal?.toId !== this.self.id) return;
+      void this.handleSignal(signal);
+    });
+    return channel;
+  }
+
+  // Broadcasts are unauthenticated, so every signal must match the call row it claims to change
+  private async handleSignal(signal: CallSignal): Promise<void> {
+    const row = await this.loadCall(signal.callId);
+    const isFromPeer = row && (row.caller_id === signal.from.id || row.callee_id === signal.from.id);
+    if (!row || !isFromPeer) return;
+
+    if (signal.type === 'ring') {
+      if (row.status !== 'ringing' || row.caller_id !== signal.from.id) return;
+      if (this.call) {
+        // Busy: turn the new call away without disturbing this one
+        if (this.call.id !== signal.callId) {
+          await this.rejectBusy(signal);
+        }
+        return;
+      }
+      this.setCall({
+        direction: 'incoming',
+        id: signal.callId,
+        isMuted: false,
+        peer: signal.from,
+        status: 'ringing',
+      });
+      this.startRingTimeout(() => void this.finish('missed'));
+      return;
+    }
+
+    if (this.call?.id !== signal.callId) return;
+
+    if (signal.type === 'accept') {
+      if (row.status !== 'active' || this.call.direction !== 'outgoing') return;
+      this.clearRingTimeout();
+      this.setCall({ status: 'connecting' });
+      await this.connect(signal.callId);
+      return;
+    }
+
+    if (row.status !== 'ended') return;
+    let reason: CallEndReason = 'ended';
+    if (signal.type === 'decline') {
+      reason = 'declined';
+    } else if (this.call.status === 'ringing') {
+      reason = 'missed';
+    }
+    await this.finish(reason);
+  }
+
+  private async rejectBusy(signal: CallSignal): Promise<void> {
+    await supabase
+      .from(CALLS_TABLE)
+      .update({ ended_at: new Date().toISOString(), status: 'ended' })
+      .eq('id', signal.callId);
+    await this.signal('decline', signal.callId, signal.from.id);
+  }
+
+  private async loadCall(callId: string): Promise<CallRow | null> {
+    const { data, error } = await supabase
+      .from(CALLS_TABLE)
+      .select('caller_id, callee_id, status')
+      .eq('id', callId)
+      .maybeSingle();
+
+    if (error) {
+      logger.warn('Failed to load call', {
+        ...LOG_CONTEXT,
+        action: 'loadCall',
+        metadata: { callId, error },
+      });
+    }
+    return (data as CallRow | null) ?? null;
+  }
+
+  private setCall(update: Partial<DirectCall>): void {
+    if (!this.call && !('id' in update)) return;
+    this.call = { ...this.call, ...update } as DirectCall;
+    this.callCallback?.({ ...this.call });
+  }
+
+  private startRingTimeout(onTimeout: () => void): void {
+    this.clearRingTimeout();
+    this.ringTimeout = setTimeout(onTimeout, VOICE_CONSTANTS.CALL_RING_TIMEOUT);
+  }
+
+  private clearRingTimeout(): void {
+    if (this.ringTimeout) {
+      clearTimeout(this.ringTimeout);
+      this.ringTimeout = null;
+    }
+  }
+
+  private requireSelf(): CallPeer {
+    if (!this.self) {
+      throw new Error('Sign in to make calls');
+    }
+    return this.self;
+  }
+}
@@ -0,0 +1,123 @@
+import type { PartyMessage, ChatListener } from '@/lib/types/party/chat';
+import type { PartyMember } from '@/lib/types/party/member';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+import { logger } from '@/lib/logger';
+import { supabase } from '@/lib/supabase';
+import { isRateLimited } from '@/lib/utils/rateLimiter';
+
+const LOG_CONTEXT = { component: 'ChatService' };
+const MESSAGES_TABLE = 'party_messages';
+const HISTORY_LIMIT = 50;
+const SEND_RATE_LIMIT_MS = 500;
+export const MAX_MESSAGE_LENGTH = 500;
+
+export class ChatService {
+  private listeners: Set<ChatListener> = new Set();
+
+  private static instance: ChatService | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ChatService {
+    if (!ChatService.instance) {
+      ChatService.instance = new ChatService();
+    }
+    return ChatService.instance;
+  }
+
+  // Attach message inserts to a party channel; must run before the channel subscribes
+  public bindChannel(channel: RealtimeChannel, partyId: string): void {
+    channel.on<PartyMessage>(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: MESSAGES_TABLE,
+        filter: `party_id=eq.${partyId}`,
+      },
+      (payload) => {
+        logger.debug('Chat message received', {
+          ...LOG_CONTEXT,
+          action: 'messageInsert',
+          metadata: { messageId: payload.new.id, partyId },
+        });
+        this.notifyListeners(payload.new);
+      }
+    );
+  }
+
+  public async loadHistory(partyId: string): Promise<PartyMessage[]> {
+    const { data, error } = await supabase
+      .from(MESSAGES_TABLE)
+      .select('id, party_id, member_id, member_name, member_avatar, content, created_at')
+      .eq('party_id', partyId)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT);
+
+    if (error) {
+      logger.error('Failed to load chat history', {
+        ...LOG_CONTEXT,
+        action: 'loadHistory',
+        metadata: { error, partyId },
+      });
+      throw new Error('Failed to load chat history');
+    }
+
+    // Newest first from the query, oldest first for display
+    return (data ?? []).reverse();
+  }
+
+  public async sendMessage(partyId: string, member: PartyMember, content: string): Promise<void> {
+    const trimmedContent = content.trim();
+
+    if (!trimmedContent) return;
+
+    if (trimmedContent.length > MAX_MESSAGE_LENGTH) {
+      throw new Error(`Messages are limited to ${MAX_MESSAGE_LENGTH} characters`);
+    }
+
+    if (isRateLimited(`chat:${member.id}`, SEND_RATE_LIMIT_MS)) {
+      throw new Error('You are sending messages too quickly');
+    }
+
+    const { error } = await supabase.from(MESSAGES_TABLE).insert({
+      party_id: partyId,
+      member_id: member.id,
+      member_name: member.name,
+      member_avatar: member.avatar,
+      content: trimmedContent,
+    });
+
+    if (error) {
+      logger.error('Failed to send chat message', {
+        ...LOG_CONTEXT,
+        action: 'sendMessage',
+        metadata: { error, partyId, memberId: member.id },
+      });
+      throw new Error('Failed to send message');
+    }
+  }
+
+  public addListener(listener: ChatListener): void {
+    this.listeners.add(listener);
+  }
+
+  public removeListener(listener: ChatListener): void {
+    this.listeners.delete(listener);
+  }
+
+  private notifyListeners(message: PartyMessage): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(message);
+      } catch (error) {
+        logger.error('Chat listener failed', {
+          ...LOG_CONTEXT,
+          action: 'notifyListeners',
+          metadata: { error },
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import type { ReplayClip } from '@/lib/types/party/media';
+
+import { logger } from '@/lib/logger';
+import { createObjectStoreOpener, requestToPromise } from '@/lib/utils/indexedDb';
+
+const LOG_CONTEXT = { component: 'ClipLibraryService' };
+
+type ClipsCallback = (clips: ReplayClip[]) => void;
+
+// Saved replay clips; audio is too large for localStorage, so clips live in IndexedDB on this device
+export class ClipLibraryService {
+  private static instance: ClipLibraryService | null = null;
+  private getStore = createObjectStoreOpener('party-clips', 'clips');
+  private clipsCallback: ClipsCallback | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ClipLibraryService {
+    if (!ClipLibraryService.instance) {
+      ClipLibraryService.instance = new ClipLibraryService();
+    }
+    return ClipLibraryService.instance;
+  }
+
+  public onClipsChange(callback: ClipsCallback | null): void {
+    this.clipsCallback = callback;
+  }
+
+  // Newest first
+  public async list(): Promise<ReplayClip[]> {
+    const store = await this.getStore('readonly');
+    const clips = await requestToPromise(store.getAll() as IDBRequest<ReplayClip[]>);
+    return clips.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  public async add(clip: ReplayClip): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await requestToPromise(store.put(clip));
+    await this.notify();
+
+    logger.info('Clip saved', {
+      ...LOG_CONTEXT,
+      action: 'add',
+      metadata: { durationSeconds: clip.durationSeconds, size: clip.blob.size },
+    });
+  }
+
+  public async rename(id: string, name: string): Promise<void> {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    const store = await this.getStore('readwrite');
+    const clip = await requestToPromise(store.get(id) as IDBRequest<ReplayClip | undefined>);
+    if (!clip) return;
+
+    await requestToPromise(store.put({ ...clip, name: trimmed }));
+    await this.notify();
+  }
+
+  public async remove(id: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await requestToPromise(store.delete(id));
+    await this.notify();
+  }
+
+  private async notify(): Promise<void> {
+    if (!this.clipsCallback) return;
+
+    try {
+      this.clipsCallback(await this.list());
+    } catch (error) {
+      logger.warn('Failed to refresh clips', {
+        ...LOG_CONTEXT,
+        action: 'notify',
+        metadata: { error },
+      });
+    }
+  }
+}
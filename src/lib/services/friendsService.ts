@@ -0,0 +1,336 @@
+import type {
+  BlockedUser,
+  Friend,
+  FriendPartyInvite,
+  FriendPartyInviteListener,
+  FriendsListener,
+  OnlineStatus,
+  OnlineStatusListener,
+} from '@/lib/types/friends';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+import { logger } from '@/lib/logger';
+import { PresenceService } from '@/lib/services/presenceService';
+import { supabase } from '@/lib/supabase';
+import { isRateLimited } from '@/lib/utils/rateLimiter';
+
+const LOG_CONTEXT = { component: 'FriendsService' };
+const FRIENDSHIPS_TABLE = 'friendships';
+const BLOCKS_TABLE = 'user_blocks';
+const PARTY_INVITE_EVENT = 'friend_party_invite';
+const PARTY_INVITE_RATE_LIMIT_MS = 5000;
+
+interface FriendshipRow {
+  addressee_id: string;
+  requester_id: string;
+  status: 'accepted' | 'pending';
+}
+
+// Friend requests and blocks live in tables; who is online, and where, comes from system channel presence
+export class FriendsService {
+  private static instance: FriendsService | null = null;
+  private userId: string | null = null;
+  private friendsChannel: RealtimeChannel | null = null;
+  private systemChannel: RealtimeChannel | null = null;
+  private friends: Friend[] = [];
+  private friendsCallback: FriendsListener | null = null;
+  private onlineCallback: OnlineStatusListener | null = null;
+  private partyInviteCallback: FriendPartyInviteListener | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): FriendsService {
+    if (!FriendsService.instance) {
+      FriendsService.instance = new FriendsService();
+    }
+    return FriendsService.instance;
+  }
+
+  public onFriendsChange(callback: FriendsListener | null): void {
+    this.friendsCallback = callback;
+  }
+
+  public onOnlineChange(callback: OnlineStatusListener | null): void {
+    this.onlineCallback = callback;
+  }
+
+  public onPartyInvite(callback: FriendPartyInviteListener | null): void {
+    this.partyInviteCallback = callback;
+  }
+
+  // Load the user's friends and follow changes to them until stop()
+  public async start(userId: string): Promise<Friend[]> {
+    if (this.userId !== userId) {
+      await this.stop();
+      this.userId = userId;
+
+      // Row-level security limits these events to friendships the user is part of
+      this.friendsChannel = supabase
+        .channel(`friends:${userId}`)
+        .on<FriendshipRow>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: FRIENDSHIPS_TABLE },
+          (payload) => {
+            // Deletes carry only the key columns and skip row-level security, so check who they concern
+            const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Partial<FriendshipRow>;
+            if (row.requester_id !== userId && row.addressee_id !== userId) return;
+            void this.refresh();
+          }
+        )
+        .subscribe();
+    }
+
+    return this.refresh();
+  }
+
+  public async stop(): Promise<void> {
+    if (this.friendsChannel) {
+      await supabase.removeChannel(this.friendsChannel);
+      this.friendsChannel = null;
+    }
+    this.userId = null;
+    this.friends = [];
+  }
+
+  public async refresh(): Promise<Friend[]> {
+    const userId = this.userId;
+    if (!userId) return [];
+
+    const { data: rows, error } = await supabase
+      .from(FRIENDSHIPS_TABLE)
+      .select('requester_id, addressee_id, status')
+      .or(`requester_id.eq.${userId},addressee_id.eq.${userId}`);
+
+    if (error) {
+      logger.error('Failed to load friends', {
+        ...LOG_CONTEXT,
+        action: 'refresh',
+        metadata: { error },
+      });
+      throw new Error('Failed to load friends');
+    }
+
+    const friendships = (rows ?? []) as FriendshipRow[];
+    const otherIds = friendships.map((row) => (row.requester_id === userId ? row.addressee_id : row.requester_id));
+    const profiles = await this.loadProfiles(otherIds);
+
+    this.friends = friendships
+      .map((row, index) => {
+        const id = otherIds[index]!;
+        const profile = profiles.get(id);
+        let status: Friend['status'] = 'accepted';
+        if (row.status === 'pending') {
+          status = row.requester_id === userId ? 'outgoing' : 'incoming';
+        }
+        return {
+          avatar: profile?.avatar ?? '',
+          game: profile?.game ?? '',
+          id,
+          name: profile?.name ?? 'Unknown',
+          status,
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    this.friendsCallback?.(this.friends);
+    return this.friends;
+  }
+
+  public async sendRequest(friendId: string): Promise<void> {
+    const userId = this.requireUser();
+    const { error } = await supabase
+      .from(FRIENDSHIPS_TABLE)
+      .insert({ requester_id: userId, addressee_id: friendId });
+
+    if (error) {
+      logger.warn('Failed to send friend request', {
+        ...LOG_CONTEXT,
+        action: 'sendRequest',
+        metadata: { error, friendId },
+      });
+      // Unique violations mean a request already exists in one direction or the other
+      throw new Error(error.code === '23505' ? 'You already have a request with them' : 'Could not send the request');
+    }
+    await this.refresh();
+  }
+
+  public async acceptRequest(friendId: string): Promise<void> {
+    const userId = this.requireUser();
+    const { error } = await supabase
+      .from(FRIENDSHIPS_TABLE)
+      .update({ status: 'accepted' })
+      .eq('requester_id', friendId)
+      .eq('addressee_id', userId);
+
+    if (error) {
+      logger.warn('Failed to accept friend request', {
+        ...LOG_CONTEXT,
+        action: 'acceptRequest',
+        metadata: { error, friendId },
+      });
+      throw new Error('Could not accept the request');
+    }
+    await this.refresh();
+  }
+
+  // Declines, cancels or unfriends, depending on the friendship's state
+  public async removeFriend(friendId: string): Promise<void> {
+    const userId = this.requireUser();
+    const { error } = await supabase
+      .from(FRIENDSHIPS_TABLE)
+      .delete()
+      .or(
+        `and(requester_id.eq.${userId},addressee_id.eq.${friendId}),and(requester_id.eq.${friendId},addressee_id.eq.${userId})`
+      );
+
+    if (error) {
+      logger.warn('Failed to remove friend', {
+        ...LOG_CONTEXT,
+        action: 'removeFriend',
+        metadata: { error, friendId },
+      });
+      throw new Error('Could not remove the friend');
+    }
+    await this.refresh();
+  }
+
+  // The database drops any friendship with a user once they are blocked
+  public async block(targetId: string): Promise<void> {
+    const userId = this.requireUser();
+    const { error } = await supabase.from(BLOCKS_TABLE).insert({ blocker_id: userId, blocked_id: targetId });
+
+    // A unique violation means they were already blocked
+    if (error && error.code !== '23505') {
+      logger.warn('Failed to block user', {
+        ...LOG_CONTEXT,
+        action: 'block',
+        metadata: { error, targetId },
+      });
+      throw new Error('Could not block them');
+    }
+    await this.refresh();
+  }
+
+  public async unblock(targetId: string): Promise<void> {
+    const userId = this.requireUser();
+    const { error } = await supabase
+      .from(BLOCKS_TABLE)
+      .delete()
+      .eq('blocker_id', userId)
+      .eq('blocked_id', targetId);
+
+    if (error) {
+      logger.warn('Failed to unblock user', {
+        ...LOG_CONTEXT,
+        action: 'unblock',
+        metadata: { error, targetId },
+      });
+      throw new Error('Could not unblock them');
+    }
+  }
+
+  public async listBlocked(): Promise<BlockedUser[]> {
+    const userId = this.requireUser();
+    const { data, error } = await supabase
+      .from(BLOCKS_TABLE)
+      .select('blocked_id')
+      .eq('blocker_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.warn('Failed to load blocked users', {
+        ...LOG_CONTEXT,
+        action: 'listBlocked',
+        metadata: { error },
+      });
+      throw new Error('Could not load blocked users');
+    }
+
+    const ids = (data ?? []).map((row) => row.blocked_id as string);
+    const profiles = await this.loadProfiles(ids);
+    return ids.map((id) => ({ id, name: profiles.get(id)?.name ?? 'Unknown' }));
+  }
+
+  // Everyone on the system channel can read this, so it holds only what a party roster already shows
+  public async setOnlineStatus(status: OnlineStatus | null): Promise<void> {
+    const channel = await this.getSystemChannel();
+    if (status) {
+      await channel.track(status);
+    } else {
+      await channel.untrack();
+    }
+  }
+
+  public async inviteToParty(invite: FriendPartyInvite): Promise<void> {
+    if (isRateLimited(`friend-invite:${invite.toId}`, PARTY_INVITE_RATE_LIMIT_MS)) {
+      throw new Error('You just invited them');
+    }
+
+    const channel = await this.getSystemChannel();
+    await channel.send({
+      type: 'broadcast',
+      event: PARTY_INVITE_EVENT,
+      payload: invite,
+    });
+
+    logger.info('Party invite sent to friend', {
+      ...LOG_CONTEXT,
+      action: 'inviteToParty',
+      metadata: { partyId: invite.partyId, toId: invite.toId },
+    });
+  }
+
+  private async getSystemChannel(): Promise<RealtimeChannel> {
+    const channel = await PresenceService.getInstance().getSystemChannel();
+    if (this.systemChannel === channel) return channel;
+
+    this.systemChannel = channel;
+    channel.on('presence', { event: 'sync' }, () => {
+      this.syncOnline(channel.presenceState<OnlineStatus>());
+    });
+
+    channel.on('broadcast', { event: PARTY_INVITE_EVENT }, ({ payload }) => {
+      const invite = payload as FriendPartyInvite;
+      // Broadcasts are unauthenticated, so only invites claiming to be from a current friend get through
+      const isFromFriend = this.friends.some(
+        (friend) => friend.id === invite?.fromId && friend.status === 'accepted'
+      );
+      if (invite?.toId !== this.userId || !isFromFriend) return;
+      this.partyInviteCallback?.(invite);
+    });
+
+    this.syncOnline(channel.presenceState<OnlineStatus>());
+    return channel;
+  }
+
+  private syncOnline(state: Record<string, OnlineStatus[]>): void {
+    const online = new Map<string, OnlineStatus>();
+    Object.values(state).forEach((presences) => {
+      presences.forEach((presence) => {
+        if (presence.id) online.set(presence.id, presence);
+      });
+    });
+    this.onlineCallback?.(online);
+  }
+
+  private async loadProfiles(ids: string[]): Promise<Map<string, { avatar: string; game: string; name: string }>> {
+    if (!ids.length) return new Map();
+
+    const { data, error } = await supabase.from('profiles').select('id, name, avatar, game').in('id', ids);
+    if (error) {
+      logger.warn('Failed to load friend profiles', {
+        ...LOG_CONTEXT,
+        action: 'loadProfiles',
+        metadata: { error },
+      });
+    }
+    return new Map((data ?? []).map((row) => [row.id as string, row]));
+  }
+
+  private requireUser(): string {
+    if (!this.userId) {
+      throw new Error('Sign in to manage friends');
+    }
+    return this.userId;
+  }
+}
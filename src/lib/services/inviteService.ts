@@ -0,0 +1,82 @@
+import type { InviteOptions, InvitePreview } from '@/lib/types/party/party';
+
+import { logger } from '@/lib/logger';
+import { AuthService } from '@/lib/services/authService';
+
+const LOG_CONTEXT = { component: 'InviteService' };
+
+// Invite codes live server-side only; every call goes through the invite routes
+export class InviteService {
+  private static instance: InviteService | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): InviteService {
+    if (!InviteService.instance) {
+      InviteService.instance = new InviteService();
+    }
+    return InviteService.instance;
+  }
+
+  public static getInviteUrl(code: string): string {
+    return `${window.location.origin}/join/${code}`;
+  }
+
+  public async createInvite(partyId: string, options: InviteOptions): Promise<InvitePreview> {
+    const { invite } = await this.request<{ invite: InvitePreview }>('/api/party/invites', 'createInvite', {
+      method: 'POST',
+      body: JSON.stringify({ partyId, ...options }),
+      isAuthenticated: true,
+    });
+    return invite;
+  }
+
+  public async getInvite(code: string): Promise<InvitePreview> {
+    const { invite } = await this.request<{ invite: InvitePreview }>(
+      `/api/party/invites/${encodeURIComponent(code)}`,
+      'getInvite',
+      { method: 'GET' }
+    );
+    return invite;
+  }
+
+  // Returns the party the invite opens
+  public async redeemInvite(code: string): Promise<string> {
+    const { partyId } = await this.request<{ partyId: string }>(
+      `/api/party/invites/${encodeURIComponent(code)}`,
+      'redeemInvite',
+      { method: 'POST', isAuthenticated: true }
+    );
+    return partyId;
+  }
+
+  private async request<T>(
+    url: string,
+    action: string,
+    { body, isAuthenticated = false, method }: { body?: string; isAuthenticated?: boolean; method: string }
+  ): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (isAuthenticated) {
+      const accessToken = await AuthService.getInstance().getAccessToken();
+      if (!accessToken) {
+        throw new Error('Sign in to use invites');
+      }
+      headers.Authorization = `Bearer ${accessToken}`;
+    }
+
+    const response = await fetch(url, { method, headers, body });
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }));
+      logger.warn('Invite request failed', {
+        ...LOG_CONTEXT,
+        action,
+        metadata: { error, status: response.status },
+      });
+      throw new Error(error || 'Invite request failed');
+    }
+
+    return response.json() as Promise<T>;
+  }
+}
@@ -0,0 +1,299 @@
+import type {
+  ModerationAction,
+  ModerationEvent,
+  ModerationListener,
+  PartyRole,
+  PartySettings,
+  PartySettingsListener,
+} from '@/lib/types/party/party';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+import { logger } from '@/lib/logger';
+import { AuthService } from '@/lib/services/authService';
+import { supabase } from '@/lib/supabase';
+
+const LOG_CONTEXT = { component: 'ModerationService' };
+const MODERATION_EVENT = 'moderation';
+// A stop_share broadcast must follow the server's record of it within this window
+const STOP_SHARE_VERIFY_WINDOW_MS = 60000;
+
+interface PartySettingsRow {
+  breakout_assignments: Record<string, number>;
+  breakout_count: number;
+  id: string;
+  soundboard_enabled: boolean;
+}
+
+export interface PartyModerationSnapshot {
+  breakoutAssignments: Record<string, number>;
+  breakoutCount: number;
+  roles: Record<string, PartyRole>;
+  serverMutedIds: string[];
+  soundboardEnabled: boolean;
+}
+
+export class ModerationService {
+  private listeners: Set<ModerationListener> = new Set();
+  private settingsListeners: Set<PartySettingsListener> = new Set();
+
+  private static instance: ModerationService | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ModerationService {
+    if (!ModerationService.instance) {
+      ModerationService.instance = new ModerationService();
+    }
+    return ModerationService.instance;
+  }
+
+  // Attach moderation broadcasts to a party channel; must run before the channel subscribes
+  public bindChannel(channel: RealtimeChannel, partyId: string): void {
+    channel.on('broadcast', { event: MODERATION_EVENT }, ({ payload }) => {
+      const event = payload as ModerationEvent;
+      if (event?.partyId !== partyId) return;
+
+      // Broadcasts are unauthenticated, so confirm the action against the database first
+      void this.verifyEvent(event).then((isVerified) => {
+        if (!isVerified) {
+          logger.warn('Ignoring unverified moderation event', {
+            ...LOG_CONTEXT,
+            action: 'moderationEvent',
+            metadata: { event },
+          });
+          return;
+        }
+        this.notifyListeners(event);
+      });
+    });
+
+    // Row changes come from the database itself, so unlike broadcasts they need no verification
+    channel.on<PartySettingsRow>(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'parties',
+        filter: `id=eq.${partyId}`,
+      },
+      (payload) => {
+        this.notifySettingsListeners(this.toPartySettings(partyId, payload.new));
+      }
+    );
+  }
+
+  public async loadPartyModeration(partyId: string): Promise<PartyModerationSnapshot> {
+    const [rolesResult, mutesResult, partyResult] = await Promise.all([
+      supabase.from('party_roles').select('member_id, role').eq('party_id', partyId),
+      supabase.from('party_sanctions').select('member_id').eq('party_id', partyId).eq('kind', 'mute'),
+      supabase
+        .from('parties')
+        .select('soundboard_enabled, breakout_count, breakout_assignments')
+        .eq('id', partyId)
+        .maybeSingle(),
+    ]);
+
+    if (rolesResult.error || mutesResult.error) {
+      logger.error('Failed to load party moderation state', {
+        ...LOG_CONTEXT,
+        action: 'loadPartyModeration',
+        metadata: { rolesError: rolesResult.error, mutesError: mutesResult.error, partyId },
+      });
+      throw new Error('Failed to load party roles');
+    }
+
+    const { breakoutAssignments, breakoutCount, soundboardEnabled } = this.toPartySettings(
+      partyId,
+      partyResult.data ?? {}
+    );
+
+    return {
+      breakoutAssignments,
+      breakoutCount,
+      roles: Object.fromEntries(
+        (rolesResult.data ?? []).map((row) => [row.member_id, row.role as PartyRole])
+      ),
+      serverMutedIds: (mutesResult.data ?? []).map((row) => row.member_id),
+      soundboardEnabled,
+    };
+  }
+
+  public kick(partyId: string, memberId: string): Promise<void> {
+    return this.moderate(partyId, memberId, 'kick');
+  }
+
+  public muteForEveryone(partyId: string, memberId: string, isMuted: boolean): Promise<void> {
+    return this.moderate(partyId, memberId, isMuted ? 'mute' : 'unmute');
+  }
+
+  public ban(partyId: string, memberId: string): Promise<void> {
+    return this.moderate(partyId, memberId, 'ban');
+  }
+
+  public stopShare(partyId: string, memberId: string): Promise<void> {
+    return this.moderate(partyId, memberId, 'stop_share');
+  }
+
+  // Row-level security lets only the host change this
+  public async setSoundboardEnabled(partyId: string, isEnabled: boolean): Promise<void> {
+    const { data, error } = await supabase
+      .from('parties')
+      .update({ soundboard_enabled: isEnabled })
+      .eq('id', partyId)
+      .select('id');
+
+    if (error || !data?.length) {
+      logger.error('Failed to update soundboard setting', {
+        ...LOG_CONTEXT,
+        action: 'setSoundboardEnabled',
+        metadata: { error, isEnabled, partyId },
+      });
+      throw new Error('Only the host can change the soundboard');
+    }
+  }
+
+  // Opens the given number of breakout rooms and places members in them; row-level security limits this to the host
+  public async setBreakouts(
+    partyId: string,
+    breakoutCount: number,
+    breakoutAssignments: Record<string, number>
+  ): Promise<void> {
+    const { data, error } = await supabase
+      .from('parties')
+      .update({ breakout_assignments: breakoutAssignments, breakout_count: breakoutCount })
+      .eq('id', partyId)
+      .select('id');
+
+    if (error || !data?.length) {
+      logger.error('Failed to update breakouts', {
+        ...LOG_CONTEXT,
+        action: 'setBreakouts',
+        metadata: { breakoutCount, error, partyId },
+      });
+      throw new Error('Only the host can change breakout rooms');
+    }
+  }
+
+  public addListener(listener: ModerationListener): void {
+    this.listeners.add(listener);
+  }
+
+  public removeListener(listener: ModerationListener): void {
+    this.listeners.delete(listener);
+  }
+
+  private async moderate(partyId: string, memberId: string, action: ModerationAction): Promise<void> {
+    const accessToken = await AuthService.getInstance().getAccessToken();
+    if (!accessToken) {
+      throw new Error('Sign in to moderate the party');
+    }
+
+    const response = await fetch('/api/party/moderation', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ partyId, memberId, action }),
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }));
+      logger.error('Moderation request failed', {
+        ...LOG_CONTEXT,
+        action: 'moderate',
+        metadata: { error, partyId, memberId, moderationAction: action },
+      });
+      throw new Error(error || 'Moderation failed');
+    }
+  }
+
+  private async verifyEvent(event: ModerationEvent): Promise<boolean> {
+    try {
+      if (event.action === 'kick') {
+        const { data } = await supabase
+          .from('party_members')
+          .select('is_active')
+          .eq('id', event.memberId)
+          .eq('party_id', event.partyId)
+          .maybeSingle();
+        return data?.is_active === false;
+      }
+
+      // The moderation route records every stop, so a recent row proves a moderator asked for it
+      if (event.action === 'stop_share') {
+        const { data } = await supabase
+          .from('party_share_stops')
+          .select('stopped_at')
+          .eq('party_id', event.partyId)
+          .eq('member_id', event.memberId)
+          .maybeSingle();
+        return !!data && Date.now() - new Date(data.stopped_at).getTime() < STOP_SHARE_VERIFY_WINDOW_MS;
+      }
+
+      const kind = event.action === 'ban' ? 'ban' : 'mute';
+      const { data } = await supabase
+        .from('party_sanctions')
+        .select('kind')
+        .eq('party_id', event.partyId)
+        .eq('member_id', event.memberId)
+        .eq('kind', kind)
+        .maybeSingle();
+
+      return event.action === 'unmute' ? !data : !!data;
+    } catch (error) {
+      logger.error('Failed to verify moderation event', {
+        ...LOG_CONTEXT,
+        action: 'verifyEvent',
+        metadata: { error, event },
+      });
+      return false;
+    }
+  }
+
+  public addSettingsListener(listener: PartySettingsListener): void {
+    this.settingsListeners.add(listener);
+  }
+
+  public removeSettingsListener(listener: PartySettingsListener): void {
+    this.settingsListeners.delete(listener);
+  }
+
+  private toPartySettings(partyId: string, row: Partial<PartySettingsRow>): PartySettings {
+    return {
+      breakoutAssignments: row.breakout_assignments ?? {},
+      breakoutCount: row.breakout_count ?? 0,
+      partyId,
+      // Parties created before the switch existed, or a failed read, keep the soundboard on
+      soundboardEnabled: row.soundboard_enabled ?? true,
+    };
+  }
+
+  private notifySettingsListeners(settings: PartySettings): void {
+    this.settingsListeners.forEach((listener) => {
+      try {
+        listener(settings);
+      } catch (error) {
+        logger.error('Party settings listener failed', {
+          ...LOG_CONTEXT,
+          action: 'notifySettingsListeners',
+          metadata: { error },
+        });
+      }
+    });
+  }
+
+  private notifyListeners(event: ModerationEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('Moderation listener failed', {
+          ...LOG_CONTEXT,
+          action: 'notifyListeners',
+          metadata: { error },
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,132 @@
+import type { PartyMember } from '@/lib/types/party/member';
+import type { Party, PartySummary } from '@/lib/types/party/party';
+
+import { logger } from '@/lib/logger';
+import { supabase } from '@/lib/supabase';
+
+const LOG_CONTEXT = { component: 'PartyService' };
+const PARTY_NAME_MIN_LENGTH = 2;
+const PARTY_NAME_MAX_LENGTH = 40;
+
+export class PartyService {
+  private static instance: PartyService | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): PartyService {
+    if (!PartyService.instance) {
+      PartyService.instance = new PartyService();
+    }
+    return PartyService.instance;
+  }
+
+  public async listParties(): Promise<PartySummary[]> {
+    const { data, error } = await supabase
+      .from('party_summaries')
+      .select('id, name, is_active, created_at, member_count')
+      .order('member_count', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to list parties', {
+        ...LOG_CONTEXT,
+        action: 'listParties',
+        metadata: { error },
+      });
+      throw new Error('Failed to load parties');
+    }
+
+    return (data ?? []) as PartySummary[];
+  }
+
+  public async getParty(partyId: string): Promise<Party | null> {
+    const { data, error } = await supabase
+      .from('parties')
+      .select('id, name, is_active, created_at')
+      .eq('id', partyId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to load party', {
+        ...LOG_CONTEXT,
+        action: 'getParty',
+        metadata: { error, partyId },
+      });
+      throw new Error('Failed to load party');
+    }
+
+    return data as Party | null;
+  }
+
+  public async createParty(name: string): Promise<Party> {
+    const trimmedName = name.trim();
+
+    if (
+      trimmedName.length < PARTY_NAME_MIN_LENGTH ||
+      trimmedName.length > PARTY_NAME_MAX_LENGTH
+    ) {
+      throw new Error(
+        `Party name must be between ${PARTY_NAME_MIN_LENGTH} and ${PARTY_NAME_MAX_LENGTH} characters`
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('parties')
+      .insert({ name: trimmedName })
+      .select('id, name, is_active, created_at')
+      .single();
+
+    if (error || !data) {
+      logger.error('Failed to create party', {
+        ...LOG_CONTEXT,
+        action: 'createParty',
+        metadata: { error, name: trimmedName },
+      });
+      throw new Error('Failed to create party');
+    }
+
+    logger.info('Party created', {
+      ...LOG_CONTEXT,
+      action: 'createParty',
+      metadata: { partyId: data.id },
+    });
+
+    return data as Party;
+  }
+
+  // Record the member in the party's roster so listings and member counts stay accurate
+  public async upsertMembership(partyId: string, member: PartyMember): Promise<void> {
+    const { error } = await supabase.from('party_members').upsert({
+      id: member.id,
+      name: member.name,
+      avatar: member.avatar,
+      game: member.game,
+      party_id: partyId,
+      is_active: true,
+    });
+
+    if (error) {
+      logger.error('Failed to record party membership', {
+        ...LOG_CONTEXT,
+        action: 'upsertMembership',
+        metadata: { error, partyId, memberId: member.id },
+      });
+      throw new Error('Failed to join party');
+    }
+  }
+
+  public async endMembership(memberId: string): Promise<void> {
+    const { error } = await supabase
+      .from('party_members')
+      .update({ is_active: false })
+      .eq('id', memberId);
+
+    if (error) {
+      logger.warn('Failed to end party membership', {
+        ...LOG_CONTEXT,
+        action: 'endMembership',
+        metadata: { error, memberId },
+      });
+    }
+  }
+}
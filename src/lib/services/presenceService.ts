@@ -4,6 +4,8 @@ import type { RealtimePresenceState } from '@supabase/supabase-js';
 import { RealtimeChannel } from '@supabase/supabase-js';
 
 import { logger } from '@/lib/logger';
+import { ChatService } from '@/lib/services/chatService';
+import { ModerationService } from '@/lib/services/moderationService';
 import { supabase, ensureRealtimeConnection } from '@/lib/supabase';
 import { createPartyMember, MemberStatus } from '@/lib/types/party/member';
 import {
@@ -15,14 +17,12 @@ import {
   TrackResult,
 } from '@/lib/types/party/service';
 
-import { AVATARS } from '../constants';
+import { AVATARS, MAIN_PARTY_ID, PARTY_CHANNEL_PREFIX } from '../constants';
 
 const LOG_CONTEXT = { component: 'PresenceService' };
 const MEMBER_STORAGE_KEY = 'party_member';
 const SYSTEM_CHANNEL = 'system';
-const PARTY_CHANNEL_PREFIX = 'party:';
 const UPDATE_DEBOUNCE = 250; // Debounce time for presence updates
-const MAIN_PARTY_ID = 'default'; // Assuming a default party ID
 
 // Type for presence data from Supabase
 interface PresenceData {
@@ -52,6 +52,7 @@ export class PresenceService {
   private updateTimeout: NodeJS.Timeout | null = null;
   private pendingUpdate: Partial<PresenceMemberState> | null = null;
   private currentPartyId: string | null = null;
+  private isVisitor = false; // Party channel is a read-only visitor subscription
 
   private static instance: PresenceService | null = null;
 
@@ -228,6 +229,10 @@ export class PresenceService {
       },
     });
 
+    // Party chat and moderation share this channel; bind before subscribing
+    ChatService.getInstance().bindChannel(channel, partyId);
+    ModerationService.getInstance().bindChannel(channel, partyId);
+
     // Subscribe to channel with proper error handling
     await new Promise<void>((resolve, reject) => {
       const timeout = setTimeout(() => {
@@ -282,6 +287,7 @@ export class PresenceService {
                 last_seen: new Date().toISOString(),
                 status: 'active',
                 partyId,
+                breakout: this.currentMember.breakout ?? null,
               });
             }
             resolve();
@@ -296,6 +302,7 @@ export class PresenceService {
 
     this.partyChannel = channel;
     this.currentPartyId = partyId;
+    this.isVisitor = false;
 
     return channel;
   }
@@ -303,7 +310,7 @@ export class PresenceService {
   private async cleanupExistingPartyChannel(): Promise<void> {
     if (this.partyChannel) {
       try {
-        if (this.currentMember && this.partyChannel.state === 'joined') {
+        if (this.currentMember && !this.isVisitor && this.partyChannel.state === 'joined') {
           await this.partyChannel.track({
             ...this.currentMember,
             status: 'left',
@@ -319,6 +326,7 @@ export class PresenceService {
       }
       this.partyChannel = null;
       this.currentPartyId = null;
+      this.isVisitor = false;
     }
   }
 
@@ -344,9 +352,10 @@ export class PresenceService {
 
       // Store current state before reconnection attempt
       const previousMember = this.currentMember ? { ...this.currentMember } : null;
+      const partyId = this.currentPartyId || MAIN_PARTY_ID;
 
       // Attempt to reinitialize channel
-      await this.initializePartyChannel(this.currentPartyId || '');
+      await this.initializePartyChannel(partyId);
 
       // Restore member state if needed
       if (previousMember && this.partyChannel?.state === 'joined') {
@@ -359,7 +368,8 @@ export class PresenceService {
           created_at: previousMember.created_at,
           last_seen: new Date().toISOString(),
           status: 'active',
-          partyId: this.currentPartyId,
+          partyId,
+          breakout: previousMember.breakout ?? null,
         });
       }
 
@@ -443,15 +453,15 @@ export class PresenceService {
     return JSON.stringify(a) === JSON.stringify(b);
   }
 
-  public async trackMember(member: PartyMember): Promise<TrackResult> {
+  public async trackMember(member: PartyMember, partyId: string = MAIN_PARTY_ID): Promise<TrackResult> {
     try {
       logger.debug('Tracking member', {
         ...LOG_CONTEXT,
-        metadata: { member },
+        metadata: { member, partyId },
       });
 
       // Initialize the service first
-      await this.initialize(member);
+      await this.initialize(member, partyId);
 
       logger.debug('Member tracked successfully', {
         ...LOG_CONTEXT,
@@ -542,6 +552,7 @@ export class PresenceService {
               last_seen: updatedMember.last_seen,
               status: updatedMember.status || 'active',
               partyId: this.currentPartyId,
+              breakout: updatedMember.breakout ?? null,
             });
 
             // Notify listeners after successful update
@@ -650,10 +661,10 @@ export class PresenceService {
     }
   }
 
-  public async initialize(member: PartyMember): Promise<void> {
+  public async initialize(member: PartyMember, partyId: string = MAIN_PARTY_ID): Promise<void> {
     logger.debug('Initializing presence service', {
       ...LOG_CONTEXT,
-      metadata: { member },
+      metadata: { member, partyId },
     });
 
     try {
@@ -667,8 +678,8 @@ export class PresenceService {
       // Save member to local storage
       this.saveCurrentMember(member);
 
-      // Always initialize with the main party ID
-      await this.initializePartyChannel(MAIN_PARTY_ID);
+      // Join the requested party's channel
+      await this.joinParty(partyId);
 
       this.state = { status: 'connected' };
       this.notifyListeners();
@@ -703,6 +714,27 @@ export class PresenceService {
     this.listeners.delete(listener);
   }
 
+  // Drop a kicked or banned member right away instead of waiting for their presence to lapse
+  public evictMember(memberId: string): void {
+    const member = this.members.get(memberId);
+    if (!member) return;
+
+    this.persistedMembers.set(memberId, {
+      ...member,
+      status: 'left' as const,
+      is_active: false,
+      last_seen: new Date().toISOString(),
+    });
+    this.members.delete(memberId);
+
+    logger.debug('Evicted member', {
+      ...LOG_CONTEXT,
+      metadata: { memberId },
+    });
+
+    this.notifyListeners();
+  }
+
   public getMembers(): PartyMember[] {
     // Get active members that haven't left and ensure all required fields
     const activeMembers = Array.from(this.members.values())
@@ -738,6 +770,16 @@ export class PresenceService {
     return this.state;
   }
 
+  // Every client subscribes to the system channel; friends presence and party invites ride on it
+  public async getSystemChannel(): Promise<RealtimeChannel> {
+    await this.initializeSystemChannel();
+    return this.systemChannel!;
+  }
+
+  public getCurrentPartyId(): string | null {
+    return this.currentPartyId;
+  }
+
   public hasActiveChannel(): boolean {
     return this.partyChannel !== null && this.partyChannel.state === 'joined';
   }
@@ -1002,6 +1044,7 @@ export class PresenceService {
         this.currentMember = null;
         this.partyChannel = null;
         this.currentPartyId = null;
+        this.isVisitor = false;
         this.state = { status: 'idle' };
 
         // Notify listeners one final time
@@ -1011,15 +1054,21 @@ export class PresenceService {
     }
   }
 
-  public static async subscribeAsVisitor(): Promise<void> {
+  public static async subscribeAsVisitor(partyId: string = MAIN_PARTY_ID): Promise<void> {
     const service = PresenceService.getInstance();
 
     try {
       // Initialize system channel only for visitors
       await service.initializeSystemChannel();
 
-      // Use the main party ID for all visitors
-      const channelName = `${PARTY_CHANNEL_PREFIX}${MAIN_PARTY_ID}`;
+      // Drop the previous party's channel and roster when switching parties
+      if (service.currentPartyId !== partyId) {
+        await service.cleanupExistingPartyChannel();
+        service.members.clear();
+        service.persistedMembers.clear();
+      }
+
+      const channelName = `${PARTY_CHANNEL_PREFIX}${partyId}`;
       const channel = supabase.channel(channelName, {
         config: {
           broadcast: {
@@ -1029,6 +1078,10 @@ export class PresenceService {
         },
       });
 
+      // Visitors can read the party chat and see moderation removals
+      ChatService.getInstance().bindChannel(channel, partyId);
+      ModerationService.getInstance().bindChannel(channel, partyId);
+
       // Subscribe to channel with proper error handling
       await new Promise<void>((resolve, reject) => {
         const timeout = setTimeout(() => {
@@ -1086,11 +1139,13 @@ export class PresenceService {
       });
 
       service.partyChannel = channel;
+      service.currentPartyId = partyId;
+      service.isVisitor = true;
       service.state = { status: 'connected' };
 
       logger.debug('Subscribed as visitor', {
         ...LOG_CONTEXT,
-        metadata: { memberCount: service.members.size },
+        metadata: { memberCount: service.members.size, partyId },
       });
     } catch (error) {
       logger.error('Failed to subscribe as visitor', {
@@ -1106,7 +1161,7 @@ export class PresenceService {
       throw new Error('Cannot join party: not initialized');
     }
 
-    if (this.currentPartyId === partyId) {
+    if (this.currentPartyId === partyId && !this.isVisitor) {
       return; // Already in this party
     }
 
@@ -0,0 +1,142 @@
+import type { PartyAudioMix } from '@/lib/utils/partyAudioMix';
+import type { IAgoraRTCClient } from 'agora-rtc-sdk-ng';
+
+import { VOICE_CONSTANTS } from '@/lib/constants/voice';
+import { logger } from '@/lib/logger';
+import { VoiceService } from '@/lib/services/voiceService';
+import { createPartyAudioMix } from '@/lib/utils/partyAudioMix';
+
+const LOG_CONTEXT = { component: 'RecordingService' };
+
+type RecordingCallback = (isRecording: boolean) => void;
+
+// Mixes the microphone and every subscribed remote voice into a WebM/Opus file, entirely on this device
+export class RecordingService {
+  private static instance: RecordingService | null = null;
+  private client: IAgoraRTCClient;
+  private audioContext: AudioContext | null = null;
+  private mix: PartyAudioMix | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+  private recordingCallback: RecordingCallback | null = null;
+
+  // Keeps recording through reconnects; leaving the party stops and saves it
+  private constructor(client: IAgoraRTCClient) {
+    this.client = client;
+  }
+
+  public static getInstance(client: IAgoraRTCClient): RecordingService {
+    if (!RecordingService.instance || RecordingService.instance.client !== client) {
+      RecordingService.instance = new RecordingService(client);
+    }
+    return RecordingService.instance;
+  }
+
+  public static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(VOICE_CONSTANTS.RECORDING_MIME_TYPE);
+  }
+
+  public get isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  public onRecordingChange(callback: RecordingCallback | null): void {
+    this.recordingCallback = callback;
+  }
+
+  public async start(): Promise<void> {
+    if (this.recorder) return;
+
+    if (this.client.connectionState !== 'CONNECTED') {
+      throw new Error('Join voice before recording');
+    }
+    if (!RecordingService.isSupported()) {
+      throw new Error('Recording is not supported in this browser');
+    }
+
+    const voiceService = VoiceService.getInstance(this.client);
+    this.audioContext = new AudioContext();
+    const destination = this.audioContext.createMediaStreamDestination();
+    this.mix = createPartyAudioMix(
+      this.audioContext,
+      destination,
+      () => voiceService.getPartyAudioTracks(),
+      VOICE_CONSTANTS.RECORDING_SYNC_INTERVAL
+    );
+
+    const recorder = new MediaRecorder(destination.stream, {
+      mimeType: VOICE_CONSTANTS.RECORDING_MIME_TYPE,
+    });
+    this.chunks = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    };
+
+    // Timeslice so a crash mid-session still leaves most of the audio in memory
+    recorder.start(VOICE_CONSTANTS.RECORDING_SYNC_INTERVAL);
+    this.recorder = recorder;
+    this.startedAt = Date.now();
+
+    await voiceService.setCapturing('recording', true);
+    this.recordingCallback?.(true);
+
+    logger.info('Recording started', {
+      ...LOG_CONTEXT,
+      action: 'start',
+      metadata: { sourceCount: this.mix.sourceCount() },
+    });
+  }
+
+  public async stop(): Promise<void> {
+    const recorder = this.recorder;
+    if (!recorder) return;
+    this.recorder = null;
+
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+      await stopped;
+    }
+
+    const blob = new Blob(this.chunks, { type: VOICE_CONSTANTS.RECORDING_MIME_TYPE });
+    this.chunks = [];
+    this.teardownGraph();
+
+    await VoiceService.getInstance(this.client).setCapturing('recording', false);
+    this.recordingCallback?.(false);
+
+    logger.info('Recording stopped', {
+      ...LOG_CONTEXT,
+      action: 'stop',
+      metadata: { durationMs: Date.now() - this.startedAt, size: blob.size },
+    });
+
+    if (blob.size > 0) {
+      this.download(blob);
+    }
+  }
+
+  private teardownGraph(): void {
+    this.mix?.stop();
+    this.mix = null;
+    void this.audioContext?.close();
+    this.audioContext = null;
+  }
+
+  private download(blob: Blob): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `party-${new Date(this.startedAt).toISOString().replace(/[:.]/g, '-')}.webm`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
@@ -0,0 +1,220 @@
+import type { ReplayClip, ReplayClipLength } from '@/lib/types/party/media';
+import type { PartyAudioMix } from '@/lib/utils/partyAudioMix';
+import type { IAgoraRTCClient } from 'agora-rtc-sdk-ng';
+
+import { VOICE_CONSTANTS } from '@/lib/constants/voice';
+import { logger } from '@/lib/logger';
+import { ClipLibraryService } from '@/lib/services/clipLibraryService';
+import { VoiceService } from '@/lib/services/voiceService';
+import { createPartyAudioMix } from '@/lib/utils/partyAudioMix';
+import { encodeWav } from '@/lib/utils/wav';
+
+const LOG_CONTEXT = { component: 'ReplayService' };
+
+const WORKLET_NAME = 'replay-tap';
+
+// Runs on the audio thread and hands the mono mix over in blocks; with nothing connected it still
+// emits silence so the buffer keeps pace with the clock
+const WORKLET_SOURCE = `
+class ReplayTapProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.block = new Float32Array(options.processorOptions.blockFrames);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0][0];
+    const frames = channel ? channel.length : 128;
+    if (channel) {
+      this.block.set(channel, this.offset);
+    } else {
+      this.block.fill(0, this.offset, this.offset + frames);
+    }
+    this.offset += frames;
+
+    if (this.offset >= this.block.length) {
+      this.port.postMessage(this.block, [this.block.buffer]);
+      this.block = new Float32Array(this.block.length);
+      this.offset = 0;
+    }
+    return true;
+  }
+}
+registerProcessor('${WORKLET_NAME}', ReplayTapProcessor);
+`;
+
+type BufferingCallback = (isBuffering: boolean) => void;
+
+// Keeps the last couple of minutes of mixed party audio in a ring buffer so a moment can be saved after it happens
+export class ReplayService {
+  private static instance: ReplayService | null = null;
+  private client: IAgoraRTCClient;
+  private audioContext: AudioContext | null = null;
+  private tap: AudioWorkletNode | null = null;
+  private mix: PartyAudioMix | null = null;
+  private ring: Float32Array | null = null;
+  private writeIndex = 0;
+  private filledFrames = 0; // Capped at the ring length once it has wrapped
+  private starting: Promise<void> | null = null;
+  private bufferingCallback: BufferingCallback | null = null;
+
+  private constructor(client: IAgoraRTCClient) {
+    this.client = client;
+  }
+
+  public static getInstance(client: IAgoraRTCClient): ReplayService {
+    if (!ReplayService.instance || ReplayService.instance.client !== client) {
+      ReplayService.instance = new ReplayService(client);
+    }
+    return ReplayService.instance;
+  }
+
+  public static isSupported(): boolean {
+    return typeof AudioWorkletNode !== 'undefined' && typeof indexedDB !== 'undefined';
+  }
+
+  public get isBuffering(): boolean {
+    return this.ring !== null;
+  }
+
+  public onBufferingChange(callback: BufferingCallback | null): void {
+    this.bufferingCallback = callback;
+  }
+
+  public async start(): Promise<void> {
+    if (this.ring) return;
+    if (this.starting) return this.starting;
+
+    if (this.client.connectionState !== 'CONNECTED') {
+      throw new Error('Join voice before starting instant replay');
+    }
+    if (!ReplayService.isSupported()) {
+      throw new Error('Instant replay is not supported in this browser');
+    }
+
+    this.starting = this.startBuffer();
+    try {
+      await this.starting;
+    } finally {
+      this.starting = null;
+    }
+  }
+
+  public async stop(): Promise<void> {
+    if (this.starting) {
+      await this.starting.catch(() => {});
+    }
+    if (!this.ring) return;
+
+    this.mix?.stop();
+    this.mix = null;
+    if (this.tap) {
+      this.tap.port.onmessage = null;
+      this.tap.disconnect();
+      this.tap = null;
+    }
+    void this.audioContext?.close();
+    this.audioContext = null;
+    this.ring = null;
+
+    await VoiceService.getInstance(this.client).setCapturing('replay', false);
+    this.bufferingCallback?.(false);
+
+    logger.info('Instant replay stopped', { ...LOG_CONTEXT, action: 'stop' });
+  }
+
+  // Copies out the most recent audio into the clip library; the buffer keeps running
+  public async saveClip(seconds: ReplayClipLength): Promise<ReplayClip | null> {
+    const ring = this.ring;
+    const sampleRate = this.audioContext?.sampleRate;
+    if (!ring || !sampleRate) {
+      throw new Error('Instant replay is not running');
+    }
+
+    const frames = Math.min(this.filledFrames, seconds * sampleRate);
+    if (frames === 0) return null;
+
+    const samples = new Float32Array(frames);
+    const start = (this.writeIndex - frames + ring.length) % ring.length;
+    if (start + frames <= ring.length) {
+      samples.set(ring.subarray(start, start + frames));
+    } else {
+      const headFrames = ring.length - start;
+      samples.set(ring.subarray(start));
+      samples.set(ring.subarray(0, frames - headFrames), headFrames);
+    }
+
+    const createdAt = Date.now();
+    const clip: ReplayClip = {
+      blob: encodeWav(samples, sampleRate),
+      createdAt,
+      durationSeconds: Math.round(frames / sampleRate),
+      id: crypto.randomUUID(),
+      name: `Clip ${new Date(createdAt).toLocaleString()}`,
+    };
+    await ClipLibraryService.getInstance().add(clip);
+    return clip;
+  }
+
+  private async startBuffer(): Promise<void> {
+    const voiceService = VoiceService.getInstance(this.client);
+    const audioContext = new AudioContext();
+    const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+
+    try {
+      await audioContext.audioWorklet.addModule(moduleUrl);
+      // Started from an effect rather than a click, so the context may begin suspended
+      await audioContext.resume();
+    } catch (error) {
+      void audioContext.close();
+      throw error;
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const tap = new AudioWorkletNode(audioContext, WORKLET_NAME, {
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      processorOptions: { blockFrames: VOICE_CONSTANTS.REPLAY_BLOCK_FRAMES },
+    });
+    tap.port.onmessage = (event: MessageEvent<Float32Array>) => this.write(event.data);
+
+    this.audioContext = audioContext;
+    this.tap = tap;
+    this.ring = new Float32Array(audioContext.sampleRate * VOICE_CONSTANTS.REPLAY_BUFFER_SECONDS);
+    this.writeIndex = 0;
+    this.filledFrames = 0;
+    this.mix = createPartyAudioMix(
+      audioContext,
+      tap,
+      () => voiceService.getPartyAudioTracks(),
+      VOICE_CONSTANTS.RECORDING_SYNC_INTERVAL
+    );
+
+    await voiceService.setCapturing('replay', true);
+    this.bufferingCallback?.(true);
+
+    logger.info('Instant replay started', {
+      ...LOG_CONTEXT,
+      action: 'start',
+      metadata: { sampleRate: audioContext.sampleRate, sourceCount: this.mix.sourceCount() },
+    });
+  }
+
+  private write(block: Float32Array): void {
+    const ring = this.ring;
+    if (!ring) return;
+
+    let offset = 0;
+    while (offset < block.length) {
+      const count = Math.min(block.length - offset, ring.length - this.writeIndex);
+      ring.set(block.subarray(offset, offset + count), this.writeIndex);
+      this.writeIndex = (this.writeIndex + count) % ring.length;
+      offset += count;
+    }
+    this.filledFrames = Math.min(ring.length, this.filledFrames + block.length);
+  }
+}
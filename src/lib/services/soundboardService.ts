@@ -0,0 +1,192 @@
+import type { CustomSound, SoundboardSound } from '@/lib/types/party/media';
+import type { IAgoraRTCClient, ILocalAudioTrack } from 'agora-rtc-sdk-ng';
+
+import AgoraRTC from 'agora-rtc-sdk-ng';
+
+import { BUILT_IN_SOUNDS, VOICE_CONSTANTS } from '@/lib/constants/voice';
+import { logger } from '@/lib/logger';
+import { VoiceService } from '@/lib/services/voiceService';
+import { createObjectStoreOpener, requestToPromise } from '@/lib/utils/indexedDb';
+import { isRateLimited } from '@/lib/utils/rateLimiter';
+import { renderSynthSound } from '@/lib/utils/synthSound';
+
+const LOG_CONTEXT = { component: 'SoundboardService' };
+
+// Plays short sounds into the party through a custom track published next to the mic
+export class SoundboardService {
+  private static instance: SoundboardService | null = null;
+  private client: IAgoraRTCClient;
+  private audioContext: AudioContext | null = null;
+  private output: GainNode | null = null;
+  private track: ILocalAudioTrack | null = null;
+  private buffers: Map<string, AudioBuffer> = new Map(); // Decoded sounds keyed by sound id
+  private playing: Set<AudioBufferSourceNode> = new Set();
+  private getStore = createObjectStoreOpener('party-soundboard', 'sounds');
+
+  private constructor(client: IAgoraRTCClient) {
+    this.client = client;
+  }
+
+  public static getInstance(client: IAgoraRTCClient): SoundboardService {
+    if (!SoundboardService.instance || SoundboardService.instance.client !== client) {
+      SoundboardService.instance = new SoundboardService(client);
+    }
+    return SoundboardService.instance;
+  }
+
+  // Built-in sounds first, then uploads oldest first
+  public async listSounds(): Promise<SoundboardSound[]> {
+    const builtIn = BUILT_IN_SOUNDS.map(({ id, name }) => ({ id, isCustom: false, name }));
+    if (typeof indexedDB === 'undefined') return builtIn;
+
+    const store = await this.getStore('readonly');
+    const custom = await requestToPromise(store.getAll() as IDBRequest<CustomSound[]>);
+    return [
+      ...builtIn,
+      ...custom
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map(({ id, name }) => ({ id, isCustom: true, name })),
+    ];
+  }
+
+  public async addCustomSound(file: File): Promise<SoundboardSound> {
+    if (!file.type.startsWith('audio/')) {
+      throw new Error('Choose an audio file');
+    }
+    if (file.size > VOICE_CONSTANTS.SOUNDBOARD_MAX_UPLOAD_BYTES) {
+      throw new Error('Sounds must be under 1 MB');
+    }
+
+    // Decoding both validates the file and caches it for the first play
+    const buffer = await this.getAudioContext().decodeAudioData(await file.arrayBuffer());
+    if (buffer.duration > VOICE_CONSTANTS.SOUNDBOARD_MAX_SECONDS) {
+      throw new Error(`Sounds must be ${VOICE_CONSTANTS.SOUNDBOARD_MAX_SECONDS} seconds or shorter`);
+    }
+
+    const sound: CustomSound = {
+      blob: file,
+      createdAt: Date.now(),
+      id: crypto.randomUUID(),
+      name: file.name.replace(/\.[^.]+$/, '').slice(0, 40) || 'Sound',
+    };
+    const store = await this.getStore('readwrite');
+    await requestToPromise(store.put(sound));
+    this.buffers.set(sound.id, buffer);
+
+    logger.info('Custom sound added', {
+      ...LOG_CONTEXT,
+      action: 'addCustomSound',
+      metadata: { durationSeconds: buffer.duration, size: file.size },
+    });
+
+    return { id: sound.id, isCustom: true, name: sound.name };
+  }
+
+  public async removeCustomSound(id: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await requestToPromise(store.delete(id));
+    this.buffers.delete(id);
+  }
+
+  public async play(soundId: string, memberId: string): Promise<void> {
+    const voiceService = VoiceService.getInstance(this.client);
+    if (voiceService.isMuted) {
+      throw new Error('Unmute to play sounds');
+    }
+    if (isRateLimited(`soundboard-${memberId}`, VOICE_CONSTANTS.SOUNDBOARD_COOLDOWN)) {
+      throw new Error('Wait a moment before playing another sound');
+    }
+
+    const buffer = await this.loadBuffer(soundId);
+    await voiceService.publishSoundboardTrack(this.getTrack());
+
+    const audioContext = this.getAudioContext();
+    await audioContext.resume();
+
+    const source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.output!);
+    // The player hears their own sound unless they are deafened
+    if (!voiceService.isDeafened) {
+      source.connect(audioContext.destination);
+    }
+    source.onended = () => {
+      source.disconnect();
+      this.playing.delete(source);
+    };
+    this.playing.add(source);
+    source.start();
+
+    void voiceService.announceSoundboardPlay(Math.ceil(buffer.duration * 1000));
+  }
+
+  // Leaving the party takes the sound track down with it
+  public async stop(): Promise<void> {
+    this.playing.forEach((source) => source.stop());
+    this.playing.clear();
+
+    if (this.track) {
+      try {
+        await VoiceService.getInstance(this.client).unpublishSoundboardTrack();
+      } catch (error) {
+        logger.warn('Failed to unpublish soundboard track', {
+          ...LOG_CONTEXT,
+          action: 'stop',
+          metadata: { error },
+        });
+      }
+      this.track.close();
+      this.track = null;
+    }
+
+    this.output = null;
+    void this.audioContext?.close();
+    this.audioContext = null;
+    // Buffers belong to the closed context's sample rate
+    this.buffers.clear();
+  }
+
+  private getAudioContext(): AudioContext {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+    }
+    return this.audioContext;
+  }
+
+  private getTrack(): ILocalAudioTrack {
+    if (!this.track) {
+      const audioContext = this.getAudioContext();
+      const destination = audioContext.createMediaStreamDestination();
+      this.output = audioContext.createGain();
+      this.output.gain.value = VOICE_CONSTANTS.SOUNDBOARD_GAIN;
+      this.output.connect(destination);
+      this.track = AgoraRTC.createCustomAudioTrack({
+        mediaStreamTrack: destination.stream.getAudioTracks()[0]!,
+      });
+    }
+    return this.track;
+  }
+
+  private async loadBuffer(soundId: string): Promise<AudioBuffer> {
+    const cached = this.buffers.get(soundId);
+    if (cached) return cached;
+
+    const audioContext = this.getAudioContext();
+    const builtIn = BUILT_IN_SOUNDS.find((sound) => sound.id === soundId);
+    let buffer: AudioBuffer;
+
+    if (builtIn) {
+      buffer = await renderSynthSound(builtIn.notes, audioContext.sampleRate);
+    } else {
+      const store = await this.getStore('readonly');
+      const sound = await requestToPromise(store.get(soundId) as IDBRequest<CustomSound | undefined>);
+      if (!sound) {
+        throw new Error('That sound was removed');
+      }
+      buffer = await audioContext.decodeAudioData(await sound.blob.arrayBuffer());
+    }
+
+    this.buffers.set(soundId, buffer);
+    return buffer;
+  }
+}
@@ -0,0 +1,436 @@
+import type { CameraFeed, CameraPreset, ScreenShare, VideoKind } from '@/lib/types/party/media';
+import type {
+  IAgoraRTCClient,
+  IAgoraRTCRemoteUser,
+  ILocalVideoTrack,
+  NetworkQuality,
+} from 'agora-rtc-sdk-ng';
+
+import AgoraRTC from 'agora-rtc-sdk-ng';
+
+import {
+  CAMERA_ENCODER_CONFIGS,
+  CAMERA_PRESETS,
+  DEFAULT_CAMERA_PRESET,
+  VOICE_CONSTANTS,
+} from '@/lib/constants/voice';
+import { logger } from '@/lib/logger';
+import { NON_RESUMABLE_DISCONNECTS, VoiceService } from '@/lib/services/voiceService';
+
+const LOG_CONTEXT = { component: 'VideoService' };
+
+type ScreenSharesCallback = (shares: ScreenShare[]) => void;
+type CameraFeedsCallback = (feeds: CameraFeed[]) => void;
+
+// Screen shares and cameras ride on the voice client, which can publish only one video track
+export class VideoService {
+  private static instance: VideoService | null = null;
+  private client: IAgoraRTCClient;
+  private localTrack: ILocalVideoTrack | null = null;
+  private localKind: VideoKind | null = null;
+  private localMemberId: string | null = null;
+  private remoteVideoUsers: Map<string, IAgoraRTCRemoteUser> = new Map(); // Keyed by Agora uid
+  private hiddenCameras: Set<string> = new Set(); // Member ids whose camera this viewer turned off
+  private cameraPreset: CameraPreset = DEFAULT_CAMERA_PRESET;
+  private activeCameraPreset: CameraPreset = DEFAULT_CAMERA_PRESET; // Lower than chosen while the uplink struggles
+  private poorUplinkSamples = 0;
+  private goodUplinkSamples = 0;
+  private sharesCallback: ScreenSharesCallback | null = null;
+  private camerasCallback: CameraFeedsCallback | null = null;
+
+  private constructor(client: IAgoraRTCClient) {
+    this.client = client;
+
+    try {
+      const savedHidden = localStorage.getItem('hiddenCameras');
+      if (savedHidden) {
+        this.hiddenCameras = new Set(JSON.parse(savedHidden) as string[]);
+      }
+    } catch (error) {
+      logger.error('Failed to restore hidden cameras', {
+        ...LOG_CONTEXT,
+        action: 'constructor',
+        metadata: { error },
+      });
+    }
+
+    this.setupEventHandlers();
+    const voiceService = VoiceService.getInstance(this.client);
+    voiceService.onVideoKindsChange(() => void this.syncSubscriptions());
+    voiceService.onLocalVideoRestore((isRestored) => this.restoreLocalVideo(isRestored));
+  }
+
+  public static getInstance(client: IAgoraRTCClient): VideoService {
+    if (!VideoService.instance || VideoService.instance.client !== client) {
+      VideoService.instance = new VideoService(client);
+    }
+    return VideoService.instance;
+  }
+
+  public get isSharing(): boolean {
+    return this.localKind === 'screen';
+  }
+
+  public get isCameraOn(): boolean {
+    return this.localKind === 'camera';
+  }
+
+  public onSharesChange(callback: ScreenSharesCallback | null): void {
+    this.sharesCallback = callback;
+    if (callback) {
+      callback(this.getShares());
+    }
+  }
+
+  public onCamerasChange(callback: CameraFeedsCallback | null): void {
+    this.camerasCallback = callback;
+    if (callback) {
+      callback(this.getCameraFeeds());
+    }
+  }
+
+  public async startShare(memberId: string): Promise<void> {
+    if (this.localKind === 'screen') return;
+    if (this.localKind === 'camera') {
+      throw new Error('Turn off your camera before sharing your screen');
+    }
+
+    this.assertConnected('Join voice before sharing your screen');
+
+    // Opens the browser's screen picker; rejects if the user cancels it
+    const track = await AgoraRTC.createScreenVideoTrack(
+      { encoderConfig: '1080p_1', optimizationMode: 'detail' },
+      'disable'
+    );
+
+    // The browser's own "Stop sharing" button ends the track
+    track.on('track-ended', () => void this.stopShare());
+
+    await this.publishLocalVideo(track, 'screen', memberId);
+  }
+
+  public async stopShare(): Promise<void> {
+    if (this.localKind !== 'screen') return;
+    await this.stopLocalVideo();
+  }
+
+  public async startCamera(memberId: string): Promise<void> {
+    if (this.localKind === 'camera') return;
+    if (this.localKind === 'screen') {
+      throw new Error('Stop sharing your screen before turning on your camera');
+    }
+
+    this.assertConnected('Join voice before turning on your camera');
+
+    // Always start at the chosen preset; the uplink gets a fresh chance each time
+    this.activeCameraPreset = this.cameraPreset;
+    this.poorUplinkSamples = 0;
+    this.goodUplinkSamples = 0;
+
+    const track = await AgoraRTC.createCameraVideoTrack({
+      encoderConfig: CAMERA_ENCODER_CONFIGS[this.activeCameraPreset],
+      optimizationMode: 'motion',
+    });
+
+    await this.publishLocalVideo(track, 'camera', memberId);
+  }
+
+  public async stopCamera(): Promise<void> {
+    if (this.localKind !== 'camera') return;
+    await this.stopLocalVideo();
+  }
+
+  public async setCameraPreset(preset: CameraPreset): Promise<void> {
+    if (this.cameraPreset === preset) return;
+    this.cameraPreset = preset;
+    this.poorUplinkSamples = 0;
+    this.goodUplinkSamples = 0;
+    await this.applyCameraPreset(preset);
+  }
+
+  public setCameraHidden(memberId: string, isHidden: boolean): void {
+    if (isHidden) {
+      this.hiddenCameras.add(memberId);
+    } else {
+      this.hiddenCameras.delete(memberId);
+    }
+    localStorage.setItem('hiddenCameras', JSON.stringify(Array.from(this.hiddenCameras)));
+    void this.syncSubscriptions();
+  }
+
+  // Unpublishes whichever video track is live; also used when leaving the party
+  public async stopLocalVideo(): Promise<void> {
+    const track = this.localTrack;
+    const kind = this.localKind;
+    if (!track) return;
+
+    this.localTrack = null;
+    this.localKind = null;
+    this.localMemberId = null;
+
+    try {
+      if (this.client.connectionState === 'CONNECTED') {
+        await this.client.unpublish(track);
+      }
+    } catch (error) {
+      logger.warn('Failed to unpublish video', {
+        ...LOG_CONTEXT,
+        action: 'stopLocalVideo',
+        metadata: { error, kind },
+      });
+    } finally {
+      track.close();
+      void VoiceService.getInstance(this.client).setLocalVideoKind(null);
+      this.notifyFeeds();
+    }
+
+    logger.info('Local video stopped', {
+      ...LOG_CONTEXT,
+      action: 'stopLocalVideo',
+      metadata: { kind },
+    });
+  }
+
+  // Republish after the voice service rejoins, or stop once it gives up; throws if the track could not go back out
+  private async restoreLocalVideo(isRestored: boolean): Promise<void> {
+    const track = this.localTrack;
+    if (!track) return;
+
+    if (!isRestored) {
+      await this.stopLocalVideo();
+      return;
+    }
+    if (this.client.localTracks.includes(track)) return;
+
+    try {
+      await this.client.publish(track);
+    } catch (error) {
+      await this.stopLocalVideo();
+      throw error;
+    }
+
+    logger.info('Local video restored', {
+      ...LOG_CONTEXT,
+      action: 'restoreLocalVideo',
+      metadata: { kind: this.localKind },
+    });
+  }
+
+  private assertConnected(message: string): void {
+    if (this.client.connectionState !== 'CONNECTED') {
+      throw new Error(message);
+    }
+  }
+
+  private async publishLocalVideo(track: ILocalVideoTrack, kind: VideoKind, memberId: string): Promise<void> {
+    // Announce first so viewers can place the track as soon as it arrives
+    await VoiceService.getInstance(this.client).setLocalVideoKind(kind);
+
+    try {
+      await this.client.publish(track);
+    } catch (error) {
+      track.close();
+      void VoiceService.getInstance(this.client).setLocalVideoKind(null);
+      throw error;
+    }
+
+    this.localTrack = track;
+    this.localKind = kind;
+    this.localMemberId = memberId;
+    this.notifyFeeds();
+
+    logger.info('Local video started', {
+      ...LOG_CONTEXT,
+      action: 'publishLocalVideo',
+      metadata: { kind, memberId },
+    });
+  }
+
+  private async applyCameraPreset(preset: CameraPreset): Promise<void> {
+    this.activeCameraPreset = preset;
+    if (this.localKind !== 'camera' || !this.localTrack) return;
+
+    try {
+      await this.localTrack.setEncoderConfiguration(CAMERA_ENCODER_CONFIGS[preset]);
+    } catch (error) {
+      logger.warn('Failed to apply camera preset', {
+        ...LOG_CONTEXT,
+        action: 'applyCameraPreset',
+        metadata: { error, preset },
+      });
+    }
+  }
+
+  // Step down one preset after sustained poor uplink, and back up once it has been good for a while
+  private handleUplinkQuality({ uplinkNetworkQuality }: NetworkQuality): void {
+    if (this.localKind !== 'camera' || uplinkNetworkQuality === 0) return;
+
+    const activeIndex = CAMERA_PRESETS.indexOf(this.activeCameraPreset);
+    const chosenIndex = CAMERA_PRESETS.indexOf(this.cameraPreset);
+
+    if (uplinkNetworkQuality >= VOICE_CONSTANTS.CAMERA_POOR_UPLINK_QUALITY) {
+      this.goodUplinkSamples = 0;
+      this.poorUplinkSamples++;
+      if (this.poorUplinkSamples < VOICE_CONSTANTS.CAMERA_DOWNGRADE_SAMPLES || activeIndex === 0) return;
+
+      this.poorUplinkSamples = 0;
+      const preset = CAMERA_PRESETS[activeIndex - 1]!;
+      logger.info('Downgrading camera for poor uplink', {
+        ...LOG_CONTEXT,
+        action: 'handleUplinkQuality',
+        metadata: { preset, uplinkNetworkQuality },
+      });
+      void this.applyCameraPreset(preset);
+      return;
+    }
+
+    this.poorUplinkSamples = 0;
+    if (uplinkNetworkQuality > 2 || activeIndex >= chosenIndex) {
+      this.goodUplinkSamples = 0;
+      return;
+    }
+
+    this.goodUplinkSamples++;
+    if (this.goodUplinkSamples < VOICE_CONSTANTS.CAMERA_UPGRADE_SAMPLES) return;
+
+    this.goodUplinkSamples = 0;
+    void this.applyCameraPreset(CAMERA_PRESETS[activeIndex + 1]!);
+  }
+
+  private setupEventHandlers(): void {
+    this.client.on('user-published', (user, mediaType) => {
+      if (mediaType !== 'video') return;
+      this.remoteVideoUsers.set(user.uid.toString(), user);
+      void this.syncSubscriptions();
+    });
+
+    this.client.on('user-unpublished', (user, mediaType) => {
+      if (mediaType !== 'video') return;
+      this.removeRemoteVideo(user.uid.toString());
+    });
+
+    this.client.on('user-left', (user) => {
+      this.removeRemoteVideo(user.uid.toString());
+    });
+
+    this.client.on('network-quality', (quality) => this.handleUplinkQuality(quality));
+
+    // Leaving the channel unpublishes everything. Drops, token expiry and room moves rejoin and hand
+    // our track back, so only a real leave or a removal stops it.
+    this.client.on('connection-state-change', (curState, _prevState, reason) => {
+      if (curState !== 'DISCONNECTED') return;
+
+      this.remoteVideoUsers.clear();
+      const willRejoin =
+        VoiceService.getInstance(this.client).isRejoiningChannel ||
+        reason === 'TOKEN_EXPIRE' ||
+        !reason ||
+        !NON_RESUMABLE_DISCONNECTS.has(reason);
+      if (this.localTrack && !willRejoin) {
+        void this.stopLocalVideo();
+      } else {
+        this.notifyFeeds();
+      }
+    });
+  }
+
+  // Hidden cameras are unsubscribed so they cost no bandwidth; everything else is received
+  private async syncSubscriptions(): Promise<void> {
+    const voiceService = VoiceService.getInstance(this.client);
+
+    for (const [uid, user] of Array.from(this.remoteVideoUsers.entries())) {
+      const memberId = voiceService.resolveMemberId(uid);
+      const shouldReceive = !(
+        voiceService.getVideoKind(uid) === 'camera' &&
+        memberId &&
+        this.hiddenCameras.has(memberId)
+      );
+
+      try {
+        if (shouldReceive && !user.videoTrack) {
+          await this.client.subscribe(user, 'video');
+        } else if (!shouldReceive && user.videoTrack) {
+          await this.client.unsubscribe(user, 'video');
+        }
+      } catch (error) {
+        logger.error('Failed to update video subscription', {
+          ...LOG_CONTEXT,
+          action: 'syncSubscriptions',
+          metadata: { error, shouldReceive, uid },
+        });
+      }
+    }
+
+    this.notifyFeeds();
+  }
+
+  private removeRemoteVideo(uid: string): void {
+    if (this.remoteVideoUsers.delete(uid)) {
+      this.notifyFeeds();
+    }
+  }
+
+  private getShares(): ScreenShare[] {
+    const voiceService = VoiceService.getInstance(this.client);
+    const shares: ScreenShare[] = [];
+
+    if (this.localTrack && this.localKind === 'screen') {
+      shares.push({
+        isLocal: true,
+        memberId: this.localMemberId,
+        track: this.localTrack,
+        uid: this.client.uid?.toString() ?? 'local',
+      });
+    }
+
+    // Tracks stay out of view until their publisher has said what they are
+    this.remoteVideoUsers.forEach((user, uid) => {
+      if (!user.videoTrack || voiceService.getVideoKind(uid) !== 'screen') return;
+      shares.push({
+        isLocal: false,
+        memberId: voiceService.resolveMemberId(uid),
+        track: user.videoTrack,
+        uid,
+      });
+    });
+
+    return shares;
+  }
+
+  private getCameraFeeds(): CameraFeed[] {
+    const voiceService = VoiceService.getInstance(this.client);
+    const feeds: CameraFeed[] = [];
+
+    if (this.localTrack && this.localKind === 'camera') {
+      feeds.push({
+        isHidden: false,
+        isLocal: true,
+        memberId: this.localMemberId,
+        track: this.localTrack,
+        uid: this.client.uid?.toString() ?? 'local',
+      });
+    }
+
+    this.remoteVideoUsers.forEach((user, uid) => {
+      if (voiceService.getVideoKind(uid) !== 'camera') return;
+      const memberId = voiceService.resolveMemberId(uid);
+      const isHidden = !!memberId && this.hiddenCameras.has(memberId);
+      if (!isHidden && !user.videoTrack) return;
+
+      feeds.push({
+        isHidden,
+        isLocal: false,
+        memberId,
+        track: isHidden ? null : user.videoTrack ?? null,
+        uid,
+      });
+    });
+
+    return feeds;
+  }
+
+  private notifyFeeds(): void {
+    this.sharesCallback?.(this.getShares());
+    this.camerasCallback?.(this.getCameraFeeds());
+  }
+}
@@ -1,15 +1,39 @@
+import type { AgoraTokenResponse, AgoraTokenRole } from '@/lib/types/agora';
+import type { CaptureSource, VideoKind } from '@/lib/types/party/media';
 import type { VoiceMemberState, VoiceStatus } from '@/lib/types/party/member';
+import type {
+  AudioDeviceKind,
+  AudioDeviceLists,
+  AudioProcessingSettings,
+  DenoiserLevel,
+  DenoiserMode,
+  MemberLinkState,
+  MemberNetworkStats,
+  MicTestResult,
+  NetworkQualityLevel,
+  VoiceInputMode,
+} from '@/lib/types/party/voice';
 import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
-import type { IMicrophoneAudioTrack, IAgoraRTCClient } from 'agora-rtc-sdk-ng';
+import type {
+  DeviceInfo,
+  IAgoraRTCClient,
+  ILocalAudioTrack,
+  IMicrophoneAudioTrack,
+  IRemoteAudioTrack,
+  NetworkQuality,
+} from 'agora-rtc-sdk-ng';
 
 import { AIDenoiserExtension, AIDenoiserProcessorMode, AIDenoiserProcessorLevel, IAIDenoiserProcessor } from "agora-extension-ai-denoiser";
 import AgoraRTC from 'agora-rtc-sdk-ng';
 
-import { VOICE_CONSTANTS } from '@/lib/constants/voice';
+import { DEFAULT_AUDIO_PROCESSING, VOICE_CONSTANTS } from '@/lib/constants/voice';
 import { logger } from '@/lib/logger';
 import { PresenceService } from '@/lib/services/presenceService';
 import { supabase } from '@/lib/supabase';
+import { fetchAgoraToken } from '@/lib/utils/agoraToken';
+import { AudioLevelMonitor, createAudioLevelMonitor } from '@/lib/utils/audioLevel';
 import { isRateLimited } from '@/lib/utils/rateLimiter';
+import { StereoPanProcessor } from '@/lib/utils/stereoPanProcessor';
 
 import { PartyMember } from '../types/party/member';
 
@@ -25,9 +49,59 @@ interface VoiceUpdate {
   timestamp: number;
   voice_status: VoiceStatus;
   agora_uid?: string;
+  recording?: boolean;
+  whispering_to?: string | null;
+}
+
+interface NetworkUpdate extends MemberNetworkStats {
+  agora_uid?: string;
+}
+
+interface VideoUpdate {
+  agora_uid: string;
+  id: string;
+  kind: VideoKind | null;
+  timestamp: number;
+}
+
+interface SoundboardUpdate {
+  agora_uid: string;
+  duration_ms: number;
+  id: string;
 }
 
 type VoiceCallback = (volumes: VoiceMemberState[]) => void;
+type NetworkStatsCallback = (stats: MemberNetworkStats[]) => void;
+type LinkStateCallback = (linkState: MemberLinkState) => void;
+type VideoKindsCallback = () => void;
+type LocalVideoRestoreCallback = (isRestored: boolean) => Promise<void>;
+
+// Realtime channel prefix for voice state, followed by the Agora channel name so each voice room only hears its own
+const VOICE_UPDATES_CHANNEL_PREFIX = 'voice_updates:';
+
+// Disconnect reasons that mean we were removed on purpose, so resuming would be wrong.
+// Token expiry has its own rejoin path.
+export const NON_RESUMABLE_DISCONNECTS = new Set(['CHANNEL_BANNED', 'IP_BANNED', 'LEAVE', 'TOKEN_EXPIRE', 'UID_BANNED']);
+type VoiceErrorCallback = (error: Error) => void;
+type DeviceFallbackCallback = (kind: AudioDeviceKind) => void;
+
+const TOKEN_RENEWAL_MAX_ATTEMPTS = 3;
+const TOKEN_RENEWAL_BASE_DELAY = 2000;
+
+const DENOISER_MODES: Record<DenoiserMode, AIDenoiserProcessorMode> = {
+  nsng: AIDenoiserProcessorMode.NSNG,
+  stationary: AIDenoiserProcessorMode.STATIONARY_NS,
+};
+
+const DENOISER_LEVELS: Record<DenoiserLevel, AIDenoiserProcessorLevel> = {
+  aggressive: AIDenoiserProcessorLevel.AGGRESSIVE,
+  soft: AIDenoiserProcessorLevel.SOFT,
+};
+
+interface JoinOptions {
+  inputDeviceId?: string | null; // Microphone chosen in the pre-join mic test
+  role?: AgoraTokenRole;
+}
 
 export class VoiceService {
   private static instance: VoiceService = {} as VoiceService;
@@ -37,6 +111,28 @@ export class VoiceService {
   private audioTrack: IMicrophoneAudioTrack | null = null;
   private _isMuted: boolean = false;
   private volumeCallback: VoiceCallback | null = null;
+  private errorCallback: VoiceErrorCallback | null = null;
+  private deviceFallbackCallback: DeviceFallbackCallback | null = null;
+  private networkStatsCallback: NetworkStatsCallback | null = null;
+  private networkStats: Map<string, MemberNetworkStats> = new Map();
+  private linkState: MemberLinkState = 'connected';
+  private linkStateCallback: LinkStateCallback | null = null;
+  private isResuming = false;
+  private captureSources: Set<CaptureSource> = new Set();
+  private localVideoKind: VideoKind | null = null;
+  private remoteVideoKinds: Map<string, VideoKind> = new Map(); // Keyed by Agora uid
+  private videoKindsCallback: VideoKindsCallback | null = null;
+  private localVideoRestoreCallback: LocalVideoRestoreCallback | null = null;
+  private soundboardTrack: ILocalAudioTrack | null = null;
+  private isSoundboardMuted = false;
+  private soundboardDucks: Map<string, ReturnType<typeof setTimeout>> = new Map(); // Keyed by Agora uid
+  private isPartyDucked = false; // Turned down while the user is on a direct call
+  private whisperTargetId: string | null = null; // The party hears nothing while we whisper
+  private isRenewingToken = false;
+  private isRejoining = false; // Our own leave and join, which video should not treat as a drop
+  private isServerMuted = false; // Muted for everyone by a party host
+  private _isDeafened = false;
+  private wasMutedBeforeDeafen = false;
   private memberVoiceStates: Map<string, VoiceMemberState> = new Map();
   private _isJoined: boolean = false;
   private joinMutex: Promise<void> = Promise.resolve();
@@ -50,7 +146,25 @@ export class VoiceService {
   private currentMemberId: string | null = null;
   private isVadSpeaking: boolean = false;
   private memberMuteStates: Map<string, boolean> = new Map();
+  private memberVolumes: Map<string, number> = new Map(); // Playback percent keyed by member id, kept across joins
+  private memberPans: Map<string, number> = new Map(); // Empty while spatial audio is off
+  private panProcessors: Map<string, { processor: StereoPanProcessor; track: IRemoteAudioTrack }> = new Map(); // Keyed by Agora uid
   private aiDenoiserProcessor: IAIDenoiserProcessor | null = null;
+  private currentChannelName: string | null = null;
+  private currentRole: AgoraTokenRole = 'publisher';
+  private grantedRole: AgoraTokenRole = 'publisher'; // What the server issued; listen-only while the host has us muted
+  private inputMode: VoiceInputMode = 'open_mic';
+  private isInputGateOpen = true; // Push-to-talk key held or voice detected; always open for open mic
+  private inputGateReleaseTimer: ReturnType<typeof setTimeout> | null = null;
+  private inputGateMutex: Promise<void> = Promise.resolve();
+  private voiceActivityMonitor: AudioLevelMonitor | null = null;
+  private inputDeviceId: string | null = null; // null follows the system default
+  private outputDeviceId: string | null = null;
+  private deviceSwitchedAt = 0;
+  private micTestTrack: IMicrophoneAudioTrack | null = null;
+  private micTestInterval: ReturnType<typeof setInterval> | null = null;
+  private micTestLevelCallback: ((level: number) => void) | null = null;
+  private audioProcessing: AudioProcessingSettings = DEFAULT_AUDIO_PROCESSING;
 
   constructor(client: IAgoraRTCClient, supabase: SupabaseClient) {
     this.client = client;
@@ -78,25 +192,51 @@ export class VoiceService {
       });
     }
 
+    // Restore saved per-member playback volumes
+    try {
+      const savedVolumes = localStorage.getItem('memberVolumes');
+      if (savedVolumes) {
+        Object.entries(JSON.parse(savedVolumes)).forEach(([memberId, volume]) => {
+          this.memberVolumes.set(memberId, volume as number);
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to restore member volumes', {
+        component: 'VoiceService',
+        action: 'constructor',
+        metadata: { error }
+      });
+    }
+
     this.setupEventHandlers();
+    this.setupDeviceChangeHandlers();
     this.setupAIDenoiser();
 
-    // Enable volume indicator
-    // @ts-expect-error - Type definitions don't match Agora SDK's actual API
-    this.client.enableAudioVolumeIndicator({
-      interval: 200,
-      smooth: 3,
-      enableVad: true
-    });
+    this.enableVolumeIndicator();
 
     // Listen for client state changes
-    this.client.on('connection-state-change', (curState, prevState) => {
+    this.client.on('connection-state-change', (curState, prevState, reason) => {
       logger.debug('Agora client connection state changed', {
         component: 'VoiceService',
         action: 'connectionStateChange',
-        metadata: { curState, prevState },
+        metadata: { curState, prevState, reason },
       });
 
+      // Let the party know about drops, and resume once the SDK stops retrying on its own
+      if (curState === 'RECONNECTING') {
+        void this.setLinkState('reconnecting');
+      } else if (curState === 'CONNECTED' && !this.isResuming) {
+        void this.setLinkState('connected');
+      } else if (curState === 'DISCONNECTED' && this._isJoined) {
+        if (reason === 'TOKEN_EXPIRE') {
+          void this.rejoinWithFreshToken();
+        } else if (!reason || !NON_RESUMABLE_DISCONNECTS.has(reason)) {
+          void this.resumeSession();
+        } else if (reason !== 'LEAVE') {
+          void this.setLinkState('disconnected');
+        }
+      }
+
       // Only initialize broadcast channel when we're fully connected and have a UID
       if (curState === 'CONNECTED' && this.client.uid && !this.broadcastChannel) {
         void this.initializeBroadcastChannel();
@@ -108,6 +248,16 @@ export class VoiceService {
       }
     });
 
+    // Coming back online after giving up is worth another try
+    window.addEventListener('online', () => {
+      if (this.linkState === 'disconnected') {
+        void this.resumeSession();
+      }
+    });
+
+    // Fires every two seconds while in a channel
+    this.client.on('network-quality', (quality) => this.handleNetworkQuality(quality));
+
     // Set up more frequent member mapping synchronization
     setInterval(() => {
       if (this._isJoined) {
@@ -129,6 +279,12 @@ export class VoiceService {
         if (this.volumeCallback) {
           this.volumeCallback(Array.from(this.memberVoiceStates.values()));
         }
+        if (this.networkStats.delete(memberId)) {
+          this.networkStatsCallback?.(Array.from(this.networkStats.values()));
+        }
+      }
+      if (this.remoteVideoKinds.delete(user.uid.toString())) {
+        this.videoKindsCallback?.();
       }
       void this.synchronizeMemberMappings();
     });
@@ -305,10 +461,23 @@ export class VoiceService {
   }
 
   private setupEventHandlers() {
+    // Keep long sessions alive as short-lived tokens approach expiry
+    this.client.on('token-privilege-will-expire', () => {
+      void this.renewToken();
+    });
+
+    // Renewing in place keeps every published track live; once Agora has dropped us, the disconnect rejoins instead
+    this.client.on('token-privilege-did-expire', () => {
+      if (this.client.connectionState === 'CONNECTED') {
+        void this.renewToken();
+      }
+    });
+
     this.client.on('user-unpublished', async (user, mediaType) => {
       if (mediaType === 'audio' && user.audioTrack) {
         user.audioTrack.stop();
         await this.client.unsubscribe(user, mediaType);
+        this.applyMemberPans();
       }
     });
 
@@ -421,14 +590,15 @@ export class VoiceService {
           // Subscribe only if not muted
           await this.client.subscribe(user, mediaType);
 
+          // Stay subscribed while deafened so undeafening can resume playback
           if (user.audioTrack) {
-            // Ensure clean state
+            // Ensure clean state at the member's saved volume, which undeafening then plays at
             user.audioTrack.stop();
-            await user.audioTrack.setVolume(0);
+            user.audioTrack.setVolume(this.getPlaybackVolume(mappedMemberId));
+          }
 
-            // Play audio since we know they're not muted
-            await user.audioTrack.setVolume(100);
-            user.audioTrack.play();
+          if (user.audioTrack && !this._isDeafened) {
+            await this.startRemotePlayback(user.audioTrack);
 
             logger.info('Playing remote user audio', {
               component: 'VoiceService',
@@ -436,6 +606,7 @@ export class VoiceService {
               metadata: { userId: user.uid, memberId: mappedMemberId }
             });
           }
+          this.applyMemberPans();
 
           // Set initial voice state for remote user
           const voiceState: VoiceMemberState = {
@@ -443,8 +614,9 @@ export class VoiceService {
             level: 0,
             voice_status: isLocallyMuted ? 'muted' : 'silent',
             muted: isLocallyMuted,
-            is_deafened: false,
+            is_deafened: this.memberVoiceStates.get(mappedMemberId)?.is_deafened ?? false,
             agora_uid: user.uid.toString(),
+            whispering_to: this.memberVoiceStates.get(mappedMemberId)?.whispering_to,
             timestamp: Date.now(),
           };
 
@@ -497,12 +669,17 @@ export class VoiceService {
 
     // Add audio quality monitoring
     this.client.on('exception', async (event) => {
-      // Skip all audio quality warnings when muted
-      if (!this._isJoined || this._isMuted) return;
+      // Skip all audio quality warnings when muted or the input gate is closed
+      if (!this._isJoined || this._isMuted || !this.isInputGateOpen) return;
 
       switch (event.code) {
         case 2001: // AUDIO_INPUT_LEVEL_TOO_LOW
         case 2003: // SEND_AUDIO_BITRATE_TOO_LOW
+          // A device switch briefly drops input; recovering the track then would loop
+          if (Date.now() - this.deviceSwitchedAt < VOICE_CONSTANTS.DEVICE_SWITCH_GRACE_PERIOD) {
+            break;
+          }
+
           this.lowAudioCount++;
           logger.warn('Audio quality issue detected', {
             metadata: {
@@ -554,6 +731,10 @@ export class VoiceService {
 
   private async setupBroadcastChannel() {
     const clientState = this.client.connectionState;
+    const channelName = this.currentChannelName;
+
+    // The SDK can report a connection before join() records the channel; join sets the channel up itself
+    if (!channelName) return;
 
     // Clean up existing channel if any
     if (this.broadcastChannel) {
@@ -584,6 +765,7 @@ export class VoiceService {
       component: 'VoiceService',
       action: 'setupBroadcastChannel',
       metadata: {
+        channelName,
         presenceKey,
         isTemporaryKey,
         clientState,
@@ -593,7 +775,7 @@ export class VoiceService {
     });
 
     // Create new broadcast channel with enhanced config
-    this.broadcastChannel = this.supabase.channel('voice_updates', {
+    this.broadcastChannel = this.supabase.channel(`${VOICE_UPDATES_CHANNEL_PREFIX}${channelName}`, {
       config: {
         broadcast: {
           self: true,
@@ -634,6 +816,18 @@ export class VoiceService {
       this.handleVoiceUpdate(payload as VoiceUpdate);
     });
 
+    this.broadcastChannel.on('broadcast', { event: 'network_update' }, ({ payload }) => {
+      this.handleNetworkUpdate(payload as NetworkUpdate);
+    });
+
+    this.broadcastChannel.on('broadcast', { event: 'video_update' }, ({ payload }) => {
+      this.handleVideoUpdate(payload as VideoUpdate);
+    });
+
+    this.broadcastChannel.on('broadcast', { event: 'soundboard_update' }, ({ payload }) => {
+      this.handleSoundboardUpdate(payload as SoundboardUpdate);
+    });
+
     // Subscribe to channel with timeout promise
     try {
       const subscribePromise = this.broadcastChannel.subscribe((status) => {
@@ -765,6 +959,8 @@ export class VoiceService {
       muted: isLocallyMuted || update.muted, // Combine local and remote mute states
       is_deafened: update.is_deafened,
       agora_uid: update.agora_uid ?? existingState?.agora_uid,
+      recording: update.recording ?? false,
+      whispering_to: update.whispering_to ?? null,
       timestamp: update.timestamp,
     };
 
@@ -810,6 +1006,9 @@ export class VoiceService {
                 muted: state.muted,
                 is_deafened: state.is_deafened,
                 agora_uid: state.agora_uid,
+                // Local states are rebuilt in many places, so our own flag is added here
+                recording: state.id === this.currentMemberId ? this.captureSources.size > 0 : state.recording,
+                whispering_to: state.id === this.currentMemberId ? this.whisperTargetId : state.whispering_to,
                 timestamp: state.timestamp,
                 source: 'voice_service'
             }
@@ -824,6 +1023,356 @@ export class VoiceService {
     }
   }
 
+  public onNetworkStats(callback: NetworkStatsCallback | null): void {
+    this.networkStatsCallback = callback;
+    if (callback) {
+      callback(Array.from(this.networkStats.values()));
+    }
+  }
+
+  private handleNetworkQuality(quality: NetworkQuality): void {
+    if (!this._isJoined || !this.currentMemberId) return;
+
+    // Listen-only members have no local track, so fall back to the session totals
+    const rtcStats = this.client.getRTCStats();
+    const audioStats = this.audioTrack ? this.client.getLocalAudioStats() : null;
+
+    const stats: MemberNetworkStats = {
+      id: this.currentMemberId,
+      // Higher is worse; 0 only when both directions are still unknown
+      quality: Math.max(quality.uplinkNetworkQuality, quality.downlinkNetworkQuality) as NetworkQualityLevel,
+      packetLoss: Math.round((audioStats?.currentPacketLossRate ?? 0) * 10) / 10,
+      jitter: audioStats?.sendJitterMs ?? 0,
+      rtt: audioStats?.sendRttMs || rtcStats.RTT || 0,
+      bitrate: Math.round((audioStats?.sendBitrate || rtcStats.RecvBitrate || 0) / 1000),
+      linkState: this.linkState,
+      timestamp: Date.now(),
+    };
+
+    this.setNetworkStats(stats);
+    void this.broadcastNetworkStats(stats);
+
+    // Members who joined after we started publishing video or recording missed the first announcement
+    if (this.localVideoKind) {
+      void this.broadcastVideoKind();
+    }
+    if (this.captureSources.size > 0) {
+      void this.broadcastOwnVoiceState();
+    }
+  }
+
+  private async setLinkState(linkState: MemberLinkState): Promise<void> {
+    if (this.linkState === linkState) return;
+    this.linkState = linkState;
+    this.linkStateCallback?.(linkState);
+
+    logger.info('Voice link state changed', {
+      component: 'VoiceService',
+      action: 'setLinkState',
+      metadata: { linkState, memberId: this.currentMemberId },
+    });
+
+    if (!this._isJoined || !this.currentMemberId) return;
+
+    // Broadcast right away rather than waiting for the next quality sample
+    const stats: MemberNetworkStats = {
+      bitrate: 0,
+      jitter: 0,
+      packetLoss: 0,
+      quality: linkState === 'connected' ? 0 : 6,
+      rtt: 0,
+      ...this.networkStats.get(this.currentMemberId),
+      id: this.currentMemberId,
+      linkState,
+      timestamp: Date.now(),
+    };
+    this.setNetworkStats(stats);
+    await this.broadcastNetworkStats(stats);
+  }
+
+  private setNetworkStats(stats: MemberNetworkStats): void {
+    this.networkStats.set(stats.id, stats);
+    this.networkStatsCallback?.(Array.from(this.networkStats.values()));
+  }
+
+  private handleNetworkUpdate(update: NetworkUpdate): void {
+    // Our own stats are recorded before they are sent
+    if (update.id === this.currentMemberId) return;
+
+    // Same spoofing guard as voice updates, without creating new mappings
+    const mappedAgoraUid = this.getAgoraUidFromMemberId(update.id);
+    if (mappedAgoraUid && mappedAgoraUid !== update.agora_uid) {
+      logger.warn('Rejected network update - agora uid mismatch', {
+        component: 'VoiceService',
+        action: 'handleNetworkUpdate',
+        metadata: { memberId: update.id, updateAgoraUid: update.agora_uid },
+      });
+      return;
+    }
+
+    this.setNetworkStats({
+      id: update.id,
+      bitrate: update.bitrate,
+      jitter: update.jitter,
+      linkState: update.linkState,
+      packetLoss: update.packetLoss,
+      quality: update.quality,
+      rtt: update.rtt,
+      timestamp: update.timestamp,
+    });
+  }
+
+  private async broadcastNetworkStats(stats: MemberNetworkStats): Promise<void> {
+    if (!this.broadcastChannel || !this._isJoined) return;
+
+    try {
+      await this.broadcastChannel.send({
+        type: 'broadcast',
+        event: 'network_update',
+        payload: {
+          ...stats,
+          agora_uid: this.client.uid?.toString(),
+        },
+      });
+    } catch (error) {
+      logger.warn('Failed to broadcast network stats', {
+        component: 'VoiceService',
+        action: 'broadcastNetworkStats',
+        metadata: { error },
+      });
+    }
+  }
+
+  // Everyone in the party must be able to tell that they are being recorded
+  public async setCapturing(source: CaptureSource, isCapturing: boolean): Promise<void> {
+    const wasCapturing = this.captureSources.size > 0;
+    if (isCapturing) {
+      this.captureSources.add(source);
+    } else {
+      this.captureSources.delete(source);
+    }
+    if (wasCapturing !== this.captureSources.size > 0) {
+      await this.broadcastOwnVoiceState();
+    }
+  }
+
+  // The microphone and every subscribed remote voice, for mixing down on this device
+  public getPartyAudioTracks(): MediaStreamTrack[] {
+    const tracks: MediaStreamTrack[] = [];
+    const localTrack = this.audioTrack?.getMediaStreamTrack();
+    if (localTrack) {
+      tracks.push(localTrack);
+    }
+    const soundboardTrack = this.soundboardTrack?.getMediaStreamTrack();
+    if (soundboardTrack) {
+      tracks.push(soundboardTrack);
+    }
+    this.client.remoteUsers.forEach((user) => {
+      if (user.audioTrack) {
+        tracks.push(user.audioTrack.getMediaStreamTrack());
+      }
+    });
+    return tracks.filter((track) => track.readyState === 'live');
+  }
+
+  private async broadcastOwnVoiceState(): Promise<void> {
+    if (!this.currentMemberId) return;
+
+    const existingState = this.memberVoiceStates.get(this.currentMemberId);
+    await this.broadcastVoiceUpdate({
+      id: this.currentMemberId,
+      level: existingState?.level ?? 0,
+      voice_status: existingState?.voice_status ?? (this._isMuted ? 'muted' : 'silent'),
+      muted: existingState?.muted ?? this._isMuted,
+      is_deafened: this._isDeafened,
+      agora_uid: this.client.uid?.toString(),
+      timestamp: existingState?.timestamp, // A fresh timestamp would sort us as a recent speaker
+    }).catch(() => {}); // Already logged; the next heartbeat retries
+  }
+
+  // Remote video tracks carry no kind, so publishers announce whether they send a camera or a screen
+  public onVideoKindsChange(callback: VideoKindsCallback | null): void {
+    this.videoKindsCallback = callback;
+  }
+
+  // The video service keeps its track through our own rejoins; it republishes once we are back, or stops if we give up
+  public onLocalVideoRestore(callback: LocalVideoRestoreCallback | null): void {
+    this.localVideoRestoreCallback = callback;
+  }
+
+  public get isRejoiningChannel(): boolean {
+    return this.isRejoining;
+  }
+
+  public getVideoKind(agoraUid: number | string): VideoKind | null {
+    return this.remoteVideoKinds.get(agoraUid.toString()) ?? null;
+  }
+
+  public async setLocalVideoKind(kind: VideoKind | null): Promise<void> {
+    if (this.localVideoKind === kind) return;
+    this.localVideoKind = kind;
+    await this.broadcastVideoKind();
+  }
+
+  private handleVideoUpdate(update: VideoUpdate): void {
+    if (update.id === this.currentMemberId) return;
+
+    const mappedAgoraUid = this.getAgoraUidFromMemberId(update.id);
+    if (mappedAgoraUid && mappedAgoraUid !== update.agora_uid) {
+      logger.warn('Rejected video update - agora uid mismatch', {
+        component: 'VoiceService',
+        action: 'handleVideoUpdate',
+        metadata: { memberId: update.id, updateAgoraUid: update.agora_uid },
+      });
+      return;
+    }
+
+    if ((this.remoteVideoKinds.get(update.agora_uid) ?? null) === update.kind) return;
+
+    if (update.kind) {
+      this.remoteVideoKinds.set(update.agora_uid, update.kind);
+    } else {
+      this.remoteVideoKinds.delete(update.agora_uid);
+    }
+    this.videoKindsCallback?.();
+  }
+
+  private async broadcastVideoKind(): Promise<void> {
+    if (!this.broadcastChannel || !this._isJoined || !this.currentMemberId || !this.client.uid) return;
+
+    try {
+      await this.broadcastChannel.send({
+        type: 'broadcast',
+        event: 'video_update',
+        payload: {
+          agora_uid: this.client.uid.toString(),
+          id: this.currentMemberId,
+          kind: this.localVideoKind,
+          timestamp: Date.now(),
+        },
+      });
+    } catch (error) {
+      logger.warn('Failed to broadcast video kind', {
+        component: 'VoiceService',
+        action: 'broadcastVideoKind',
+        metadata: { error },
+      });
+    }
+  }
+
+  // Agora mixes every published local audio track into the one stream others hear, so the
+  // soundboard rides alongside the mic without opening the push-to-talk or voice gate
+  public async publishSoundboardTrack(track: ILocalAudioTrack): Promise<void> {
+    if (!this._isJoined) {
+      throw new Error('Join voice before playing sounds');
+    }
+    if (this.isServerMuted) {
+      throw new Error('A host has muted you for everyone');
+    }
+
+    this.soundboardTrack = track;
+    // Stays published between sounds, and rejoins put it back out
+    if (!this.client.localTracks.includes(track)) {
+      await this.client.publish(track);
+    }
+  }
+
+  public async unpublishSoundboardTrack(): Promise<void> {
+    const track = this.soundboardTrack;
+    this.soundboardTrack = null;
+    if (track && this.client.localTracks.includes(track)) {
+      await this.client.unpublish(track);
+    }
+  }
+
+  // Lets listeners who silence the soundboard know how long this member will be playing one
+  public async announceSoundboardPlay(durationMs: number): Promise<void> {
+    if (!this.broadcastChannel || !this._isJoined || !this.currentMemberId || !this.client.uid) return;
+
+    try {
+      await this.broadcastChannel.send({
+        type: 'broadcast',
+        event: 'soundboard_update',
+        payload: {
+          agora_uid: this.client.uid.toString(),
+          duration_ms: durationMs,
+          id: this.currentMemberId,
+        },
+      });
+    } catch (error) {
+      logger.warn('Failed to announce soundboard sound', {
+        component: 'VoiceService',
+        action: 'announceSoundboardPlay',
+        metadata: { error },
+      });
+    }
+  }
+
+  // Sounds arrive mixed with the sender's voice, so silencing one silences them for its length
+  public setSoundboardMuted(isMuted: boolean): void {
+    this.isSoundboardMuted = isMuted;
+    if (!isMuted) {
+      Array.from(this.soundboardDucks.keys()).forEach((uid) => this.endSoundboardDuck(uid));
+    }
+  }
+
+  private handleSoundboardUpdate(update: SoundboardUpdate): void {
+    if (!this.isSoundboardMuted || update.id === this.currentMemberId) return;
+
+    const mappedAgoraUid = this.getAgoraUidFromMemberId(update.id);
+    if (mappedAgoraUid && mappedAgoraUid !== update.agora_uid) {
+      logger.warn('Rejected soundboard update - agora uid mismatch', {
+        component: 'VoiceService',
+        action: 'handleSoundboardUpdate',
+        metadata: { memberId: update.id, updateAgoraUid: update.agora_uid },
+      });
+      return;
+    }
+
+    const durationMs = Math.min(update.duration_ms, VOICE_CONSTANTS.SOUNDBOARD_MAX_SECONDS * 1000);
+    const remoteUser = this.client.remoteUsers.find((user) => user.uid.toString() === update.agora_uid);
+    remoteUser?.audioTrack?.setVolume(0);
+
+    const existing = this.soundboardDucks.get(update.agora_uid);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    this.soundboardDucks.set(
+      update.agora_uid,
+      setTimeout(() => this.endSoundboardDuck(update.agora_uid), durationMs)
+    );
+  }
+
+  private endSoundboardDuck(agoraUid: string): void {
+    const timer = this.soundboardDucks.get(agoraUid);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    this.soundboardDucks.delete(agoraUid);
+
+    const memberId = this.getMemberIdFromAgoraUid(agoraUid);
+    const remoteUser = this.client.remoteUsers.find((user) => user.uid.toString() === agoraUid);
+    if (memberId) {
+      remoteUser?.audioTrack?.setVolume(this.getPlaybackVolume(memberId));
+    }
+  }
+
+  // Keeps the party audible but quiet underneath a direct call
+  public async setPartyDucked(isDucked: boolean): Promise<void> {
+    if (this.isPartyDucked === isDucked) return;
+    this.isPartyDucked = isDucked;
+
+    this.client.remoteUsers.forEach((user) => {
+      const agoraUid = user.uid.toString();
+      const memberId = this.getMemberIdFromAgoraUid(agoraUid);
+      if (!memberId || this.soundboardDucks.has(agoraUid)) return;
+      user.audioTrack?.setVolume(this.getPlaybackVolume(memberId));
+    });
+
+    // The party mic closes through the input gate, so the user's own mute and deafen stay as they were
+    await this.setInputGateOpen(this.isInputGateOpen);
+  }
+
   private async recoverAudioTrack(): Promise<void> {
     try {
       this.lowAudioCount = 0;
@@ -864,9 +1413,12 @@ export class VoiceService {
 
       // Republish if we're joined
       if (this._isJoined) {
-        await this.client.publish(this.audioTrack);
+        await this.publishAudioTrack();
       }
 
+      // The voice activity monitor was bound to the old track
+      await this.applyInputMode();
+
       logger.info('Audio track recovered successfully', {
         metadata: {
           volume: this.audioTrack.getVolumeLevel(),
@@ -881,7 +1433,7 @@ export class VoiceService {
         if (!this.audioTrack) {
           this.audioTrack = await this.createAudioTrack();
           if (this._isJoined) {
-            await this.client.publish(this.audioTrack);
+            await this.publishAudioTrack();
           }
           logger.info('Fallback audio recovery succeeded');
         }
@@ -892,6 +1444,16 @@ export class VoiceService {
     }
   }
 
+  // Joining a channel resets the indicator, so every join turns it back on
+  private enableVolumeIndicator(): void {
+    // @ts-expect-error - Type definitions don't match Agora SDK's actual API
+    this.client.enableAudioVolumeIndicator({
+      interval: 200,
+      smooth: 3,
+      enableVad: true
+    });
+  }
+
   private async withJoinMutex<T>(operation: () => Promise<T>): Promise<T> {
     const current = this.joinMutex;
     let resolve: () => void;
@@ -904,83 +1466,398 @@ export class VoiceService {
     }
   }
 
-  public async join(channelName: string, memberId: string): Promise<void> {
-    return this.withJoinMutex(async () => {
-      try {
-        // Clean up any existing mapping before joining
-        this.cleanupMemberMapping(memberId);
-        this.currentMemberId = memberId;
+  // Also used by services that open side connections, such as whispers
+  public async fetchToken(channelName: string, role: AgoraTokenRole): Promise<AgoraTokenResponse> {
+    return fetchAgoraToken(channelName, role, 'Sign in to join voice');
+  }
 
-        // Get token from backend with proper error handling
-        const response = await fetch('/api/agora/token', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ channelName }),
-        });
+  // Fetch a new token and apply it in place; audio keeps flowing during renewal
+  private async renewToken(): Promise<void> {
+    if (this.isRenewingToken || !this._isJoined || !this.currentChannelName) return;
+    this.isRenewingToken = true;
 
-        if (!response.ok) {
-          throw new Error(`Failed to fetch token: ${response.statusText}`);
-        }
+    const channelName = this.currentChannelName;
 
-        const { token } = await response.json();
+    try {
+      for (let attempt = 1; attempt <= TOKEN_RENEWAL_MAX_ATTEMPTS; attempt++) {
+        try {
+          const { role, token } = await this.fetchToken(channelName, this.currentRole);
 
-        // Join the channel
-        const uid = await this.client.join(
-          VOICE_CONSTANTS.APP_ID,
-          channelName,
-          token,
-          Math.floor(Math.random() * 1000000)
-        );
+          // Channel may have changed while the request was in flight
+          if (!this._isJoined || this.currentChannelName !== channelName) return;
 
-        // Create and publish audio track
-        this.audioTrack = await this.createAudioTrack();
+          await this.client.renewToken(token);
+          this.grantedRole = role;
 
-        // Reset volume state
-        this.lastVolume = 0;
-        this.isVadSpeaking = false;
+          logger.info('Agora token renewed', {
+            component: 'VoiceService',
+            action: 'renewToken',
+            metadata: { channelName, attempt },
+          });
+          return;
+        } catch (error) {
+          logger.warn('Agora token renewal attempt failed', {
+            component: 'VoiceService',
+            action: 'renewToken',
+            metadata: { error, channelName, attempt },
+          });
 
-        // Publish the audio track
-        await this.client.publish(this.audioTrack);
+          if (attempt < TOKEN_RENEWAL_MAX_ATTEMPTS) {
+            await new Promise((resolve) => setTimeout(resolve, TOKEN_RENEWAL_BASE_DELAY * attempt));
+          }
+        }
+      }
 
-        // Set up member mapping with new Agora UID
-        this.setMemberMapping(memberId, uid);
+      this.reportError(new Error('Failed to renew voice session. Audio may disconnect soon.'));
+    } finally {
+      this.isRenewingToken = false;
+    }
+  }
 
-        // Set joined state before broadcasting initial state
-        this._isJoined = true;
+  // A token that expired before it could be renewed drops the connection, so rejoin the same channel with the same uid
+  private async rejoinWithFreshToken(): Promise<void> {
+    const channelName = this.currentChannelName;
+    const uid = this.client.uid;
 
-        // Initialize broadcast channel now that we have a valid UID
-        await this.initializeBroadcastChannel();
+    if (!this._isJoined || !channelName || uid === undefined) return;
 
-        // Create initial state if none exists
-        const initialState: VoiceMemberState = {
-          id: memberId,
-          level: 0,
-          voice_status: 'silent',
-          muted: false,
-          is_deafened: false,
-          agora_uid: this.getAgoraUidFromMemberId(memberId),
-          timestamp: Date.now(),
-        };
+    logger.warn('Agora token expired, rejoining channel', {
+      component: 'VoiceService',
+      action: 'rejoinWithFreshToken',
+      metadata: { channelName, uid },
+    });
 
-        this.memberVoiceStates.set(memberId, initialState);
-        void this.broadcastVoiceUpdate(initialState);
+    try {
+      await this.withJoinMutex(async () => {
+        const { role, token } = await this.fetchToken(channelName, this.currentRole);
 
-        // Re-enable volume indicator after join
-        // @ts-expect-error - Type definitions don't match Agora SDK's actual API
-        this.client.enableAudioVolumeIndicator({
-          interval: 200,
-          smooth: 3,
-          enableVad: true
+        await this.withRejoin(async () => {
+          await this.client.leave();
+          await this.client.join(VOICE_CONSTANTS.APP_ID, channelName, token, uid);
         });
+        this.grantedRole = role;
+        await this.republishLocalTracks();
+      });
 
-        logger.info('Join channel success', {
-          metadata: { channelName, memberId },
-        });
-      } catch (error) {
-        // Clean up on error
-        this.cleanupMemberMapping(memberId);
+      logger.info('Rejoined channel after token expiry', {
+        component: 'VoiceService',
+        action: 'rejoinWithFreshToken',
+        metadata: { channelName, uid },
+      });
+    } catch (error) {
+      logger.error('Failed to rejoin after token expiry', {
+        component: 'VoiceService',
+        action: 'rejoinWithFreshToken',
+        metadata: { error, channelName },
+      });
+      await this.localVideoRestoreCallback?.(false);
+      this.reportError(new Error('Voice session expired. Please rejoin the party.'));
+    }
+  }
+
+  // Move to another channel of the same party, such as a breakout room, keeping our uid and microphone.
+  // Queued behind any join in flight, so a move made while joining lands once the join completes.
+  public async switchChannel(channelName: string): Promise<void> {
+    await this.withJoinMutex(async () => {
+      const uid = this.client.uid;
+      if (!this._isJoined || this.currentChannelName === channelName || uid === undefined) return;
+
+      const { role, token } = await this.fetchToken(channelName, this.currentRole);
+
+      try {
+        await this.withRejoin(async () => {
+          await this.client.leave();
+          this.clearRemoteState();
+          await this.client.join(VOICE_CONSTANTS.APP_ID, channelName, token, uid);
+        });
+      } catch (error) {
+        await this.localVideoRestoreCallback?.(false);
+        throw error;
+      }
+      this.currentChannelName = channelName;
+      this.grantedRole = role;
+      await this.republishLocalTracks();
+
+      // Voice state is scoped to the room, so follow it to the new one and tell its members where we stand
+      await this.setupBroadcastChannel();
+      void this.broadcastOwnVoiceState();
+      void this.broadcastVideoKind();
+      this.enableVolumeIndicator();
+
+      logger.info('Switched voice channel', {
+        component: 'VoiceService',
+        action: 'switchChannel',
+        metadata: { channelName, uid },
+      });
+    });
+  }
+
+  public onLinkStateChange(callback: LinkStateCallback | null): void {
+    this.linkStateCallback = callback;
+    if (callback) {
+      callback(this.linkState);
+    }
+  }
+
+  // Rejoin the same channel as the same member after a drop. Mute, deafen and local mutes
+  // live on this instance and the local track, so they carry over untouched.
+  public async resumeSession(): Promise<void> {
+    const channelName = this.currentChannelName;
+    const memberId = this.currentMemberId;
+    if (!this._isJoined || !channelName || !memberId || this.isResuming) return;
+
+    this.isResuming = true;
+    await this.setLinkState('reconnecting');
+
+    try {
+      for (let attempt = 0; attempt < VOICE_CONSTANTS.RESUME_MAX_ATTEMPTS; attempt++) {
+        // The user may leave while we wait
+        if (!this._isJoined) return;
+
+        try {
+          await this.withJoinMutex(() => this.rejoinChannel(channelName, memberId));
+          await this.retrackPresence();
+
+          logger.info('Voice session resumed', {
+            component: 'VoiceService',
+            action: 'resumeSession',
+            metadata: { channelName, memberId, attempt },
+          });
+          await this.setLinkState('connected');
+          return;
+        } catch (error) {
+          logger.warn('Voice resume attempt failed', {
+            component: 'VoiceService',
+            action: 'resumeSession',
+            metadata: { error, attempt },
+          });
+
+          const delay = Math.min(
+            VOICE_CONSTANTS.RESUME_BASE_DELAY * Math.pow(2, attempt),
+            VOICE_CONSTANTS.RESUME_MAX_DELAY
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+
+      await this.setLinkState('disconnected');
+      await this.localVideoRestoreCallback?.(false);
+      this.reportError(new Error('Lost connection to voice. Check your network and try again.'));
+    } finally {
+      this.isResuming = false;
+    }
+  }
+
+  private async rejoinChannel(channelName: string, memberId: string): Promise<void> {
+    // The SDK may have recovered by itself while we were waiting
+    if (this.client.connectionState === 'CONNECTED') return;
+    const { role, token, uid: assignedUid } = await this.fetchToken(channelName, this.currentRole);
+    const uid = await this.withRejoin(async () => {
+      if (this.client.connectionState !== 'DISCONNECTED') {
+        await this.client.leave();
+      }
+      return this.client.join(VOICE_CONSTANTS.APP_ID, channelName, token, assignedUid);
+    });
+    this.grantedRole = role;
+
+    // The new uid replaces the old mapping but keeps our voice state
+    this.setMemberMapping(memberId, uid);
+    await this.republishLocalTracks();
+    this.enableVolumeIndicator();
+
+    // Remind everyone of our mute and deafen state under the new uid
+    const ownState = this.memberVoiceStates.get(memberId);
+    if (ownState) {
+      const voiceState: VoiceMemberState = {
+        ...ownState,
+        agora_uid: uid.toString(),
+        timestamp: Date.now(),
+      };
+      this.memberVoiceStates.set(memberId, voiceState);
+      void this.broadcastVoiceUpdate(voiceState);
+    }
+  }
+
+  // The voice channel may be a breakout room, so presence goes back to the party it belongs to
+  private async retrackPresence(): Promise<void> {
+    const presenceService = PresenceService.getInstance();
+    const member = presenceService.getCurrentMember();
+    const partyId = presenceService.getCurrentPartyId();
+    if (!member || !partyId) return;
+
+    const result = await presenceService.trackMember(
+      { ...member, last_seen: new Date().toISOString() },
+      partyId
+    );
+    if (result.trackResult === 'error') {
+      throw result.error ?? new Error('Failed to re-track presence');
+    }
+  }
+
+  // Agora refuses to publish a disabled track, and muted or gated tracks are disabled.
+  // Publish at zero volume and disable again so nothing leaks out.
+  private async publishAudioTrack(): Promise<void> {
+    const track = this.audioTrack;
+    // A listen-only token cannot publish; the track goes out once the host lifts the mute
+    if (!track || this.grantedRole !== 'publisher') return;
+
+    if (track.enabled) {
+      await this.client.publish(track);
+      return;
+    }
+
+    await this.withInputGateMutex(async () => {
+      track.setVolume(0);
+      try {
+        await track.setEnabled(true);
+        await this.client.publish(track);
+      } finally {
+        await track.setEnabled(false);
+        track.setVolume(100);
+      }
+    });
+  }
+
+  // A rejoin starts with nothing published, so the mic, the soundboard and any video go back out
+  private async republishLocalTracks(): Promise<void> {
+    await this.publishAudioTrack();
+    await this.republishSoundboardTrack();
+
+    try {
+      await this.localVideoRestoreCallback?.(true);
+    } catch (error) {
+      logger.warn('Failed to republish local video', {
+        component: 'VoiceService',
+        action: 'republishLocalTracks',
+        metadata: { error },
+      });
+      this.reportError(new Error('Your camera or screen share stopped while reconnecting.'));
+    }
+  }
+
+  private async republishSoundboardTrack(): Promise<void> {
+    const soundboardTrack = this.soundboardTrack;
+    if (!soundboardTrack || this.client.localTracks.includes(soundboardTrack)) return;
+
+    // The next sound publishes it again, or reports the host's mute
+    if (this.grantedRole !== 'publisher') {
+      this.soundboardTrack = null;
+      return;
+    }
+
+    try {
+      await this.client.publish(soundboardTrack);
+    } catch (error) {
+      this.soundboardTrack = null;
+      logger.warn('Failed to republish soundboard track', {
+        component: 'VoiceService',
+        action: 'republishSoundboardTrack',
+        metadata: { error },
+      });
+      this.reportError(new Error('The soundboard stopped while reconnecting. Play a sound to start it again.'));
+    }
+  }
+
+  // Flags our own leave and join so the disconnect it causes is not mistaken for a drop
+  private async withRejoin<T>(operation: () => Promise<T>): Promise<T> {
+    this.isRejoining = true;
+    try {
+      return await operation();
+    } finally {
+      this.isRejoining = false;
+    }
+  }
+
+  private reportError(error: Error): void {
+    if (this.errorCallback) {
+      this.errorCallback(error);
+    }
+  }
+
+  public onError(callback: VoiceErrorCallback | null): void {
+    this.errorCallback = callback;
+  }
+
+  public async join(channelName: string, memberId: string, options: JoinOptions = {}): Promise<void> {
+    const role = options.role ?? 'publisher';
+
+    return this.withJoinMutex(async () => {
+      try {
+        // The mic test holds the microphone and the denoiser
+        this.stopMicTest();
+        if (options.inputDeviceId !== undefined) {
+          this.inputDeviceId = options.inputDeviceId;
+        }
+
+        // Clean up any existing mapping before joining
+        this.cleanupMemberMapping(memberId);
+        this.currentMemberId = memberId;
+
+        // Get token from backend with proper error handling
+        const { token, uid: assignedUid, role: grantedRole } = await this.fetchToken(channelName, role);
+
+        // Join the channel with the uid the token was issued for
+        const uid = await this.client.join(
+          VOICE_CONSTANTS.APP_ID,
+          channelName,
+          token,
+          assignedUid
+        );
+
+        this.currentChannelName = channelName;
+        this.currentRole = role;
+        this.grantedRole = grantedRole;
+
+        // Reset volume state
+        this.lastVolume = 0;
+        this.isVadSpeaking = false;
+
+        // Listen-only participants never create or publish a microphone track
+        if (role === 'publisher') {
+          this.audioTrack = await this.createAudioTrack();
+          await this.publishAudioTrack();
+        }
+
+        // Set up member mapping with new Agora UID
+        this.setMemberMapping(memberId, uid);
+
+        // Set joined state before broadcasting initial state
+        this._isJoined = true;
+
+        // Initialize broadcast channel now that we have a valid UID
+        await this.initializeBroadcastChannel();
+
+        // Create initial state if none exists
+        const initialState: VoiceMemberState = {
+          id: memberId,
+          level: 0,
+          voice_status: role === 'publisher' ? 'silent' : 'muted',
+          muted: role !== 'publisher',
+          is_deafened: false,
+          agora_uid: this.getAgoraUidFromMemberId(memberId),
+          timestamp: Date.now(),
+        };
+
+        this.memberVoiceStates.set(memberId, initialState);
+        void this.broadcastVoiceUpdate(initialState);
+
+        // The server only hands muted members a listen-only token
+        if (role === 'publisher' && grantedRole !== 'publisher') {
+          await this.setServerMuted(true);
+        }
+
+        // Close the input gate now if push-to-talk or voice activation is selected
+        await this.applyInputMode();
+
+        // Re-enable volume indicator after join
+        this.enableVolumeIndicator();
+
+        logger.info('Join channel success', {
+          metadata: { channelName, memberId, role },
+        });
+      } catch (error) {
+        // Clean up on error
+        this.cleanupMemberMapping(memberId);
         this._isJoined = false;
         throw error;
       }
@@ -1042,6 +1919,21 @@ export class VoiceService {
   }
 
   public async toggleMute(): Promise<boolean> {
+    // A host's server mute cannot be lifted locally
+    if (this.isServerMuted && this._isMuted) {
+      logger.debug('Unmute blocked by server mute', {
+        component: 'VoiceService',
+        action: 'toggleMute',
+      });
+      return this._isMuted;
+    }
+
+    // Unmuting while deafened also undeafens
+    if (this._isDeafened) {
+      await this.setDeafened(false, { restoreMute: false });
+      return this._isMuted;
+    }
+
     // Rate limit to 1 toggle every 500ms
     if (isRateLimited('voice-mute-toggle', 500)) {
       logger.debug('Mute toggle rate limited', {
@@ -1068,7 +1960,7 @@ export class VoiceService {
       try {
         this.audioTrack = await this.createAudioTrack();
         if (this._isJoined) {
-          await this.client.publish(this.audioTrack);
+          await this.publishAudioTrack();
         }
         logger.info('Recreated audio track during mute toggle', {
           component: 'VoiceService',
@@ -1109,12 +2001,17 @@ export class VoiceService {
         },
       });
 
-      // Set the mute state on the audio track
-      await this.audioTrack.setEnabled(!newMuteState);
+      // Unmuting only opens the track while the input gate is open
+      const shouldEnable = !newMuteState && this.isInputGateOpen;
+      await this.withInputGateMutex(async () => {
+        if (this.audioTrack && this.audioTrack.enabled !== shouldEnable) {
+          await this.audioTrack.setEnabled(shouldEnable);
+        }
+      });
 
       // Verify mute state was set correctly
-      const actualMuteState = !this.audioTrack.enabled;
-      if (actualMuteState !== newMuteState) {
+      const actualMuteState = !this.audioTrack.enabled && this.isInputGateOpen;
+      if (this.audioTrack.enabled !== shouldEnable) {
         logger.error('Mute state mismatch after setting', {
           component: 'VoiceService',
           action: 'toggleMute',
@@ -1189,6 +2086,569 @@ export class VoiceService {
     return this._isMuted;
   }
 
+  public get serverMuted(): boolean {
+    return this.isServerMuted;
+  }
+
+  // Close the party mic while whispering and tell the party who the whisper is for
+  public async setWhisperTarget(memberId: string | null): Promise<void> {
+    if (this.whisperTargetId === memberId) return;
+    this.whisperTargetId = memberId;
+
+    await this.setInputGateOpen(this.isInputGateOpen);
+    await this.broadcastOwnVoiceState();
+
+    logger.info('Whisper target changed', {
+      component: 'VoiceService',
+      action: 'setWhisperTarget',
+      metadata: { memberId: this.currentMemberId, targetId: memberId },
+    });
+  }
+
+  // A second capture of the selected microphone, published on its own connection to the whisper channel
+  public async createWhisperTrack(): Promise<IMicrophoneAudioTrack> {
+    return AgoraRTC.createMicrophoneAudioTrack({
+      microphoneId: this.inputDeviceId ?? undefined,
+      AEC: this.audioProcessing.aec,
+      ANS: this.audioProcessing.ans,
+      AGC: this.audioProcessing.agc,
+    });
+  }
+
+  // Apply a host's mute-for-everyone; lifting it leaves the member muted until they unmute
+  public async setServerMuted(isServerMuted: boolean): Promise<boolean> {
+    this.isServerMuted = isServerMuted;
+
+    if (!isServerMuted && this._isJoined && this.grantedRole !== this.currentRole) {
+      await this.restorePublishing();
+    }
+
+    if (!isServerMuted || this._isMuted) {
+      return this._isMuted;
+    }
+
+    this._isMuted = true;
+    await this.withInputGateMutex(async () => {
+      if (this.audioTrack?.enabled) {
+        await this.audioTrack.setEnabled(false);
+      }
+    });
+
+    if (this.currentMemberId) {
+      const voiceState: VoiceMemberState = {
+        id: this.currentMemberId,
+        level: 0,
+        voice_status: this._isDeafened ? 'deafened' : 'muted',
+        muted: true,
+        is_deafened: this._isDeafened,
+        agora_uid: this.getAgoraUidFromMemberId(this.currentMemberId),
+        timestamp: Date.now(),
+      };
+
+      this.memberVoiceStates.set(this.currentMemberId, voiceState);
+      this.memberMuteStates.set(this.currentMemberId, true);
+
+      if (this.volumeCallback) {
+        this.volumeCallback(Array.from(this.memberVoiceStates.values()));
+      }
+
+      await this.broadcastVoiceUpdate(voiceState);
+    }
+
+    logger.info('Server mute applied', {
+      component: 'VoiceService',
+      action: 'setServerMuted',
+      metadata: { memberId: this.currentMemberId },
+    });
+
+    return this._isMuted;
+  }
+
+  // Joined while muted by the host, so swap the listen-only token for one that can publish
+  private async restorePublishing(): Promise<void> {
+    try {
+      await this.withJoinMutex(async () => {
+        const channelName = this.currentChannelName;
+        if (!this._isJoined || !channelName) return;
+
+        const { role, token } = await this.fetchToken(channelName, this.currentRole);
+        await this.client.renewToken(token);
+        this.grantedRole = role;
+        await this.publishAudioTrack();
+      });
+    } catch (error) {
+      logger.error('Failed to restore publishing after server unmute', {
+        component: 'VoiceService',
+        action: 'restorePublishing',
+        metadata: { error },
+      });
+      this.reportError(new Error('Could not turn your microphone back on. Rejoin the party to speak.'));
+    }
+  }
+
+  public static async listAudioDevices(): Promise<AudioDeviceLists> {
+    const [inputs, outputs] = await Promise.all([
+      AgoraRTC.getMicrophones(),
+      // Output selection is not supported in every browser
+      AgoraRTC.getPlaybackDevices().catch(() => [] as MediaDeviceInfo[]),
+    ]);
+    return { inputs, outputs };
+  }
+
+  public onDeviceFallback(callback: DeviceFallbackCallback | null): void {
+    this.deviceFallbackCallback = callback;
+  }
+
+  public async setInputDevice(deviceId: string | null): Promise<void> {
+    if (this.inputDeviceId === deviceId) return;
+    this.inputDeviceId = deviceId;
+
+    // Without a track the choice applies when the next one is created
+    const track = this.audioTrack ?? this.micTestTrack;
+    if (!track) return;
+
+    this.markDeviceSwitch();
+    const resolvedId = await this.resolveDeviceId('input', deviceId);
+    if (resolvedId) {
+      await track.setDevice(resolvedId);
+    }
+
+    logger.info('Microphone switched', {
+      component: 'VoiceService',
+      action: 'setInputDevice',
+      metadata: { deviceId: resolvedId },
+    });
+  }
+
+  public async setOutputDevice(deviceId: string | null): Promise<void> {
+    if (this.outputDeviceId === deviceId) return;
+    this.outputDeviceId = deviceId;
+    await this.applyOutputDevice();
+  }
+
+  public get isMicTestRunning(): boolean {
+    return this.micTestTrack !== null;
+  }
+
+  // Open a local track with the same processing as a real join so users can check their mic
+  public async startMicTest(onLevel: (level: number) => void): Promise<MicTestResult> {
+    if (this._isJoined) {
+      throw new Error('Mic test is unavailable while connected to voice');
+    }
+
+    this.stopMicTest();
+    this.lastVolume = 0;
+    this.micTestLevelCallback = onLevel;
+    this.micTestTrack = await this.createAudioTrack();
+
+    const track = this.micTestTrack;
+    this.micTestInterval = setInterval(() => {
+      onLevel(this.smoothVolume(track.getVolumeLevel()));
+    }, VOICE_CONSTANTS.MIC_TEST_INTERVAL);
+
+    const isDenoiserActive = this.aiDenoiserProcessor?.enabled ?? false;
+    logger.debug('Mic test started', {
+      component: 'VoiceService',
+      action: 'startMicTest',
+      metadata: { inputDeviceId: this.inputDeviceId, isDenoiserActive },
+    });
+
+    return { isDenoiserActive };
+  }
+
+  // Play the test track back through the selected speaker
+  public async setMicTestLoopback(isEnabled: boolean): Promise<void> {
+    if (!this.micTestTrack) return;
+
+    if (!isEnabled) {
+      this.micTestTrack.stop();
+      return;
+    }
+
+    const resolvedId = await this.resolveDeviceId('output', this.outputDeviceId);
+    if (resolvedId) {
+      await this.micTestTrack.setPlaybackDevice(resolvedId);
+    }
+    this.micTestTrack.play();
+  }
+
+  public stopMicTest(): void {
+    if (this.micTestInterval) {
+      clearInterval(this.micTestInterval);
+      this.micTestInterval = null;
+    }
+
+    if (!this.micTestTrack) return;
+
+    try {
+      this.micTestTrack.stop();
+      if (this.aiDenoiserProcessor) {
+        this.micTestTrack.unpipe();
+      }
+      this.micTestTrack.close();
+    } catch (error) {
+      logger.warn('Error closing mic test track', {
+        component: 'VoiceService',
+        action: 'stopMicTest',
+        metadata: { error },
+      });
+    }
+
+    this.micTestTrack = null;
+    this.micTestLevelCallback = null;
+    this.lastVolume = 0;
+  }
+
+  public async setAudioProcessing(settings: AudioProcessingSettings): Promise<void> {
+    const previous = this.audioProcessing;
+    this.audioProcessing = settings;
+
+    // Denoiser changes apply to the processor already in the pipeline
+    await this.applyDenoiserSettings();
+
+    // Browser constraints are fixed when the track opens, so reopen it
+    const hasConstraintChange =
+      previous.aec !== settings.aec || previous.agc !== settings.agc || previous.ans !== settings.ans;
+    if (!hasConstraintChange) return;
+
+    if (this.audioTrack) {
+      await this.recoverAudioTrack();
+    } else if (this.micTestTrack && this.micTestLevelCallback) {
+      const wasLoopback = this.micTestTrack.isPlaying;
+      await this.startMicTest(this.micTestLevelCallback);
+      await this.setMicTestLoopback(wasLoopback);
+    }
+
+    logger.info('Audio processing updated', {
+      component: 'VoiceService',
+      action: 'setAudioProcessing',
+      metadata: { settings },
+    });
+  }
+
+  private async applyDenoiserSettings(): Promise<void> {
+    const processor = this.aiDenoiserProcessor;
+    if (!processor) return;
+
+    const { denoiserEnabled, denoiserLevel, denoiserMode } = this.audioProcessing;
+    if (!denoiserEnabled) {
+      // A disabled processor passes audio through untouched
+      await processor.disable();
+      return;
+    }
+
+    await processor.setMode(DENOISER_MODES[denoiserMode]);
+    await processor.setLevel(DENOISER_LEVELS[denoiserLevel]);
+    await processor.enable();
+  }
+
+  private async applyOutputDevice(): Promise<void> {
+    const resolvedId = await this.resolveDeviceId('output', this.outputDeviceId);
+    if (!resolvedId) return;
+
+    await Promise.all(
+      this.client.remoteUsers.map((user) =>
+        user.audioTrack?.setPlaybackDevice(resolvedId).catch((error) => {
+          logger.warn('Failed to switch playback device', {
+            component: 'VoiceService',
+            action: 'applyOutputDevice',
+            metadata: { error, deviceId: resolvedId, uid: user.uid },
+          });
+        })
+      )
+    );
+  }
+
+  // Every remote track plays on the selected speaker, including ones subscribed while deafened
+  private async startRemotePlayback(track: IRemoteAudioTrack): Promise<void> {
+    track.play();
+    if (!this.outputDeviceId) return;
+
+    await track.setPlaybackDevice(this.outputDeviceId).catch((error) => {
+      logger.warn('Failed to route remote audio to the selected speaker', {
+        component: 'VoiceService',
+        action: 'startRemotePlayback',
+        metadata: { error, outputDeviceId: this.outputDeviceId },
+      });
+    });
+  }
+
+  // A null choice means the system default, which is the first device the browser lists
+  private async resolveDeviceId(kind: AudioDeviceKind, deviceId: string | null): Promise<string | null> {
+    if (deviceId) return deviceId;
+
+    const { inputs, outputs } = await VoiceService.listAudioDevices();
+    return (kind === 'input' ? inputs : outputs)[0]?.deviceId ?? null;
+  }
+
+  private markDeviceSwitch(): void {
+    this.deviceSwitchedAt = Date.now();
+    this.lowAudioCount = 0;
+  }
+
+  private setupDeviceChangeHandlers(): void {
+    AgoraRTC.onMicrophoneChanged = (info) => void this.handleMicrophoneChanged(info);
+    AgoraRTC.onPlaybackDeviceChanged = (info) => void this.handlePlaybackDeviceChanged(info);
+  }
+
+  // Move to the default microphone when the one in use is unplugged
+  private async handleMicrophoneChanged(info: DeviceInfo): Promise<void> {
+    logger.debug('Microphone changed', {
+      component: 'VoiceService',
+      action: 'handleMicrophoneChanged',
+      metadata: { state: info.state, label: info.device.label },
+    });
+
+    if (info.state !== 'INACTIVE' || !this.audioTrack) return;
+
+    const isCurrentDevice =
+      info.device.deviceId === this.inputDeviceId || info.device.label === this.audioTrack.getTrackLabel();
+    if (!isCurrentDevice) return;
+
+    this.markDeviceSwitch();
+    this.inputDeviceId = null;
+
+    try {
+      const fallbackId = await this.resolveDeviceId('input', null);
+      if (fallbackId) {
+        await this.audioTrack.setDevice(fallbackId);
+      }
+      this.deviceFallbackCallback?.('input');
+    } catch (error) {
+      logger.error('Failed to fall back to the default microphone', {
+        component: 'VoiceService',
+        action: 'handleMicrophoneChanged',
+        metadata: { error },
+      });
+      this.reportError(new Error('Microphone disconnected. Select another input device.'));
+    }
+  }
+
+  private async handlePlaybackDeviceChanged(info: DeviceInfo): Promise<void> {
+    if (info.state !== 'INACTIVE' || info.device.deviceId !== this.outputDeviceId) return;
+
+    this.outputDeviceId = null;
+    await this.applyOutputDevice();
+    this.deviceFallbackCallback?.('output');
+  }
+
+  public get isDeafened(): boolean {
+    return this._isDeafened;
+  }
+
+  public async toggleDeafen(): Promise<boolean> {
+    if (isRateLimited('voice-deafen-toggle', 500)) {
+      logger.debug('Deafen toggle rate limited', {
+        component: 'VoiceService',
+        action: 'toggleDeafen',
+      });
+      return this._isDeafened;
+    }
+
+    await this.setDeafened(!this._isDeafened);
+    return this._isDeafened;
+  }
+
+  // Deafening stops all remote playback and mutes the mic; undeafening restores the earlier mute unless told to unmute
+  private async setDeafened(isDeafened: boolean, { restoreMute = true } = {}): Promise<void> {
+    if (this._isDeafened === isDeafened) return;
+    this._isDeafened = isDeafened;
+
+    if (isDeafened) {
+      this.wasMutedBeforeDeafen = this._isMuted;
+      this.client.remoteUsers.forEach((user) => user.audioTrack?.stop());
+    } else {
+      // Members who published while we were deafened have not been placed or turned to their volume yet
+      this.applyMemberPans();
+      await Promise.all(
+        this.client.remoteUsers.map((user) => {
+          const memberId = this.getMemberIdFromAgoraUid(user.uid.toString());
+          const isLocallyMuted = memberId ? this.memberMuteStates.get(memberId) ?? false : false;
+          if (!user.audioTrack || isLocallyMuted) return;
+
+          if (memberId && !this.soundboardDucks.has(user.uid.toString())) {
+            user.audioTrack.setVolume(this.getPlaybackVolume(memberId));
+          }
+          return this.startRemotePlayback(user.audioTrack);
+        })
+      );
+    }
+
+    const shouldMute = isDeafened || this.isServerMuted || (restoreMute && this.wasMutedBeforeDeafen);
+    this._isMuted = shouldMute;
+
+    await this.withInputGateMutex(async () => {
+      const shouldEnable = !shouldMute && this.isInputGateOpen;
+      if (this.audioTrack && this.audioTrack.enabled !== shouldEnable) {
+        await this.audioTrack.setEnabled(shouldEnable);
+      }
+    });
+
+    if (this.currentMemberId) {
+      let voice_status: VoiceStatus = 'silent';
+      if (isDeafened) {
+        voice_status = 'deafened';
+      } else if (shouldMute) {
+        voice_status = 'muted';
+      }
+
+      const voiceState: VoiceMemberState = {
+        id: this.currentMemberId,
+        level: 0,
+        voice_status,
+        muted: shouldMute,
+        is_deafened: isDeafened,
+        agora_uid: this.getAgoraUidFromMemberId(this.currentMemberId),
+        timestamp: Date.now(),
+      };
+
+      this.memberVoiceStates.set(this.currentMemberId, voiceState);
+      this.memberMuteStates.set(this.currentMemberId, shouldMute);
+
+      if (this.volumeCallback) {
+        this.volumeCallback(Array.from(this.memberVoiceStates.values()));
+      }
+
+      await this.broadcastVoiceUpdate(voiceState);
+    }
+
+    logger.info('Deafen state changed', {
+      component: 'VoiceService',
+      action: 'setDeafened',
+      metadata: { isDeafened, isMuted: this._isMuted, memberId: this.currentMemberId },
+    });
+  }
+
+  public get voiceInputMode(): VoiceInputMode {
+    return this.inputMode;
+  }
+
+  public async setInputMode(mode: VoiceInputMode): Promise<void> {
+    if (this.inputMode === mode) return;
+
+    logger.info('Voice input mode changed', {
+      component: 'VoiceService',
+      action: 'setInputMode',
+      metadata: { previousMode: this.inputMode, mode },
+    });
+
+    this.inputMode = mode;
+    await this.applyInputMode();
+  }
+
+  // Key down opens the gate immediately; key up closes it after a short tail
+  public setPushToTalkActive(isActive: boolean): void {
+    if (this.inputMode !== 'push_to_talk') return;
+
+    if (isActive) {
+      this.openInputGate();
+    } else {
+      this.scheduleInputGateClose(VOICE_CONSTANTS.PUSH_TO_TALK_RELEASE_TAIL);
+    }
+  }
+
+  // Reset the gate for the current mode and (re)bind voice detection to the current track
+  private async applyInputMode(): Promise<void> {
+    this.stopVoiceActivityMonitor();
+    this.clearInputGateReleaseTimer();
+
+    if (this.inputMode === 'voice_activated' && this.audioTrack) {
+      // Watch a clone so detection keeps running while the published track is disabled
+      const monitoredTrack = this.audioTrack.getMediaStreamTrack().clone();
+      const monitor = createAudioLevelMonitor(monitoredTrack, (level) => {
+        if (level >= VOICE_CONSTANTS.VOICE_ACTIVATION_THRESHOLD) {
+          this.openInputGate();
+        } else if (this.isInputGateOpen && !this.inputGateReleaseTimer) {
+          this.scheduleInputGateClose(VOICE_CONSTANTS.VOICE_ACTIVATION_RELEASE_TAIL);
+        }
+      });
+      this.voiceActivityMonitor = {
+        stop: () => {
+          monitor.stop();
+          monitoredTrack.stop();
+        },
+      };
+    }
+
+    await this.setInputGateOpen(this.inputMode === 'open_mic');
+  }
+
+  private openInputGate(): void {
+    this.clearInputGateReleaseTimer();
+    if (!this.isInputGateOpen) {
+      void this.setInputGateOpen(true);
+    }
+  }
+
+  private scheduleInputGateClose(tailMs: number): void {
+    this.clearInputGateReleaseTimer();
+    this.inputGateReleaseTimer = setTimeout(() => {
+      this.inputGateReleaseTimer = null;
+      void this.setInputGateOpen(false);
+    }, tailMs);
+  }
+
+  private clearInputGateReleaseTimer(): void {
+    if (this.inputGateReleaseTimer) {
+      clearTimeout(this.inputGateReleaseTimer);
+      this.inputGateReleaseTimer = null;
+    }
+  }
+
+  private stopVoiceActivityMonitor(): void {
+    if (this.voiceActivityMonitor) {
+      this.voiceActivityMonitor.stop();
+      this.voiceActivityMonitor = null;
+    }
+  }
+
+  // Enable the track only while the gate is open and the member is not muted, whispering or on a call
+  private async setInputGateOpen(isOpen: boolean): Promise<void> {
+    this.isInputGateOpen = isOpen;
+
+    await this.withInputGateMutex(async () => {
+      const shouldEnable = this.isInputGateOpen && !this._isMuted && !this.whisperTargetId && !this.isPartyDucked;
+      if (!this.audioTrack || this.audioTrack.enabled === shouldEnable) return;
+
+      try {
+        await this.audioTrack.setEnabled(shouldEnable);
+      } catch (error) {
+        logger.error('Failed to apply input gate', {
+          component: 'VoiceService',
+          action: 'setInputGateOpen',
+          metadata: { error, isOpen, inputMode: this.inputMode },
+        });
+        return;
+      }
+
+      // A closed gate is silence, not a mute; make sure nobody keeps seeing us as speaking
+      if (!shouldEnable && this.currentMemberId) {
+        const voiceState: VoiceMemberState = {
+          id: this.currentMemberId,
+          level: 0,
+          voice_status: 'silent',
+          muted: false,
+          is_deafened: this.memberVoiceStates.get(this.currentMemberId)?.is_deafened ?? false,
+          agora_uid: this.getAgoraUidFromMemberId(this.currentMemberId),
+          timestamp: Date.now(),
+        };
+
+        this.memberVoiceStates.set(this.currentMemberId, voiceState);
+        if (this.volumeCallback) {
+          this.volumeCallback(Array.from(this.memberVoiceStates.values()));
+        }
+        void this.broadcastVoiceUpdate(voiceState);
+      }
+    });
+  }
+
+  // Serialize setEnabled calls; rapid key presses must not interleave
+  private async withInputGateMutex(operation: () => Promise<void>): Promise<void> {
+    const run = this.inputGateMutex.then(operation);
+    this.inputGateMutex = run.catch(() => {});
+    return run;
+  }
+
   public async setVolume(volume: number): Promise<void> {
     if (!this.audioTrack) {
       logger.warn('Cannot set volume - no audio track available', {
@@ -1505,6 +2965,9 @@ export class VoiceService {
         }
       }
 
+      // A member's pan can only be applied once their uid is known
+      this.applyMemberPans();
+
       logger.debug('Completed member mapping synchronization', {
         component: 'VoiceService',
         action: 'synchronizeMemberMappings',
@@ -1567,8 +3030,8 @@ export class VoiceService {
         action: 'setupAIDenoiser',
         metadata: {
           processorCreated: true,
-          initialMode: 'NSNG',
-          initialLevel: 'AGGRESSIVE',
+          mode: this.audioProcessing.denoiserMode,
+          level: this.audioProcessing.denoiserLevel,
         }
       });
 
@@ -1589,23 +3052,27 @@ export class VoiceService {
     // Get remote user's audio track to check if they're self-muted
     const agoraUid = this.getAgoraUidFromMemberId(memberId);
     const remoteUser = agoraUid ? this.client.remoteUsers.find(user => user.uid.toString() === agoraUid) : null;
-    const isSelfMuted = remoteUser?.hasAudio === false;
+    // Push-to-talk and voice activation unpublish between phrases, so trust the member's broadcast mute flag
+    const isSelfMuted = remoteUser?.hasAudio === false && (oldState?.muted ?? true);
 
     // If user is muted (either locally or self-muted), force level to 0 and status to muted
     if (isLocallyMuted || isSelfMuted) {
+      // Deafened members are muted too; keep showing the deafened variant
+      const isDeafened = oldState?.is_deafened ?? false;
+      const mutedStatus: VoiceStatus = isDeafened ? 'deafened' : 'muted';
       const voiceState: VoiceMemberState = {
         id: memberId,
         level: 0,
-        voice_status: 'muted',
+        voice_status: mutedStatus,
         muted: true,
-        is_deafened: false,
+        is_deafened: isDeafened,
         agora_uid: this.getAgoraUidFromMemberId(memberId),
         timestamp: Date.now(),
       };
 
       // Only update if state changed
       if (!oldState ||
-          oldState.voice_status !== 'muted' ||
+          oldState.voice_status !== mutedStatus ||
           oldState.level !== 0 ||
           !oldState.muted) {
         this.memberVoiceStates.set(memberId, voiceState);
@@ -1655,6 +3122,7 @@ export class VoiceService {
         muted: oldState?.muted ?? false, // Preserve existing mute state
         is_deafened: oldState?.is_deafened ?? false, // Preserve deafened state
         agora_uid: this.getAgoraUidFromMemberId(memberId),
+        whispering_to: oldState?.whispering_to, // Only the whisperer's own updates change this
         timestamp: Date.now(),
       };
 
@@ -1673,23 +3141,24 @@ export class VoiceService {
     try {
       // Create audio track with basic settings
       audioTrack = await AgoraRTC.createMicrophoneAudioTrack({
+        microphoneId: this.inputDeviceId ?? undefined,
         encoderConfig: {
           sampleRate: 48000,
           stereo: false,
           bitrate: 128,
         },
-        AEC: true,
-        ANS: true,
-        AGC: true,
+        AEC: this.audioProcessing.aec,
+        ANS: this.audioProcessing.ans,
+        AGC: this.audioProcessing.agc,
       });
 
-      // Apply AI Denoiser if available
+      // Pipe through the AI Denoiser if available; it stays in the pipeline so it can be toggled live
       if (this.aiDenoiserProcessor) {
         audioTrack.pipe(this.aiDenoiserProcessor).pipe(audioTrack.processorDestination);
-        await this.aiDenoiserProcessor.enable();
-        await this.aiDenoiserProcessor.setMode(AIDenoiserProcessorMode.NSNG);
-        await this.aiDenoiserProcessor.setLevel(AIDenoiserProcessorLevel.AGGRESSIVE);
-        logger.info('AI Denoiser enabled for audio track');
+        await this.applyDenoiserSettings();
+        logger.info('AI Denoiser attached to audio track', {
+          metadata: { isEnabled: this.audioProcessing.denoiserEnabled },
+        });
       }
 
       logger.debug('Audio track created successfully', {
@@ -1698,7 +3167,7 @@ export class VoiceService {
         metadata: {
           hasAudioTrack: true,
           hasAIDenoiser: !!this.aiDenoiserProcessor,
-          noiseSuppressionMode: this.aiDenoiserProcessor ? 'AI_DENOISER' : 'BUILT_IN',
+          noiseSuppressionMode: this.aiDenoiserProcessor?.enabled ? 'AI_DENOISER' : 'BUILT_IN',
         },
       });
 
@@ -1718,14 +3187,118 @@ export class VoiceService {
       if (audioTrack) {
         audioTrack.close();
       }
+
+      // The selected microphone may be gone; fall back to the default once
+      if (this.inputDeviceId) {
+        this.inputDeviceId = null;
+        this.deviceFallbackCallback?.('input');
+        return this.createAudioTrack();
+      }
       throw error;
     }
   }
 
+  // Stereo positions by member id; null turns spatial audio off and restores the plain mix
+  public setMemberPans(pans: Record<string, number> | null): void {
+    this.memberPans = new Map(Object.entries(pans ?? {}));
+    this.applyMemberPans();
+  }
+
+  private applyMemberPans(): void {
+    const remoteUsers = new Map(this.client.remoteUsers.map((user) => [user.uid.toString(), user]));
+
+    // Drop panners whose track went away or was replaced by a resubscribe
+    this.panProcessors.forEach(({ processor, track }, uid) => {
+      if (remoteUsers.get(uid)?.audioTrack === track) return;
+      processor.unpipe();
+      this.panProcessors.delete(uid);
+    });
+
+    remoteUsers.forEach((user, uid) => {
+      const track = user.audioTrack;
+      if (!track) return;
+
+      const memberId = this.getMemberIdFromAgoraUid(uid);
+      const pan = memberId ? this.memberPans.get(memberId) : undefined;
+      const existing = this.panProcessors.get(uid);
+
+      if (pan === undefined) {
+        if (existing) {
+          track.unpipe();
+          existing.processor.unpipe();
+          this.panProcessors.delete(uid);
+        }
+        return;
+      }
+
+      if (existing) {
+        existing.processor.setPan(pan);
+        return;
+      }
+
+      try {
+        const processor = new StereoPanProcessor(pan);
+        track.pipe(processor).pipe(track.processorDestination);
+        this.panProcessors.set(uid, { processor, track });
+      } catch (error) {
+        logger.warn('Failed to pan remote audio', {
+          component: 'VoiceService',
+          action: 'applyMemberPans',
+          metadata: { error, memberId, uid },
+        });
+      }
+    });
+  }
+
+  // Other media services share the client and need to know who a uid belongs to
+  public resolveMemberId(agoraUid: number | string): string | null {
+    return this.getMemberIdFromAgoraUid(agoraUid) ?? null;
+  }
+
+  public resolveAgoraUid(memberId: string): string | null {
+    return this.getAgoraUidFromMemberId(memberId) ?? null;
+  }
+
   public getMemberMuteState(memberId: string): boolean {
     return this.memberMuteStates.get(memberId) || false;
   }
 
+  public getMemberVolume(memberId: string): number {
+    return this.memberVolumes.get(memberId) ?? VOICE_CONSTANTS.MEMBER_VOLUME_DEFAULT;
+  }
+
+  // The member's saved volume, turned down while the party is ducked
+  private getPlaybackVolume(memberId: string): number {
+    const volume = this.getMemberVolume(memberId);
+    return this.isPartyDucked ? Math.round(volume * VOICE_CONSTANTS.CALL_PARTY_DUCK_RATIO) : volume;
+  }
+
+  // Local playback volume for one member, 0-200% of their original level
+  public setMemberVolume(memberId: string, volume: number): void {
+    const clampedVolume = Math.round(Math.min(Math.max(volume, 0), VOICE_CONSTANTS.MEMBER_VOLUME_MAX));
+
+    if (clampedVolume === VOICE_CONSTANTS.MEMBER_VOLUME_DEFAULT) {
+      this.memberVolumes.delete(memberId);
+    } else {
+      this.memberVolumes.set(memberId, clampedVolume);
+    }
+
+    try {
+      localStorage.setItem('memberVolumes', JSON.stringify(Object.fromEntries(this.memberVolumes)));
+    } catch (error) {
+      logger.error('Failed to persist member volume', {
+        component: 'VoiceService',
+        action: 'setMemberVolume',
+        metadata: { error, memberId, volume: clampedVolume }
+      });
+    }
+
+    // Apply right away if we are currently hearing this member
+    const agoraUid = this.getAgoraUidFromMemberId(memberId);
+    const remoteUser = agoraUid ? this.client.remoteUsers.find(user => user.uid.toString() === agoraUid) : null;
+    remoteUser?.audioTrack?.setVolume(this.getPlaybackVolume(memberId));
+  }
+
   public async toggleMemberMute(memberId: string): Promise<void> {
     const currentState = this.memberMuteStates.get(memberId) || false;
     const newMuteState = !currentState;
@@ -1773,9 +3346,11 @@ export class VoiceService {
         if (remoteUser) {
           try {
             await this.client.subscribe(remoteUser, 'audio');
-            if (remoteUser.audioTrack) {
+            if (remoteUser.audioTrack && !this._isDeafened) {
+              remoteUser.audioTrack.setVolume(this.getPlaybackVolume(memberId));
               remoteUser.audioTrack.play();
             }
+            this.applyMemberPans();
           } catch (error) {
             // If subscription fails because user is not publishing, just update local state
             if (error && typeof error === 'object' && 'code' in error && error.code === 'INVALID_REMOTE_USER') {
@@ -1846,9 +3421,45 @@ export class VoiceService {
     }
   }
 
+  // Agora fires no user-left for the room we leave, so forget its members ourselves and keep only our own state
+  private clearRemoteState(): void {
+    const ownId = this.currentMemberId;
+
+    this.memberVoiceStates.forEach((_, memberId) => {
+      if (memberId !== ownId) this.memberVoiceStates.delete(memberId);
+    });
+    this.memberIdToAgoraUid.forEach((_, memberId) => {
+      if (memberId !== ownId) this.memberIdToAgoraUid.delete(memberId);
+    });
+    this.agoraUidToMemberId.forEach((memberId, agoraUid) => {
+      if (memberId !== ownId) this.agoraUidToMemberId.delete(agoraUid);
+    });
+    this.networkStats.forEach((_, memberId) => {
+      if (memberId !== ownId) this.networkStats.delete(memberId);
+    });
+    this.panProcessors.forEach(({ processor }) => processor.unpipe());
+    this.panProcessors.clear();
+    this.soundboardDucks.forEach((timer) => clearTimeout(timer));
+    this.soundboardDucks.clear();
+    this.remoteVideoKinds.clear();
+
+    this.volumeCallback?.(Array.from(this.memberVoiceStates.values()));
+    this.networkStatsCallback?.(Array.from(this.networkStats.values()));
+    this.videoKindsCallback?.();
+  }
+
   private cleanupInstance(): void {
     // First mark that we're not joined to prevent new operations
     this._isJoined = false;
+    this.currentChannelName = null;
+    this.isServerMuted = false;
+    this._isDeafened = false;
+    this.wasMutedBeforeDeafen = false;
+
+    // Keep the selected input mode, but drop the gate and its timers
+    this.stopVoiceActivityMonitor();
+    this.clearInputGateReleaseTimer();
+    this.isInputGateOpen = this.inputMode === 'open_mic';
 
     // Store callback before cleanup to restore it later
     const storedCallback = this.volumeCallback;
@@ -1873,6 +3484,8 @@ export class VoiceService {
         this.audioQualityMonitorInterval = null;
     }
 
+    this.stopMicTest();
+
     // Clean up audio track with proper sequencing
     if (this.audioTrack) {
         try {
@@ -1906,11 +3519,10 @@ export class VoiceService {
         }
     }
 
-    // Clean up AI denoiser
+    // Idle the AI denoiser but keep it; the next local track is piped through it and picks up the saved settings
     if (this.aiDenoiserProcessor) {
         try {
             void this.aiDenoiserProcessor.disable();
-            this.aiDenoiserProcessor = null;
         } catch (error) {
             logger.warn('Error cleaning up AI denoiser', {
                 component: 'VoiceService',
@@ -1924,6 +3536,20 @@ export class VoiceService {
     this.currentMemberId = null;
     this.memberVoiceStates.clear();
     this.memberMuteStates.clear();
+    this.networkStats.clear();
+    this.networkStatsCallback?.([]);
+    this.linkState = 'connected';
+    this.linkStateCallback?.('connected');
+    this.panProcessors.forEach(({ processor }) => processor.unpipe());
+    this.panProcessors.clear();
+    this.captureSources.clear();
+    this.soundboardTrack = null;
+    this.soundboardDucks.forEach((timer) => clearTimeout(timer));
+    this.soundboardDucks.clear();
+    this.whisperTargetId = null;
+    this.localVideoKind = null;
+    this.remoteVideoKinds.clear();
+    this.videoKindsCallback?.();
     this.memberIdToAgoraUid.clear();
     this.agoraUidToMemberId.clear();
     this.lastVolume = 0;
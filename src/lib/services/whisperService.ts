@@ -0,0 +1,185 @@
+import type { IAgoraRTCClient, IMicrophoneAudioTrack } from 'agora-rtc-sdk-ng';
+
+import AgoraRTC from 'agora-rtc-sdk-ng';
+
+import { WHISPER_CHANNEL_PREFIX } from '@/lib/constants';
+import { VOICE_CONSTANTS } from '@/lib/constants/voice';
+import { logger } from '@/lib/logger';
+import { VoiceService } from '@/lib/services/voiceService';
+
+const LOG_CONTEXT = { component: 'WhisperService' };
+
+interface OutgoingWhisper {
+  client: IAgoraRTCClient;
+  targetId: string;
+  track: IMicrophoneAudioTrack | null;
+}
+
+// Whispers ride a second Agora connection to a channel only the whisperer and the listener can join
+export class WhisperService {
+  private static instance: WhisperService | null = null;
+  private client: IAgoraRTCClient;
+  private outgoing: OutgoingWhisper | null = null;
+  private incoming: Map<string, IAgoraRTCClient> = new Map(); // Keyed by whisperer member id
+
+  private constructor(client: IAgoraRTCClient) {
+    this.client = client;
+  }
+
+  public static getInstance(client: IAgoraRTCClient): WhisperService {
+    if (!WhisperService.instance || WhisperService.instance.client !== client) {
+      WhisperService.instance = new WhisperService(client);
+    }
+    return WhisperService.instance;
+  }
+
+  public get whisperTargetId(): string | null {
+    return this.outgoing?.targetId ?? null;
+  }
+
+  public async startWhisper(targetId: string): Promise<void> {
+    if (this.outgoing?.targetId === targetId) return;
+    await this.stopWhisper();
+
+    const voiceService = VoiceService.getInstance(this.client);
+    const targetUid = voiceService.resolveAgoraUid(targetId);
+    if (this.client.connectionState !== 'CONNECTED' || !this.client.uid) {
+      throw new Error('Join voice before whispering');
+    }
+    if (voiceService.serverMuted) {
+      throw new Error('You are muted in this party');
+    }
+    if (!targetUid) {
+      throw new Error('They are not connected to voice');
+    }
+
+    const whisperClient = AgoraRTC.createClient({ mode: 'rtc', codec: 'vp8' });
+    const outgoing: OutgoingWhisper = { client: whisperClient, targetId, track: null };
+    this.outgoing = outgoing;
+
+    // Close the party mic first so nobody else catches the start of the whisper
+    await voiceService.setWhisperTarget(targetId);
+
+    try {
+      const channelName = this.getChannelName(this.client.uid, targetUid);
+      const { token, uid } = await voiceService.fetchToken(channelName, 'publisher');
+      await whisperClient.join(VOICE_CONSTANTS.APP_ID, channelName, token, uid);
+      outgoing.track = await voiceService.createWhisperTrack();
+
+      // Released while we were still connecting
+      if (this.outgoing !== outgoing) {
+        await this.closeOutgoing(outgoing);
+        return;
+      }
+
+      await whisperClient.publish(outgoing.track);
+
+      logger.info('Whisper started', {
+        ...LOG_CONTEXT,
+        action: 'startWhisper',
+        metadata: { targetId },
+      });
+    } catch (error) {
+      logger.error('Failed to start whisper', {
+        ...LOG_CONTEXT,
+        action: 'startWhisper',
+        metadata: { error, targetId },
+      });
+      if (this.outgoing === outgoing) {
+        await this.stopWhisper();
+      }
+      throw new Error('Could not start the whisper');
+    }
+  }
+
+  public async stopWhisper(): Promise<void> {
+    const outgoing = this.outgoing;
+    if (!outgoing) return;
+    this.outgoing = null;
+
+    await this.closeOutgoing(outgoing);
+    await VoiceService.getInstance(this.client).setWhisperTarget(null);
+  }
+
+  // Follow whoever is whispering to us: join their whisper channels and leave the ones that stopped
+  public async syncIncoming(whispererIds: string[]): Promise<void> {
+    const wanted = new Set(whispererIds);
+
+    await Promise.all(
+      Array.from(this.incoming.entries())
+        .filter(([fromId]) => !wanted.has(fromId))
+        .map(async ([fromId, whisperClient]) => {
+          this.incoming.delete(fromId);
+          await this.leave(whisperClient);
+        })
+    );
+
+    await Promise.all(
+      whispererIds.filter((fromId) => !this.incoming.has(fromId)).map((fromId) => this.listen(fromId))
+    );
+  }
+
+  public async leaveAll(): Promise<void> {
+    await this.stopWhisper();
+    await this.syncIncoming([]);
+  }
+
+  private async listen(fromId: string): Promise<void> {
+    const voiceService = VoiceService.getInstance(this.client);
+    const fromUid = voiceService.resolveAgoraUid(fromId);
+    if (!fromUid || !this.client.uid) return;
+
+    const whisperClient = AgoraRTC.createClient({ mode: 'rtc', codec: 'vp8' });
+    this.incoming.set(fromId, whisperClient);
+
+    whisperClient.on('user-published', async (user, mediaType) => {
+      if (mediaType !== 'audio') return;
+      await whisperClient.subscribe(user, mediaType);
+      // Deafened members hear nothing, whispers included
+      if (!voiceService.isDeafened) {
+        user.audioTrack?.play();
+      }
+    });
+
+    try {
+      const channelName = this.getChannelName(fromUid, this.client.uid);
+      const { token, uid } = await voiceService.fetchToken(channelName, 'subscriber');
+      await whisperClient.join(VOICE_CONSTANTS.APP_ID, channelName, token, uid);
+
+      // They stopped before we finished joining
+      if (this.incoming.get(fromId) !== whisperClient) {
+        await this.leave(whisperClient);
+      }
+    } catch (error) {
+      logger.warn('Failed to listen to whisper', {
+        ...LOG_CONTEXT,
+        action: 'listen',
+        metadata: { error, fromId },
+      });
+      if (this.incoming.get(fromId) === whisperClient) {
+        this.incoming.delete(fromId);
+      }
+      await this.leave(whisperClient);
+    }
+  }
+
+  private async closeOutgoing(outgoing: OutgoingWhisper): Promise<void> {
+    outgoing.track?.close();
+    await this.leave(outgoing.client);
+  }
+
+  private async leave(whisperClient: IAgoraRTCClient): Promise<void> {
+    whisperClient.removeAllListeners();
+    await whisperClient.leave().catch((error) => {
+      logger.warn('Failed to leave whisper channel', {
+        ...LOG_CONTEXT,
+        action: 'leave',
+        metadata: { error },
+      });
+    });
+  }
+
+  private getChannelName(fromUid: number | string, toUid: number | string): string {
+    return `${WHISPER_CHANNEL_PREFIX}${fromUid}-${toUid}`;
+  }
+}
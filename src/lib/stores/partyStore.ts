@@ -5,7 +5,10 @@ import { createJSONStorage, persist } from 'zustand/middleware';
 
 import { PresenceService } from '@/lib/services/presenceService';
 
+import { createAuthMiddleware } from '../middleware/authMiddleware';
+import { createChatMiddleware } from '../middleware/chatMiddleware';
 import { createFormMiddleware } from '../middleware/formMiddleware';
+import { createModerationMiddleware } from '../middleware/moderationMiddleware';
 import { createPartyMiddleware } from '../middleware/partyMiddleware';
 import { createPresenceMiddleware } from '../middleware/presenceMiddleware';
 import { createVoiceMiddleware } from '../middleware/voiceMiddleware';
@@ -20,8 +23,14 @@ export const usePartyStore = create<Store>()(
       // Combine all middlewares
       ...createPresenceMiddleware()(...args),
       ...createVoiceMiddleware()(...args),
-      ...createPartyMiddleware(presenceService.initialize, presenceService.cleanup)(...args),
+      ...createPartyMiddleware(
+        (member, partyId) => presenceService.initialize(member, partyId),
+        () => presenceService.cleanup()
+      )(...args),
       ...createFormMiddleware()(...args),
+      ...createChatMiddleware()(...args),
+      ...createAuthMiddleware()(...args),
+      ...createModerationMiddleware()(...args),
     }),
     {
       name: 'party-store',
@@ -34,8 +43,10 @@ export const usePartyStore = create<Store>()(
           game: state.form.game,
         },
         party: {
+          id: state.party.id,
           status: state.party.status,
         },
+        voiceSettings: state.voiceSettings,
       }),
     }
   )
@@ -9,3 +9,16 @@ export interface AgoraContextType {
   cleanupClient: () => Promise<void>;
   getClient: () => Promise<IAgoraRTCClient>;
 }
+
+// Token roles: subscribers can listen but not publish
+export type AgoraTokenRole = 'publisher' | 'subscriber';
+
+export interface AgoraTokenResponse {
+  channelName: string;
+  privileges: {
+    expireTimestamp: number;
+  };
+  role: AgoraTokenRole;
+  token: string;
+  uid: number;
+}
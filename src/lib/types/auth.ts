@@ -0,0 +1,32 @@
+// Auth session status
+export type AuthStatus = 'loading' | 'signed_in' | 'signed_out';
+
+// OAuth providers offered in the profile modal
+export type OAuthProvider = 'discord' | 'github' | 'google';
+
+// Authenticated user, anonymous sessions included
+export interface AuthUser {
+  email: string | null;
+  id: string;
+  isAnonymous: boolean;
+}
+
+// Persisted profile bound to the auth user
+export interface Profile {
+  avatar: string;
+  game: string;
+  id: string;
+  name: string;
+}
+
+export interface AuthState {
+  error: Error | null;
+  profile: Profile | null;
+  status: AuthStatus;
+  user: AuthUser | null;
+}
+
+// Auth service listener for session changes
+export interface AuthListener {
+  (user: AuthUser | null): void;
+}
@@ -0,0 +1,48 @@
+import type { AudioProcessingSettings } from '@/lib/types/party/voice';
+
+// Where a direct call stands for this user; connecting covers joining the private voice channel
+export type CallStatus = 'active' | 'connecting' | 'ringing';
+
+export type CallDirection = 'incoming' | 'outgoing';
+
+// The other side of a direct call, as shown in the call overlay
+export interface CallPeer {
+  avatar: string;
+  id: string;
+  name: string;
+}
+
+export interface DirectCall {
+  direction: CallDirection;
+  id: string;
+  isMuted: boolean;
+  peer: CallPeer;
+  status: CallStatus;
+}
+
+export type CallSignalType = 'accept' | 'decline' | 'end' | 'ring';
+
+// Broadcast on the system channel; receivers check it against direct_calls before acting on it
+export interface CallSignal {
+  callId: string;
+  from: CallPeer;
+  toId: string;
+  type: CallSignalType;
+}
+
+export interface CallListener {
+  (call: DirectCall | null): void;
+}
+
+// Why a call went away, for the overlay to explain
+export type CallEndReason = 'declined' | 'ended' | 'failed' | 'missed';
+
+export interface CallEndListener {
+  (reason: CallEndReason, call: DirectCall): void;
+}
+
+// The microphone and processing the user chose for voice, used for the call's own mic track
+export interface CallMicrophoneSettings {
+  audioProcessing: AudioProcessingSettings;
+  inputDeviceId: string | null;
+}
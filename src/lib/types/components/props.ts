@@ -1,5 +1,7 @@
+import type { CameraFeed, ScreenShare } from '../party/media';
 import type { PartyMember, VoiceStatus, VoiceMemberState } from '../party/member';
 import type { PartyStatus } from '../party/state';
+import type { MemberNetworkStats } from '../party/voice';
 import type { ComponentProps } from 'react';
 
 export interface VolumeState {
@@ -21,20 +23,78 @@ export interface PartyControlsProps {
   currentUser: PartyMember | null;
   isLeaving: boolean;
   partyState: PartyStatus;
+  isCameraOn?: boolean;
+  isDeafened?: boolean;
   isMuted?: boolean;
+  isScreenSharing?: boolean;
   micPermissionDenied?: boolean;
   onLeaveAction: () => void;
   onRequestMicrophonePermission?: () => void;
+  onSaveReplayClip?: () => void;
+  onToggleCamera?: () => void;
+  onToggleDeafen?: () => void;
   onToggleMute?: () => void;
+  onToggleRecording?: () => void;
+  onToggleScreenShare?: () => void;
 }
 
 // Member list props
 export interface MemberListProps {
   members: (PartyMember & Partial<VoiceMemberState>)[];
   currentUserId?: string;
+  networkStats?: Record<string, MemberNetworkStats>;
+  sharingMemberIds?: string[];
   volumeLevels?: Record<string, VoiceMemberState>;
 }
 
+// Host controls shown in a member row
+export interface MemberActionsMenuProps {
+  canBan: boolean;
+  isServerMuted: boolean;
+  isSharingScreen: boolean;
+  memberId: string;
+  memberName: string;
+  partyId: string;
+}
+
+// Per-member playback volume control
+export interface MemberVolumeSliderProps {
+  memberName: string;
+  volume: number;
+  onVolumeChange: (volume: number) => void;
+}
+
+// Signal bars with a link stats popover
+export interface NetworkQualityIndicatorProps {
+  memberName: string;
+  stats?: MemberNetworkStats;
+}
+
+// Live screen share viewer shown above the member list
+export interface ScreenShareTileProps {
+  canModerate: boolean;
+  partyId: string;
+  share: ScreenShare;
+  sharerName: string;
+  onStopLocalShare: () => void;
+}
+
+// Drag-to-arrange stereo positions for spatial audio
+export interface SpatialStageProps {
+  members: PartyMember[];
+  pans: Record<string, number>;
+  onPanChange: (memberId: string, pan: number) => void;
+}
+
+// Camera grid shown instead of the member list
+export interface VideoGridProps {
+  cameraFeeds: CameraFeed[];
+  members: PartyMember[];
+  currentUserId?: string;
+  volumeLevels?: Record<string, VoiceMemberState>;
+  onCameraHiddenChange: (memberId: string, isHidden: boolean) => void;
+}
+
 // Voice status icon props
 export interface VoiceStatusIconProps {
   status: VoiceStatus;
@@ -15,6 +15,7 @@ export interface Database {
           last_seen: string | null;
           muted: boolean | null;
           name: string;
+          party_id: string;
           voice_status: string;
         };
         Insert: {
@@ -28,6 +29,7 @@ export interface Database {
           last_seen?: string | null;
           muted?: boolean | null;
           name: string;
+          party_id?: string;
           voice_status?: string;
         };
         Update: {
@@ -41,50 +43,208 @@ export interface Database {
           last_seen?: string | null;
           muted?: boolean | null;
           name?: string;
+          party_id?: string;
           voice_status?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'fk_party_members_party';
+            columns: ['party_id'];
+            isOneToOne: false;
+            referencedRelation: 'parties';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      parties: {
+        Row: {
+          created_at: string | null;
+          host_id: string | null;
+          id: string;
+          is_active: boolean;
+          name: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          host_id?: string | null;
+          id?: string;
+          is_active?: boolean;
+          name: string;
+        };
+        Update: {
+          created_at?: string | null;
+          host_id?: string | null;
+          id?: string;
+          is_active?: boolean;
+          name?: string;
+        };
+        Relationships: [];
+      };
+      party_roles: {
+        Row: {
+          created_at: string;
+          member_id: string;
+          party_id: string;
+          role: string;
+        };
+        Insert: {
+          created_at?: string;
+          member_id: string;
+          party_id: string;
+          role: string;
+        };
+        Update: {
+          created_at?: string;
+          member_id?: string;
+          party_id?: string;
+          role?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'party_roles_party_id_fkey';
+            columns: ['party_id'];
+            isOneToOne: false;
+            referencedRelation: 'parties';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      party_sanctions: {
+        Row: {
+          agora_rule_id: number | null;
+          created_at: string;
+          created_by: string | null;
+          expires_at: string | null;
+          kind: string;
+          member_id: string;
+          party_id: string;
+        };
+        Insert: {
+          agora_rule_id?: number | null;
+          created_at?: string;
+          created_by?: string | null;
+          expires_at?: string | null;
+          kind: string;
+          member_id: string;
+          party_id: string;
+        };
+        Update: {
+          agora_rule_id?: number | null;
+          created_at?: string;
+          created_by?: string | null;
+          expires_at?: string | null;
+          kind?: string;
+          member_id?: string;
+          party_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'party_sanctions_party_id_fkey';
+            columns: ['party_id'];
+            isOneToOne: false;
+            referencedRelation: 'parties';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      party_messages: {
+        Row: {
+          content: string;
+          created_at: string;
+          id: string;
+          member_avatar: string;
+          member_id: string;
+          member_name: string;
+          party_id: string;
+        };
+        Insert: {
+          content: string;
+          created_at?: string;
+          id?: string;
+          member_avatar: string;
+          member_id: string;
+          member_name: string;
+          party_id: string;
+        };
+        Update: {
+          content?: string;
+          created_at?: string;
+          id?: string;
+          member_avatar?: string;
+          member_id?: string;
+          member_name?: string;
+          party_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'party_messages_party_id_fkey';
+            columns: ['party_id'];
+            isOneToOne: false;
+            referencedRelation: 'parties';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      profiles: {
+        Row: {
+          avatar: string;
+          created_at: string;
+          game: string;
+          id: string;
+          name: string;
+          updated_at: string;
+        };
+        Insert: {
+          avatar: string;
+          created_at?: string;
+          game: string;
+          id: string;
+          name: string;
+          updated_at?: string;
+        };
+        Update: {
+          avatar?: string;
+          created_at?: string;
+          game?: string;
+          id?: string;
+          name?: string;
+          updated_at?: string;
+        };
         Relationships: [];
       };
     };
     Views: {
-      [_ in never]: never;
+      party_summaries: {
+        Row: {
+          created_at: string | null;
+          id: string;
+          is_active: boolean;
+          member_count: number;
+          name: string;
+        };
+        Relationships: [];
+      };
     };
     Functions: {
-      get_active_members:
-        | {
-            Args: Record<PropertyKey, never>;
-            Returns: {
-              id: string;
-              name: string;
-              avatar: string;
-              game: string;
-              is_active: boolean;
-              muted: boolean;
-              voice_status: string;
-              deafened_users: string[];
-              agora_uid: number;
-              last_seen: string;
-              created_at: string;
-            }[];
-          }
-        | {
-            Args: {
-              stale_threshold: string;
-            };
-            Returns: {
-              id: string;
-              name: string;
-              avatar: string;
-              game: string;
-              is_active: boolean;
-              muted: boolean;
-              voice_status: string;
-              deafened_users: string[];
-              agora_uid: number;
-              last_seen: string;
-              created_at: string;
-            }[];
-          };
+      get_active_members: {
+        Args: {
+          target_party_id?: string;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          avatar: string;
+          game: string;
+          is_active: boolean;
+          muted: boolean;
+          voice_status: string;
+          deafened_users: string[];
+          agora_uid: number;
+          party_id: string;
+          last_seen: string;
+          created_at: string;
+        }[];
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -67,6 +67,18 @@ export type TablesUpdate<
 export type PartyMembers = Database['public']['Tables']['party_members']['Row'];
 export type InsertPartyMembers = Database['public']['Tables']['party_members']['Insert'];
 export type UpdatePartyMembers = Database['public']['Tables']['party_members']['Update'];
+export type Parties = Database['public']['Tables']['parties']['Row'];
+export type InsertParties = Database['public']['Tables']['parties']['Insert'];
+export type UpdateParties = Database['public']['Tables']['parties']['Update'];
+export type PartyMessages = Database['public']['Tables']['party_messages']['Row'];
+export type InsertPartyMessages = Database['public']['Tables']['party_messages']['Insert'];
+export type Profiles = Database['public']['Tables']['profiles']['Row'];
+export type InsertProfiles = Database['public']['Tables']['profiles']['Insert'];
+export type PartyRoles = Database['public']['Tables']['party_roles']['Row'];
+export type PartySanctions = Database['public']['Tables']['party_sanctions']['Row'];
+
+// View types
+export type PartySummaries = Database['public']['Views']['party_summaries']['Row'];
 
 // Function types
 export type ArgsGetActiveMembers = Database['public']['Functions']['get_active_members']['Args'];
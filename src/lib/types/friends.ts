@@ -0,0 +1,46 @@
+// Which side of a friendship the signed-in user is on; pending requests are incoming or outgoing
+export type FriendStatus = 'accepted' | 'incoming' | 'outgoing';
+
+// A friend or pending request, with the other user's profile
+export interface Friend {
+  avatar: string;
+  game: string;
+  id: string;
+  name: string;
+  status: FriendStatus;
+}
+
+// Someone the signed-in user blocked
+export interface BlockedUser {
+  id: string;
+  name: string;
+}
+
+// Tracked on the global system channel while a signed-in user has the app open
+export interface OnlineStatus {
+  avatar: string;
+  game: string;
+  id: string;
+  name: string;
+  partyId: string | null;
+}
+
+// Broadcast on the system channel to ask a friend into your party
+export interface FriendPartyInvite {
+  fromId: string;
+  fromName: string;
+  partyId: string;
+  toId: string;
+}
+
+export interface FriendsListener {
+  (friends: Friend[]): void;
+}
+
+export interface OnlineStatusListener {
+  (online: Map<string, OnlineStatus>): void;
+}
+
+export interface FriendPartyInviteListener {
+  (invite: FriendPartyInvite): void;
+}
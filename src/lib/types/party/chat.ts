@@ -0,0 +1,15 @@
+// Chat message as stored in party_messages
+export interface PartyMessage {
+  content: string;
+  created_at: string;
+  id: string;
+  member_avatar: string;
+  member_id: string;
+  member_name: string;
+  party_id: string;
+}
+
+// Chat service listener for incoming messages
+export interface ChatListener {
+  (message: PartyMessage): void;
+}
@@ -1,6 +1,9 @@
 // Re-export all party types
 
+export * from './chat';
+export * from './media';
 export * from './middleware';
+export * from './party';
 export * from './service';
 export type { PresenceMemberState, PartyMember, VoiceMemberState, MemberStatus, VoiceStatus } from './member';
 export { createPartyMember } from './member';
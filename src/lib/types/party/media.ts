@@ -0,0 +1,76 @@
+import type { ILocalVideoTrack, IRemoteVideoTrack } from 'agora-rtc-sdk-ng';
+
+// A client publishes at most one video track, announced to the party as one of these
+export type VideoKind = 'camera' | 'screen';
+
+// Camera encoder presets, from lightest to sharpest
+export type CameraPreset = '180p' | '360p' | '720p';
+
+// The party view: the classic member list or a grid of video tiles
+export type VideoLayout = 'grid' | 'list';
+
+// A screen being shared in the party; memberId stays null until the sharer's uid is mapped
+export interface ScreenShare {
+  isLocal: boolean;
+  memberId: string | null;
+  track: ILocalVideoTrack | IRemoteVideoTrack;
+  uid: string;
+}
+
+// A member's camera; track is null while the viewer has hidden it
+export interface CameraFeed {
+  isHidden: boolean;
+  isLocal: boolean;
+  memberId: string | null;
+  track: ILocalVideoTrack | IRemoteVideoTrack | null;
+  uid: string;
+}
+
+// Instant replay keeps this much recent party audio in memory until a clip is saved
+export type ReplayClipLength = 30 | 60 | 120;
+
+// Where party audio is being captured on this device; any of them shows the recording indicator
+export type CaptureSource = 'recording' | 'replay';
+
+export interface InstantReplaySettings {
+  clipSeconds: ReplayClipLength;
+  enabled: boolean;
+  hotkey: string; // KeyboardEvent.code that saves a clip
+}
+
+// A saved replay, kept in the browser's IndexedDB
+export interface ReplayClip {
+  blob: Blob;
+  createdAt: number;
+  durationSeconds: number;
+  id: string;
+  name: string;
+}
+
+// A soundboard entry as shown to the player; built-in sounds are synthesized, uploads live in IndexedDB
+export interface SoundboardSound {
+  id: string;
+  isCustom: boolean;
+  name: string;
+}
+
+export interface CustomSound {
+  blob: Blob;
+  createdAt: number;
+  id: string;
+  name: string;
+}
+
+// One tone of a synthesized built-in sound; times are in seconds
+export interface SynthNote {
+  duration: number;
+  frequency: number;
+  start: number;
+  type?: OscillatorType;
+}
+
+export interface BuiltInSound {
+  id: string;
+  name: string;
+  notes: SynthNote[];
+}
@@ -1,5 +1,6 @@
 // Voice status types
 export type VoiceStatus =
+  | 'deafened'
   | 'disconnected'
   | 'error'
   | 'muted'
@@ -21,6 +22,7 @@ export interface PartyMember {
   name: string;
   status: MemberStatus;
   agora_uid?: string;
+  breakout?: number | null; // Breakout room the member is talking in; null or absent is the main channel
   partyId?: string;  // Optional party ID for dynamic channel assignment
 }
 
@@ -34,8 +36,10 @@ export interface VoiceMemberState {
   agora_uid?: string;
   last_transition?: number; // For debouncing state changes
   prev_level?: number;      // For tracking level changes
+  recording?: boolean;      // Capturing the party audio locally
   smoothed_level?: number;  // For smoothing volume transitions
   timestamp?: number;
+  whispering_to?: string | null; // Member id this member is whispering to; the party does not hear them meanwhile
 }
 
 // Combined presence member state
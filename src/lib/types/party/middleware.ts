@@ -39,6 +39,24 @@ export interface FormStore {
   setSubmitting: (isSubmitting: boolean) => void;
 }
 
+// Auth middleware types
+export type AuthSlice = Pick<
+  Store,
+  | 'auth'
+  | 'ensureAuthUser'
+  | 'initializeAuth'
+  | 'saveProfile'
+  | 'signInWithMagicLink'
+  | 'signInWithOAuth'
+  | 'signOut'
+>;
+
+// Chat middleware types
+export type ChatSlice = Pick<
+  Store,
+  'addChatMessage' | 'chat' | 'loadChatHistory' | 'sendChatMessage' | 'setChatOpen'
+>;
+
 // Form middleware types
 export type FormSlice = Pick<
   Store,
@@ -48,19 +66,41 @@ export type FormSlice = Pick<
 // Voice middleware types
 export type VoiceSlice = Pick<
   Store,
+  | 'setAudioProcessing'
+  | 'setCameraPreset'
+  | 'setDeafened'
+  | 'setInputDeviceId'
+  | 'setInstantReplay'
   | 'setMuted'
+  | 'setOutputDeviceId'
+  | 'setPushToTalkKey'
+  | 'setSoundboardMuted'
+  | 'setSpatialAudio'
   | 'setSpeaking'
+  | 'setVideoLayout'
   | 'setVoiceError'
+  | 'setVoiceInCall'
+  | 'setVoiceInputMode'
+  | 'setVoiceLinkState'
+  | 'setVoiceRecording'
+  | 'setVoiceReplayBuffering'
   | 'setVoiceStatus'
   | 'setVolume'
   | 'updateRemoteUsers'
   | 'voice'
+  | 'voiceSettings'
+>;
+
+// Moderation middleware types
+export type ModerationSlice = Pick<
+  Store,
+  'applyModerationEvent' | 'applyPartySettings' | 'loadModeration' | 'moderation'
 >;
 
 // Party middleware types
 export type PartySlice = Pick<
   Store,
-  'joinParty' | 'leaveParty' | 'party' | 'setPartyError' | 'setPartyStatus'
+  'joinParty' | 'leaveParty' | 'party' | 'setPartyError' | 'setPartyId' | 'setPartyStatus'
 >;
 
 // Presence middleware types
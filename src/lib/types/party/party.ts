@@ -0,0 +1,62 @@
+// Party record
+export interface Party {
+  created_at: string;
+  id: string;
+  is_active: boolean;
+  name: string;
+}
+
+// Party with live member count for listings
+export interface PartySummary extends Party {
+  member_count: number;
+}
+
+// Per-party roles; members without a role row are plain members
+export type PartyRole = 'host' | 'member' | 'moderator';
+
+// Moderation actions enforced by the moderation route
+export type ModerationAction = 'ban' | 'kick' | 'mute' | 'stop_share' | 'unmute';
+
+// Broadcast on the party channel after the server applies an action
+export interface ModerationEvent {
+  action: ModerationAction;
+  actorId: string;
+  memberId: string;
+  partyId: string;
+}
+
+// Party-wide switches the host controls, pushed to members as the party row changes
+export interface PartySettings {
+  breakoutAssignments: Record<string, number>; // Member id to breakout number; absent members stay in the main channel
+  breakoutCount: number;
+  partyId: string;
+  soundboardEnabled: boolean;
+}
+
+// Optimistic updates carry only what the host just changed
+export type PartySettingsUpdate = Partial<PartySettings> & Pick<PartySettings, 'partyId'>;
+
+export interface PartySettingsListener {
+  (settings: PartySettings): void;
+}
+
+export interface ModerationListener {
+  (event: ModerationEvent): void;
+}
+
+// Limits a host picks for an invite link; null means no limit
+export interface InviteOptions {
+  expiresInHours: number | null;
+  maxUses: number | null;
+  membersOnly: boolean;
+}
+
+// What an invite link shows before anyone redeems it
+export interface InvitePreview {
+  code: string;
+  expiresAt: string | null;
+  membersOnly: boolean;
+  partyId: string;
+  partyName: string;
+  usesLeft: number | null;
+}
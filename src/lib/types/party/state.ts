@@ -1,4 +1,8 @@
+import type { PartyMessage } from './chat';
+import type { CameraPreset, InstantReplaySettings, VideoLayout } from './media';
 import type { PartyMember } from './member';
+import type { PartyRole } from './party';
+import type { AudioProcessingSettings, MemberLinkState, SpatialAudioSettings, VoiceInputMode } from './voice';
 
 // Status types
 export type PresenceStatus = 'connected' | 'connecting' | 'error' | 'idle';
@@ -21,18 +25,54 @@ export interface PresenceState {
 
 export interface VoiceState {
   error: Error | null;
+  isDeafened: boolean;
+  isInCall: boolean; // On a direct call, which turns the party down
   isMuted: boolean;
+  isRecording: boolean;
+  isReplayBuffering: boolean;
   isSpeaking: boolean;
+  linkState: MemberLinkState;
   remoteUsers: Set<string>;
   status: VoiceConnectionStatus;
   volume: number;
 }
 
+// Per-device voice preferences, persisted across sessions
+export interface VoiceSettingsState {
+  audioProcessing: AudioProcessingSettings;
+  cameraPreset: CameraPreset;
+  inputDeviceId: string | null; // null follows the system default
+  inputMode: VoiceInputMode;
+  instantReplay: InstantReplaySettings;
+  outputDeviceId: string | null;
+  pushToTalkKey: string;
+  soundboardMuted: boolean; // Silence other members' soundboard sounds for this listener
+  spatialAudio: SpatialAudioSettings;
+  videoLayout: VideoLayout;
+}
+
 export interface PartyState {
   error: Error | null;
+  id: string;
   status: PartyStatus;
 }
 
+export interface ChatState {
+  error: Error | null;
+  isOpen: boolean;
+  messages: PartyMessage[];
+  unreadCount: number;
+}
+
+export interface ModerationState {
+  breakoutAssignments: Record<string, number>;
+  breakoutCount: number;
+  error: Error | null;
+  roles: Record<string, PartyRole>;
+  serverMutedIds: string[];
+  soundboardEnabled: boolean;
+}
+
 export interface FormState {
   avatar: string;
   errors: Record<string, string>;
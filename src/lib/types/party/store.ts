@@ -1,38 +1,82 @@
+import type { AuthState, AuthUser, OAuthProvider, Profile } from '../auth';
+import type { PartyMessage } from './chat';
+import type { CameraPreset, InstantReplaySettings, VideoLayout } from './media';
 import type { PartyMember } from './member';
+import type { ModerationEvent, PartySettingsUpdate } from './party';
 import type {
+  ChatState,
   FormState,
+  ModerationState,
   PartyState,
   PresenceState,
   VoiceConnectionStatus,
+  VoiceSettingsState,
   VoiceState,
 } from './state';
+import type { AudioProcessingSettings, MemberLinkState, SpatialAudioSettings, VoiceInputMode } from './voice';
 
 // Store interface
 export interface Store {
+  auth: AuthState;
+  chat: ChatState;
   form: FormState;
+  moderation: ModerationState;
   party: PartyState;
   // State
   presence: PresenceState;
   voice: VoiceState;
+  voiceSettings: VoiceSettingsState;
+  // Chat actions
+  addChatMessage: (message: PartyMessage) => void;
+  // Moderation actions
+  applyModerationEvent: (event: ModerationEvent) => void;
+  applyPartySettings: (settings: PartySettingsUpdate) => void;
   cleanupPresence: () => Promise<void>;
+  // Auth actions
+  ensureAuthUser: () => Promise<AuthUser>;
+  initializeAuth: () => Promise<void>;
   // Presence actions
   initializePresence: (member: PartyMember) => Promise<void>;
   joinParty: (member: PartyMember) => Promise<void>;
   leaveParty: () => Promise<void>;
+  loadChatHistory: () => Promise<void>;
+  loadModeration: () => Promise<void>;
   resetForm: () => void;
+  saveProfile: (profile: Omit<Profile, 'id'>) => Promise<Profile>;
+  sendChatMessage: (content: string) => Promise<void>;
+  setAudioProcessing: (settings: Partial<AudioProcessingSettings>) => void;
+  setCameraPreset: (preset: CameraPreset) => void;
+  setChatOpen: (isOpen: boolean) => void;
+  setDeafened: (isDeafened: boolean) => void;
   // Form actions
   setFormData: (data: Partial<FormState>) => void;
   setFormError: (field: string, error: string) => void;
+  setInputDeviceId: (deviceId: string | null) => void;
+  setInstantReplay: (settings: Partial<InstantReplaySettings>) => void;
   setMuted: (isMuted: boolean) => void;
+  setOutputDeviceId: (deviceId: string | null) => void;
   setPartyError: (error: Error | null) => void;
+  setPartyId: (partyId: string) => void;
   // Party actions
   setPartyStatus: (status: PartyState['status']) => void;
+  setPushToTalkKey: (key: string) => void;
+  setSoundboardMuted: (isMuted: boolean) => void;
+  setSpatialAudio: (settings: Partial<SpatialAudioSettings>) => void;
   setSpeaking: (isSpeaking: boolean) => void;
   setSubmitting: (isSubmitting: boolean) => void;
+  setVideoLayout: (layout: VideoLayout) => void;
   setVoiceError: (error: Error | null) => void;
+  setVoiceInCall: (isInCall: boolean) => void;
+  setVoiceInputMode: (mode: VoiceInputMode) => void;
+  setVoiceLinkState: (linkState: MemberLinkState) => void;
+  setVoiceRecording: (isRecording: boolean) => void;
+  setVoiceReplayBuffering: (isReplayBuffering: boolean) => void;
   // Voice actions
   setVoiceStatus: (status: VoiceConnectionStatus) => void;
   setVolume: (volume: number) => void;
+  signInWithMagicLink: (email: string) => Promise<void>;
+  signInWithOAuth: (provider: OAuthProvider) => Promise<void>;
+  signOut: () => Promise<void>;
   subscribeAsVisitor: () => Promise<void>;
   updatePresence: (updates: Partial<PartyMember>) => Promise<void>;
   updateRemoteUsers: (users: Set<string>) => void;
@@ -15,6 +15,63 @@ export interface AudioException extends Error {
   msg?: string;
 }
 
+// How the microphone decides when to transmit
+export type VoiceInputMode = 'open_mic' | 'push_to_talk' | 'voice_activated';
+
+// Audio device roles the user can pick
+export type AudioDeviceKind = 'input' | 'output';
+
+export interface AudioDeviceLists {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+// AI denoiser presets: 'nsng' also removes non-stationary noise like keyboards
+export type DenoiserMode = 'nsng' | 'stationary';
+export type DenoiserLevel = 'aggressive' | 'soft';
+
+// Microphone processing; aec, agc and ans are the browser's built-in constraints
+export interface AudioProcessingSettings {
+  aec: boolean;
+  agc: boolean;
+  ans: boolean;
+  denoiserEnabled: boolean;
+  denoiserLevel: DenoiserLevel;
+  denoiserMode: DenoiserMode;
+}
+
+// Spatial voice placement: follow the party's join order or a layout the user arranged
+export type SpatialLayoutMode = 'custom' | 'row_order';
+
+export interface SpatialAudioSettings {
+  enabled: boolean;
+  layout: SpatialLayoutMode;
+  positions: Record<string, number>; // Member id to stereo pan, -1 (left) to 1 (right)
+}
+
+// Agora's network quality scale: 0 unknown, 1 excellent through 5 very poor, 6 down
+export type NetworkQualityLevel = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// Broadcast by each member so others can tell a reconnect from a frozen row
+export type MemberLinkState = 'connected' | 'disconnected' | 'reconnecting';
+
+// Self-reported link stats, refreshed with every network-quality event
+export interface MemberNetworkStats {
+  bitrate: number; // kbps
+  id: string;
+  jitter: number; // ms
+  linkState: MemberLinkState;
+  packetLoss: number; // percent
+  quality: NetworkQualityLevel;
+  rtt: number; // ms
+  timestamp: number;
+}
+
+// Outcome of opening the pre-join mic test track
+export interface MicTestResult {
+  isDenoiserActive: boolean;
+}
+
 // Volume indicator data
 export interface VolumeData {
   level: number;
@@ -0,0 +1,34 @@
+import type { AgoraTokenResponse, AgoraTokenRole } from '@/lib/types/agora';
+
+import { supabase } from '@/lib/supabase';
+
+// Request an Agora token for the caller's session; the server binds it to their assigned uid.
+// signedOutMessage is shown when there is no session to send.
+export const fetchAgoraToken = async (
+  channelName: string,
+  role: AgoraTokenRole,
+  signedOutMessage: string
+): Promise<AgoraTokenResponse> => {
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+
+  if (!accessToken) {
+    throw new Error(signedOutMessage);
+  }
+
+  const response = await fetch('/api/agora/token', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ channelName, role }),
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(`Failed to fetch token: ${error}`);
+  }
+
+  return response.json();
+};
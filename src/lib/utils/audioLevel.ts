@@ -0,0 +1,39 @@
+export interface AudioLevelMonitor {
+  stop: () => void;
+}
+
+const SAMPLE_INTERVAL_MS = 50;
+// RMS of normal speech sits well below full scale; boost it into a usable 0-1 range
+const RMS_GAIN = 4;
+
+// Poll the RMS level of a microphone track without touching the published track
+export function createAudioLevelMonitor(
+  track: MediaStreamTrack,
+  onLevel: (level: number) => void
+): AudioLevelMonitor {
+  const audioContext = new AudioContext();
+  const source = audioContext.createMediaStreamSource(new MediaStream([track]));
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 512;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+
+  const interval = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sumOfSquares = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sumOfSquares += samples[i]! * samples[i]!;
+    }
+    const rms = Math.sqrt(sumOfSquares / samples.length);
+    onLevel(Math.min(1, rms * RMS_GAIN));
+  }, SAMPLE_INTERVAL_MS);
+
+  return {
+    stop: () => {
+      clearInterval(interval);
+      source.disconnect();
+      void audioContext.close();
+    },
+  };
+}
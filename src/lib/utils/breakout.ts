@@ -0,0 +1,26 @@
+import { BREAKOUT_CHANNEL_PREFIX } from '@/lib/constants';
+
+// Agora channel for a breakout room; party ids are uuids, so the name stays within Agora's 64 characters
+export const getBreakoutChannelName = (partyId: string, breakout: number) =>
+  `${BREAKOUT_CHANNEL_PREFIX}${breakout}-${partyId}`;
+
+export const parseBreakoutChannelName = (channelName: string): { breakout: number; partyId: string } | null => {
+  if (!channelName.startsWith(BREAKOUT_CHANNEL_PREFIX)) return null;
+  const match = /^(\d+)-(.+)$/.exec(channelName.slice(BREAKOUT_CHANNEL_PREFIX.length));
+  if (!match) return null;
+  return { breakout: Number(match[1]), partyId: match[2]! };
+};
+
+// The breakout a member is in, or null for the main channel; assignments past the room count fall back to main
+export const getMemberBreakout = (
+  assignments: Record<string, number>,
+  breakoutCount: number,
+  memberId: string
+): number | null => {
+  const breakout = assignments[memberId];
+  return breakout && breakout <= breakoutCount ? breakout : null;
+};
+
+// The Agora channel a member should be talking in
+export const getVoiceChannelName = (partyId: string, breakout: number | null) =>
+  breakout ? getBreakoutChannelName(partyId, breakout) : partyId;
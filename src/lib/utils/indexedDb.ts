@@ -0,0 +1,33 @@
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// A single-store database keyed by id; opened on first use, and a failed open
+// (private browsing, quota) is retried on the next call
+export function createObjectStoreOpener(
+  dbName: string,
+  storeName: string
+): (mode: IDBTransactionMode) => Promise<IDBObjectStore> {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!db) {
+      db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      db.catch(() => {
+        db = null;
+      });
+    }
+    return db;
+  };
+
+  return async (mode) => (await open()).transaction(storeName, mode).objectStore(storeName);
+}
@@ -0,0 +1,22 @@
+import type { Profile } from '@/lib/types/auth';
+import type { MemberStatus, PartyMember, VoiceStatus } from '@/lib/types/party/member';
+
+// Member record for a join; the id must be the signed-in user's
+export const createJoiningMember = (id: string, { avatar, game, name }: Omit<Profile, 'id'>): PartyMember => {
+  const now = new Date().toISOString();
+  const member = {
+    id,
+    name,
+    avatar,
+    game,
+    created_at: now,
+    last_seen: now,
+    is_active: true,
+    status: 'active' as MemberStatus,
+    voice_status: 'silent' as VoiceStatus,
+    volumeLevel: 0,
+    muted: false,
+    is_deafened: false,
+  };
+  return member;
+};
@@ -0,0 +1,5 @@
+import type { PartyRole } from '@/lib/types/party/party';
+
+// Mirrors the permission check in the moderation route
+export const canModerateMember = (actorRole: PartyRole, targetRole: PartyRole) =>
+  actorRole === 'host' ? targetRole !== 'host' : actorRole === 'moderator' && targetRole === 'member';
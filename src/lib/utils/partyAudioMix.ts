@@ -0,0 +1,45 @@
+export interface PartyAudioMix {
+  sourceCount: () => number;
+  stop: () => void;
+}
+
+// Keep every live party voice connected to target; mic tracks are replaced when the input gate
+// or device changes, and members come and go, so the track list is polled rather than captured once
+export function createPartyAudioMix(
+  audioContext: AudioContext,
+  target: AudioNode,
+  getTracks: () => MediaStreamTrack[],
+  syncIntervalMs: number
+): PartyAudioMix {
+  const sources = new Map<string, MediaStreamAudioSourceNode>(); // Keyed by MediaStreamTrack id
+
+  const syncSources = () => {
+    const tracks = getTracks();
+    const liveIds = new Set(tracks.map((track) => track.id));
+
+    sources.forEach((source, trackId) => {
+      if (liveIds.has(trackId)) return;
+      source.disconnect();
+      sources.delete(trackId);
+    });
+
+    tracks.forEach((track) => {
+      if (sources.has(track.id)) return;
+      const source = audioContext.createMediaStreamSource(new MediaStream([track]));
+      source.connect(target);
+      sources.set(track.id, source);
+    });
+  };
+
+  syncSources();
+  const interval = setInterval(syncSources, syncIntervalMs);
+
+  return {
+    sourceCount: () => sources.size,
+    stop: () => {
+      clearInterval(interval);
+      sources.forEach((source) => source.disconnect());
+      sources.clear();
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import type { SpatialAudioSettings } from '@/lib/types/party/voice';
+
+import { VOICE_CONSTANTS } from '@/lib/constants/voice';
+
+// Spread members evenly from left to right, keeping the edges short of hard-panned
+export function getRowOrderPans(memberIds: string[]): Record<string, number> {
+  const pans: Record<string, number> = {};
+  const maxPan = VOICE_CONSTANTS.SPATIAL_MAX_PAN;
+
+  memberIds.forEach((memberId, index) => {
+    pans[memberId] = memberIds.length === 1 ? 0 : -maxPan + (2 * maxPan * index) / (memberIds.length - 1);
+  });
+
+  return pans;
+}
+
+// Custom layouts fall back to row order for anyone the user has not placed yet
+export function getMemberPans(memberIds: string[], { layout, positions }: SpatialAudioSettings): Record<string, number> {
+  const rowOrderPans = getRowOrderPans(memberIds);
+  if (layout === 'row_order') return rowOrderPans;
+
+  return Object.fromEntries(memberIds.map((memberId) => [memberId, positions[memberId] ?? rowOrderPans[memberId]!]));
+}
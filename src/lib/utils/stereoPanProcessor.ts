@@ -0,0 +1,35 @@
+import type { IAudioProcessorContext } from 'agora-rte-extension';
+
+import { AudioProcessor } from 'agora-rte-extension';
+
+// Sits in a remote track's processor chain and places the voice in the stereo field
+export class StereoPanProcessor extends AudioProcessor {
+  public name = 'StereoPanProcessor';
+  private pan: number;
+  private panner: StereoPannerNode | null = null;
+
+  constructor(pan: number) {
+    super();
+    this.pan = pan;
+  }
+
+  public setPan(pan: number): void {
+    this.pan = pan;
+    if (this.panner) {
+      this.panner.pan.value = pan;
+    }
+  }
+
+  protected onNode(audioNode: AudioNode, context: IAudioProcessorContext): void {
+    this.panner?.disconnect();
+    this.panner = context.getAudioContext().createStereoPanner();
+    this.panner.pan.value = this.pan;
+    audioNode.connect(this.panner);
+    this.output(this.panner, context);
+  }
+
+  protected onUnpiped(): void {
+    this.panner?.disconnect();
+    this.panner = null;
+  }
+}
@@ -0,0 +1,29 @@
+import type { SynthNote } from '@/lib/types/party/media';
+
+const ATTACK_SECONDS = 0.01;
+const NOTE_GAIN = 0.3;
+
+// Render a short note sequence offline into a buffer the soundboard can play like any upload
+export async function renderSynthSound(notes: SynthNote[], sampleRate: number): Promise<AudioBuffer> {
+  const length = Math.max(...notes.map((note) => note.start + note.duration));
+  const context = new OfflineAudioContext(1, Math.ceil(length * sampleRate), sampleRate);
+
+  notes.forEach((note) => {
+    const oscillator = context.createOscillator();
+    oscillator.type = note.type ?? 'sine';
+    oscillator.frequency.value = note.frequency;
+
+    // Short attack and exponential release so notes do not click
+    const gain = context.createGain();
+    const end = note.start + note.duration;
+    gain.gain.setValueAtTime(0, note.start);
+    gain.gain.linearRampToValueAtTime(NOTE_GAIN, note.start + ATTACK_SECONDS);
+    gain.gain.exponentialRampToValueAtTime(0.001, end);
+
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(note.start);
+    oscillator.stop(end);
+  });
+
+  return context.startRendering();
+}
@@ -0,0 +1,116 @@
+/*
+  # Parties Schema
+
+  1. Tables
+    - parties
+      - One row per party, each party maps to its own realtime and voice channel
+      - The legacy single party is seeded with the fixed main party id
+
+  2. Views & Functions
+    - party_summaries - Active parties with their current member count
+    - get_active_members(target_party_id) - Scoped to a single party
+
+  3. Constraints
+    - party_members.party_id now references parties(id)
+*/
+
+-- Create parties table
+CREATE TABLE parties (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT check_party_name_length CHECK (char_length(name) BETWEEN 2 AND 40)
+);
+
+-- Enable RLS
+ALTER TABLE parties ENABLE ROW LEVEL SECURITY;
+
+-- Enable realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE parties;
+
+-- Create public access policies
+CREATE POLICY "Allow public read"
+  ON parties FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert"
+  ON parties FOR INSERT
+  WITH CHECK (true);
+
+-- Seed the main party so existing members keep a valid reference
+INSERT INTO parties (id, name)
+VALUES ('11111111-1111-1111-1111-111111111111'::uuid, 'Chat360 Party')
+ON CONFLICT (id) DO NOTHING;
+
+-- Reference parties from party_members
+ALTER TABLE party_members
+ADD CONSTRAINT fk_party_members_party
+FOREIGN KEY (party_id) REFERENCES parties(id) ON DELETE CASCADE;
+
+-- Add index for listing active parties
+CREATE INDEX idx_parties_active_created
+ON parties(created_at DESC)
+WHERE is_active = true;
+
+-- Create view with live member counts for the party browser
+CREATE VIEW party_summaries AS
+SELECT
+  p.id,
+  p.name,
+  p.is_active,
+  p.created_at,
+  count(pm.id) FILTER (WHERE pm.is_active = true)::integer AS member_count
+FROM parties p
+LEFT JOIN party_members pm ON pm.party_id = p.id
+WHERE p.is_active = true
+GROUP BY p.id;
+
+-- Scope get_active_members to a single party
+DROP FUNCTION IF EXISTS get_active_members();
+
+CREATE FUNCTION get_active_members(
+  target_party_id uuid DEFAULT '11111111-1111-1111-1111-111111111111'::uuid
+)
+RETURNS TABLE (
+  id text,
+  name text,
+  avatar text,
+  game text,
+  is_active boolean,
+  muted boolean,
+  voice_status text,
+  deafened_users text[],
+  agora_uid bigint,
+  party_id uuid,
+  last_seen timestamptz,
+  created_at timestamptz
+) AS $$
+BEGIN
+  -- Clean up stale members first
+  UPDATE party_members
+  SET is_active = false
+  WHERE is_active = true
+  AND last_seen < NOW() - INTERVAL '5 minutes';
+
+  -- Return active members of the requested party
+  RETURN QUERY
+  SELECT
+    pm.id::text,
+    pm.name,
+    pm.avatar,
+    pm.game,
+    pm.is_active,
+    pm.muted,
+    pm.voice_status,
+    pm.deafened_users,
+    pm.agora_uid,
+    pm.party_id,
+    pm.last_seen,
+    pm.created_at
+  FROM party_members pm
+  WHERE pm.is_active = true
+  AND pm.party_id = target_party_id
+  ORDER BY pm.created_at ASC;
+END;
+$$ LANGUAGE plpgsql;
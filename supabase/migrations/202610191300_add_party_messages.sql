@@ -0,0 +1,45 @@
+/*
+  # Party Messages Schema
+
+  1. Tables
+    - party_messages
+      - Text chat history scoped to a party
+      - Sender name and avatar are denormalized so history renders after members leave
+
+  2. Realtime
+    - Inserts are streamed to clients on the party's realtime channel
+
+  3. Indexes
+    - (party_id, created_at) for loading recent history
+*/
+
+-- Create party_messages table
+CREATE TABLE party_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  party_id uuid NOT NULL REFERENCES parties(id) ON DELETE CASCADE,
+  member_id text NOT NULL,
+  member_name text NOT NULL,
+  member_avatar text NOT NULL,
+  content text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT check_message_content_length CHECK (char_length(content) BETWEEN 1 AND 500)
+);
+
+-- Enable RLS
+ALTER TABLE party_messages ENABLE ROW LEVEL SECURITY;
+
+-- Enable realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE party_messages;
+
+-- Create public access policies
+CREATE POLICY "Allow public read"
+  ON party_messages FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert"
+  ON party_messages FOR INSERT
+  WITH CHECK (true);
+
+-- Add index for recent history per party
+CREATE INDEX idx_party_messages_party_created
+ON party_messages(party_id, created_at DESC);
@@ -0,0 +1,90 @@
+/*
+  # Authenticated Identity
+
+  1. Tables
+    - profiles
+      - One row per Supabase Auth user (anonymous, magic link or OAuth)
+      - Stores the display name, avatar and game edited in the profile modal
+
+  2. Policies
+    - party_members rows can only be written by the member they describe (id = auth.uid())
+    - party_messages can only be sent as yourself
+    - Creating parties requires a signed-in user
+
+  3. Functions
+    - get_active_members() runs as definer so stale cleanup still covers every member
+*/
+
+-- Create profiles table
+CREATE TABLE profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  avatar text NOT NULL,
+  game text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT check_profile_name_length CHECK (char_length(name) BETWEEN 2 AND 20)
+);
+
+-- Enable RLS
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read"
+  ON profiles FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can insert own profile"
+  ON profiles FOR INSERT
+  WITH CHECK (id = auth.uid());
+
+CREATE POLICY "Users can update own profile"
+  ON profiles FOR UPDATE
+  USING (id = auth.uid());
+
+-- Keep updated_at current
+CREATE FUNCTION update_profile_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_profile_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_profile_timestamp();
+
+-- Bind party_members rows to the authenticated user
+DROP POLICY IF EXISTS "Allow public insert" ON party_members;
+DROP POLICY IF EXISTS "Allow public update" ON party_members;
+DROP POLICY IF EXISTS "Allow public delete" ON party_members;
+
+CREATE POLICY "Members can insert themselves"
+  ON party_members FOR INSERT
+  WITH CHECK (id = auth.uid());
+
+CREATE POLICY "Members can update themselves"
+  ON party_members FOR UPDATE
+  USING (id = auth.uid());
+
+CREATE POLICY "Members can delete themselves"
+  ON party_members FOR DELETE
+  USING (id = auth.uid());
+
+-- Only send messages as yourself
+DROP POLICY IF EXISTS "Allow public insert" ON party_messages;
+
+CREATE POLICY "Members can send own messages"
+  ON party_messages FOR INSERT
+  WITH CHECK (member_id = auth.uid()::text);
+
+-- Require a session to create parties
+DROP POLICY IF EXISTS "Allow public insert" ON parties;
+
+CREATE POLICY "Signed-in users can create parties"
+  ON parties FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+-- Stale cleanup updates other members' rows, which RLS would now block
+ALTER FUNCTION get_active_members(uuid) SECURITY DEFINER;
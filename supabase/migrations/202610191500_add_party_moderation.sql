@@ -0,0 +1,105 @@
+/*
+  # Party Moderation
+
+  1. Tables
+    - party_roles
+      - Host/moderator role per (party, member); plain members have no row
+      - The creator of a party becomes its host
+    - party_sanctions
+      - Active bans and server mutes per (party, member)
+      - agora_rule_id keeps the Agora kicking rule so a server mute can be lifted
+
+  2. Policies
+    - Roles and sanctions are readable by everyone and written only by the server (service role)
+    - Banned users can no longer insert themselves into party_members
+*/
+
+-- Record who created each party
+ALTER TABLE parties ADD COLUMN host_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+-- Create party_roles table
+CREATE TABLE party_roles (
+  party_id uuid NOT NULL REFERENCES parties(id) ON DELETE CASCADE,
+  member_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('host', 'moderator')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (party_id, member_id)
+);
+
+-- Create party_sanctions table
+CREATE TABLE party_sanctions (
+  party_id uuid NOT NULL REFERENCES parties(id) ON DELETE CASCADE,
+  member_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('ban', 'mute')),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  agora_rule_id bigint NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (party_id, member_id, kind)
+);
+
+-- Enable RLS
+ALTER TABLE party_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE party_sanctions ENABLE ROW LEVEL SECURITY;
+
+-- Enable realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE party_roles;
+ALTER PUBLICATION supabase_realtime ADD TABLE party_sanctions;
+
+-- Read-only for clients; moderation routes write with the service role
+CREATE POLICY "Allow public read"
+  ON party_roles FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public read"
+  ON party_sanctions FOR SELECT
+  USING (true);
+
+-- Make the creator the host of a new party
+CREATE FUNCTION assign_party_host()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.host_id IS NOT NULL THEN
+    INSERT INTO party_roles (party_id, member_id, role)
+    VALUES (NEW.id, NEW.host_id, 'host')
+    ON CONFLICT (party_id, member_id) DO UPDATE SET role = 'host';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trigger_assign_party_host
+  AFTER INSERT ON parties
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_party_host();
+
+-- Banned users cannot join the party they were banned from
+DROP POLICY IF EXISTS "Members can insert themselves" ON party_members;
+DROP POLICY IF EXISTS "Members can update themselves" ON party_members;
+
+CREATE POLICY "Members can insert themselves"
+  ON party_members FOR INSERT
+  WITH CHECK (
+    id = auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM party_sanctions ps
+      WHERE ps.party_id = party_members.party_id
+      AND ps.member_id = auth.uid()
+      AND ps.kind = 'ban'
+    )
+  );
+
+CREATE POLICY "Members can update themselves"
+  ON party_members FOR UPDATE
+  USING (id = auth.uid())
+  WITH CHECK (
+    NOT EXISTS (
+      SELECT 1 FROM party_sanctions ps
+      WHERE ps.party_id = party_members.party_id
+      AND ps.member_id = auth.uid()
+      AND ps.kind = 'ban'
+    )
+  );
+
+-- Add index for looking up a member's sanctions
+CREATE INDEX idx_party_sanctions_member
+ON party_sanctions(member_id, party_id);
@@ -0,0 +1,29 @@
+/*
+  # Party Soundboard Setting
+
+  1. Columns
+    - parties.soundboard_enabled
+      - Host switch for the party soundboard; on by default
+
+  2. Policies
+    - Hosts can update their own party, and only the soundboard column
+    - Realtime already publishes parties, so members see the switch flip live
+*/
+
+-- Add the soundboard switch
+ALTER TABLE parties ADD COLUMN soundboard_enabled boolean NOT NULL DEFAULT true;
+
+-- Clients may change no party column other than the soundboard switch
+REVOKE UPDATE ON parties FROM anon, authenticated;
+GRANT UPDATE (soundboard_enabled) ON parties TO authenticated;
+
+CREATE POLICY "Hosts can update their party"
+  ON parties FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM party_roles pr
+      WHERE pr.party_id = parties.id
+      AND pr.member_id = auth.uid()
+      AND pr.role = 'host'
+    )
+  );
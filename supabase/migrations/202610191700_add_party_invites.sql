@@ -0,0 +1,87 @@
+/*
+  # Party Invites
+
+  1. Tables
+    - party_invites
+      - Shareable invite codes created by a party's host
+      - Optional expiry and use limit; members_only turns away guest (anonymous) accounts
+    - party_invite_redemptions
+      - Who redeemed which code, so rejoining with the same link costs no extra use
+
+  2. Functions
+    - redeem_party_invite(invite_code, redeemer) - Counts a use if the invite is still valid and
+      returns its party id; the row lock keeps concurrent redemptions within max_uses
+
+  3. Policies
+    - Codes act as secrets: no client access at all, the invite routes use the service role
+*/
+
+-- Create party_invites table
+CREATE TABLE party_invites (
+  code text PRIMARY KEY,
+  party_id uuid NOT NULL REFERENCES parties(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at timestamptz NULL,
+  max_uses integer NULL CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count integer NOT NULL DEFAULT 0,
+  members_only boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Create party_invite_redemptions table
+CREATE TABLE party_invite_redemptions (
+  code text NOT NULL REFERENCES party_invites(code) ON DELETE CASCADE,
+  member_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (code, member_id)
+);
+
+-- Enable RLS with no policies
+ALTER TABLE party_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE party_invite_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Add index for listing a party's invites
+CREATE INDEX idx_party_invites_party
+ON party_invites(party_id, created_at DESC);
+
+-- Redeem an invite, returning NULL once it has expired or run out of uses
+CREATE FUNCTION redeem_party_invite(invite_code text, redeemer uuid)
+RETURNS uuid AS $$
+DECLARE
+  invite party_invites%ROWTYPE;
+BEGIN
+  SELECT * INTO invite
+  FROM party_invites
+  WHERE code = invite_code
+  FOR UPDATE;
+
+  IF NOT FOUND OR (invite.expires_at IS NOT NULL AND invite.expires_at <= now()) THEN
+    RETURN NULL;
+  END IF;
+
+  -- A member who already used this link can use it again for free
+  IF EXISTS (
+    SELECT 1 FROM party_invite_redemptions
+    WHERE code = invite_code
+    AND member_id = redeemer
+  ) THEN
+    RETURN invite.party_id;
+  END IF;
+
+  IF invite.max_uses IS NOT NULL AND invite.use_count >= invite.max_uses THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO party_invite_redemptions (code, member_id)
+  VALUES (invite_code, redeemer);
+
+  UPDATE party_invites
+  SET use_count = use_count + 1
+  WHERE code = invite_code;
+
+  RETURN invite.party_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the service role may redeem
+REVOKE EXECUTE ON FUNCTION redeem_party_invite(text, uuid) FROM PUBLIC, anon, authenticated;
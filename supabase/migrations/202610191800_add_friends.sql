@@ -0,0 +1,115 @@
+/*
+  # Friends
+
+  1. Tables
+    - friendships
+      - One row per pair of users, pending until the addressee accepts
+      - Only account holders can send requests; guests (anonymous sessions) cannot
+    - user_blocks
+      - Users someone blocked; a block ends any friendship and stops new requests either way
+
+  2. Functions
+    - is_blocked_between(a, b) - Runs as definer so the insert policy can see the other side's blocks
+
+  3. Policies
+    - Each side can read and delete its friendships; only the addressee can accept
+    - Blocks are private to the blocker
+    - Online status and party invites travel over the realtime system channel, not tables
+*/
+
+-- Create friendships table
+CREATE TABLE friendships (
+  requester_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  addressee_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (requester_id, addressee_id),
+  CONSTRAINT check_friendship_not_self CHECK (requester_id <> addressee_id)
+);
+
+-- One friendship per pair, whichever side asked first
+CREATE UNIQUE INDEX idx_friendships_pair
+ON friendships (LEAST(requester_id, addressee_id), GREATEST(requester_id, addressee_id));
+
+CREATE INDEX idx_friendships_addressee
+ON friendships(addressee_id);
+
+-- Create user_blocks table
+CREATE TABLE user_blocks (
+  blocker_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  blocked_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CONSTRAINT check_block_not_self CHECK (blocker_id <> blocked_id)
+);
+
+-- Enable RLS
+ALTER TABLE friendships ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+
+-- Enable realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE friendships;
+
+CREATE FUNCTION is_blocked_between(a uuid, b uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_blocks
+    WHERE (blocker_id = a AND blocked_id = b)
+    OR (blocker_id = b AND blocked_id = a)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Users can read their friendships"
+  ON friendships FOR SELECT
+  USING (auth.uid() IN (requester_id, addressee_id));
+
+CREATE POLICY "Account holders can send requests"
+  ON friendships FOR INSERT
+  WITH CHECK (
+    requester_id = auth.uid()
+    AND status = 'pending'
+    AND COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false) = false
+    AND NOT is_blocked_between(requester_id, addressee_id)
+  );
+
+-- Accepting is the only change a client can make
+REVOKE UPDATE ON friendships FROM anon, authenticated;
+GRANT UPDATE (status) ON friendships TO authenticated;
+
+CREATE POLICY "Addressees can accept requests"
+  ON friendships FOR UPDATE
+  USING (addressee_id = auth.uid())
+  WITH CHECK (status = 'accepted');
+
+-- Declining, cancelling and unfriending all delete the row
+CREATE POLICY "Either side can end a friendship"
+  ON friendships FOR DELETE
+  USING (auth.uid() IN (requester_id, addressee_id));
+
+CREATE POLICY "Users can read their blocks"
+  ON user_blocks FOR SELECT
+  USING (blocker_id = auth.uid());
+
+CREATE POLICY "Users can block others"
+  ON user_blocks FOR INSERT
+  WITH CHECK (blocker_id = auth.uid());
+
+CREATE POLICY "Users can unblock"
+  ON user_blocks FOR DELETE
+  USING (blocker_id = auth.uid());
+
+-- Blocking ends any friendship or pending request between the pair
+CREATE FUNCTION end_friendship_on_block()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM friendships
+  WHERE (requester_id = NEW.blocker_id AND addressee_id = NEW.blocked_id)
+  OR (requester_id = NEW.blocked_id AND addressee_id = NEW.blocker_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trigger_end_friendship_on_block
+  AFTER INSERT ON user_blocks
+  FOR EACH ROW
+  EXECUTE FUNCTION end_friendship_on_block();
@@ -0,0 +1,57 @@
+/*
+  # Direct Calls
+
+  1. Tables
+    - direct_calls
+      - One row per one-to-one call; its id names the private Agora channel (call-<id>)
+      - Rings until the callee accepts, then active until either side ends it
+
+  2. Policies
+    - Only the two participants can read a call, and only they can change its status
+    - Blocked users cannot call each other
+    - The token route reads this table to hand out call tokens; ring, accept and decline
+      signals travel over the realtime system channel and are checked against it
+*/
+
+-- Create direct_calls table
+CREATE TABLE direct_calls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  caller_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  callee_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'ringing' CHECK (status IN ('ringing', 'active', 'ended')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz NULL,
+  CONSTRAINT check_call_not_self CHECK (caller_id <> callee_id)
+);
+
+-- Enable RLS
+ALTER TABLE direct_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can read their calls"
+  ON direct_calls FOR SELECT
+  USING (auth.uid() IN (caller_id, callee_id));
+
+CREATE POLICY "Users can place calls"
+  ON direct_calls FOR INSERT
+  WITH CHECK (
+    caller_id = auth.uid()
+    AND status = 'ringing'
+    AND NOT is_blocked_between(caller_id, callee_id)
+  );
+
+-- Accepting and ending are the only changes a client can make
+REVOKE UPDATE ON direct_calls FROM anon, authenticated;
+GRANT UPDATE (status, ended_at) ON direct_calls TO authenticated;
+
+CREATE POLICY "Participants can update their calls"
+  ON direct_calls FOR UPDATE
+  USING (auth.uid() IN (caller_id, callee_id) AND status <> 'ended')
+  WITH CHECK (
+    (status = 'active' AND callee_id = auth.uid())
+    OR status = 'ended'
+  );
+
+-- Add index for finding a user's open calls
+CREATE INDEX idx_direct_calls_callee_open
+ON direct_calls(callee_id)
+WHERE status <> 'ended';
@@ -0,0 +1,24 @@
+/*
+  # Party Breakout Rooms
+
+  1. Columns
+    - parties.breakout_count
+      - How many breakout rooms the host opened; 0 means everyone shares the main channel
+    - parties.breakout_assignments
+      - Maps member ids to their breakout number; members missing from it stay in the main channel
+      - Each breakout talks on its own Agora channel (breakout-<n>-<party id>)
+
+  2. Policies
+    - The existing host update policy covers both columns, so only the host can split or recall the party
+    - Realtime already publishes parties, so members move as soon as the host assigns them
+    - The token route reads the assignments before handing out breakout tokens
+*/
+
+-- Add the breakout columns
+ALTER TABLE parties ADD COLUMN breakout_count smallint NOT NULL DEFAULT 0
+  CONSTRAINT check_breakout_count CHECK (breakout_count BETWEEN 0 AND 8);
+ALTER TABLE parties ADD COLUMN breakout_assignments jsonb NOT NULL DEFAULT '{}'::jsonb
+  CONSTRAINT check_breakout_assignments CHECK (jsonb_typeof(breakout_assignments) = 'object');
+
+-- Hosts may change the breakouts alongside the soundboard switch
+GRANT UPDATE (breakout_count, breakout_assignments) ON parties TO authenticated;
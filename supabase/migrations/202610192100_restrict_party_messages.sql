@@ -0,0 +1,53 @@
+/*
+  # Restrict Party Messages
+
+  1. Policies
+    - Only active members of a party can post into it, and banned users cannot post at all
+    - Kicked members lose their active membership, so they stop being able to post too
+
+  2. Triggers
+    - Sender name and avatar come from the sender's profile, whatever the client sends
+*/
+
+-- Post only as yourself, into a party you are actively in and not banned from
+DROP POLICY IF EXISTS "Members can send own messages" ON party_messages;
+
+CREATE POLICY "Members can send own messages"
+  ON party_messages FOR INSERT
+  WITH CHECK (
+    member_id = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM party_members pm
+      WHERE pm.id = auth.uid()
+      AND pm.party_id = party_messages.party_id
+      AND pm.is_active = true
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM party_sanctions ps
+      WHERE ps.party_id = party_messages.party_id
+      AND ps.member_id = auth.uid()
+      AND ps.kind = 'ban'
+    )
+  );
+
+-- Stamp the sender's profile onto the message
+CREATE FUNCTION set_message_sender_profile()
+RETURNS TRIGGER AS $$
+DECLARE
+  sender profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO sender FROM profiles WHERE id::text = NEW.member_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Set up a profile before sending messages';
+  END IF;
+
+  NEW.member_name = sender.name;
+  NEW.member_avatar = sender.avatar;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_set_message_sender_profile
+  BEFORE INSERT ON party_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION set_message_sender_profile();
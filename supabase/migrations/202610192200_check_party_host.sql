@@ -0,0 +1,13 @@
+/*
+  # Check Party Host
+
+  1. Policies
+    - A new party's host must be the user creating it; host_id only defaulted to auth.uid(),
+      so a client could name someone else and hand them the party
+*/
+
+DROP POLICY IF EXISTS "Signed-in users can create parties" ON parties;
+
+CREATE POLICY "Signed-in users can create parties"
+  ON parties FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL AND host_id = auth.uid());
@@ -0,0 +1,13 @@
+/*
+  # Record Stopped Screen Shares
+
+  1. Columns
+    - party_sanctions.kind
+      - Adds 'stop_share', written by the moderation route each time a moderator stops a share
+      - created_at is refreshed on every stop, so clients can confirm a stop_share broadcast
+        against a recent row instead of trusting the actor named in the unauthenticated payload
+*/
+
+ALTER TABLE party_sanctions DROP CONSTRAINT party_sanctions_kind_check;
+ALTER TABLE party_sanctions ADD CONSTRAINT party_sanctions_kind_check
+  CHECK (kind IN ('ban', 'mute', 'stop_share'));
@@ -0,0 +1,47 @@
+/*
+  # Party Kicks
+
+  1. Columns
+    - party_sanctions.kind
+      - Adds 'kick', written by the moderation route when a moderator kicks a member
+    - party_sanctions.expires_at
+      - When a kick lapses; bans and mutes last until lifted and leave it null
+
+  2. Policies
+    - Kicked members cannot rejoin or reactivate their membership until the kick lapses
+*/
+
+ALTER TABLE party_sanctions ADD COLUMN expires_at timestamptz NULL;
+
+ALTER TABLE party_sanctions DROP CONSTRAINT party_sanctions_kind_check;
+ALTER TABLE party_sanctions ADD CONSTRAINT party_sanctions_kind_check
+  CHECK (kind IN ('ban', 'kick', 'mute', 'stop_share'));
+
+-- Keep banned and currently kicked members out
+DROP POLICY IF EXISTS "Members can insert themselves" ON party_members;
+DROP POLICY IF EXISTS "Members can update themselves" ON party_members;
+
+CREATE POLICY "Members can insert themselves"
+  ON party_members FOR INSERT
+  WITH CHECK (
+    id = auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM party_sanctions ps
+      WHERE ps.party_id = party_members.party_id
+      AND ps.member_id = auth.uid()
+      AND (ps.kind = 'ban' OR (ps.kind = 'kick' AND ps.expires_at > now()))
+    )
+  );
+
+-- Kicked members can still mark themselves inactive, just not active again
+CREATE POLICY "Members can update themselves"
+  ON party_members FOR UPDATE
+  USING (id = auth.uid())
+  WITH CHECK (
+    NOT EXISTS (
+      SELECT 1 FROM party_sanctions ps
+      WHERE ps.party_id = party_members.party_id
+      AND ps.member_id = auth.uid()
+      AND (ps.kind = 'ban' OR (ps.kind = 'kick' AND ps.expires_at > now() AND party_members.is_active))
+    )
+  );
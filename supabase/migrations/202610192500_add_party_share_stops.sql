@@ -0,0 +1,33 @@
+/*
+  # Party Share Stops
+
+  1. Tables
+    - party_share_stops
+      - The last time a moderator stopped each member's screen share, one row per (party, member)
+      - Clients confirm a stop_share broadcast against a recent row instead of trusting its payload
+      - Replaces the 'stop_share' rows in party_sanctions, since a stop is an event rather than a sanction
+
+  2. Policies
+    - Readable by everyone and written only by the server (service role)
+*/
+
+CREATE TABLE party_share_stops (
+  party_id uuid NOT NULL REFERENCES parties(id) ON DELETE CASCADE,
+  member_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stopped_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  stopped_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (party_id, member_id)
+);
+
+ALTER TABLE party_share_stops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read"
+  ON party_share_stops FOR SELECT
+  USING (true);
+
+-- Sanctions go back to holding only sanctions
+DELETE FROM party_sanctions WHERE kind = 'stop_share';
+
+ALTER TABLE party_sanctions DROP CONSTRAINT party_sanctions_kind_check;
+ALTER TABLE party_sanctions ADD CONSTRAINT party_sanctions_kind_check
+  CHECK (kind IN ('ban', 'kick', 'mute'));
@@ -0,0 +1,70 @@
+/*
+  # Restrict Guest Members
+
+  1. Functions
+    - guest_can_join_party(target_party) - Whether the calling guest (anonymous) account may be in a party
+      - Once a party has a members-only invite, guests need to have redeemed one of its open invites
+      - The host is always let back in
+      - Runs as its owner, since invites are hidden from clients
+
+  2. Policies
+    - Guests cannot join or reactivate themselves in a members-only party by opening its page directly;
+      before this, members_only was only checked when an invite was redeemed
+*/
+
+CREATE FUNCTION guest_can_join_party(target_party uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM parties
+    WHERE id = target_party
+    AND host_id = auth.uid()
+  )
+  OR NOT EXISTS (
+    SELECT 1 FROM party_invites
+    WHERE party_id = target_party
+    AND members_only
+  )
+  OR EXISTS (
+    SELECT 1 FROM party_invite_redemptions r
+    JOIN party_invites i ON i.code = r.code
+    WHERE i.party_id = target_party
+    AND r.member_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Members can insert themselves" ON party_members;
+DROP POLICY IF EXISTS "Members can update themselves" ON party_members;
+
+CREATE POLICY "Members can insert themselves"
+  ON party_members FOR INSERT
+  WITH CHECK (
+    id = auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM party_sanctions ps
+      WHERE ps.party_id = party_members.party_id
+      AND ps.member_id = auth.uid()
+      AND (ps.kind = 'ban' OR (ps.kind = 'kick' AND ps.expires_at > now()))
+    )
+    AND (
+      COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false) = false
+      OR guest_can_join_party(party_members.party_id)
+    )
+  );
+
+-- Kicked members and turned-away guests can still mark themselves inactive, just not active again
+CREATE POLICY "Members can update themselves"
+  ON party_members FOR UPDATE
+  USING (id = auth.uid())
+  WITH CHECK (
+    NOT EXISTS (
+      SELECT 1 FROM party_sanctions ps
+      WHERE ps.party_id = party_members.party_id
+      AND ps.member_id = auth.uid()
+      AND (ps.kind = 'ban' OR (ps.kind = 'kick' AND ps.expires_at > now() AND party_members.is_active))
+    )
+    AND (
+      NOT party_members.is_active
+      OR COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false) = false
+      OR guest_can_join_party(party_members.party_id)
+    )
+  );